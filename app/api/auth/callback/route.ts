@@ -0,0 +1,63 @@
+import { authRedirect } from "@/app/api/auth/redirect";
+import {
+  LOGIN_STATE_COOKIE,
+  createSessionCookie,
+  getAppOrigin,
+  getAuthConfig,
+  getLoginUrl,
+  readCookie,
+  serializeCookie,
+  verifyValue,
+  type LoginState
+} from "@/lib/auth";
+import { exchangeCode } from "@/lib/oidc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const clearState = serializeCookie(LOGIN_STATE_COOKIE, "", 0);
+
+  const fail = (error: string, returnTo?: string) =>
+    authRedirect(getLoginUrl(request, { returnTo, error }), 302, [clearState]);
+
+  try {
+    const config = getAuthConfig();
+    const rawState = readCookie(request, LOGIN_STATE_COOKIE);
+    const loginState = rawState ? await verifyValue<LoginState>(rawState, config.secret) : null;
+    if (!config.oidc || !loginState || loginState.exp * 1000 <= Date.now()) {
+      return fail("expired");
+    }
+    if (searchParams.get("state") !== loginState.state) {
+      return fail("state", loginState.returnTo);
+    }
+    const providerError = searchParams.get("error");
+    const code = searchParams.get("code");
+    if (providerError || !code) {
+      console.warn("[auth] Provider refused the login", { error: providerError });
+      return fail("denied", loginState.returnTo);
+    }
+
+    const user = await exchangeCode(config.oidc, {
+      code,
+      redirectUri: `${getAppOrigin(request)}/api/auth/callback`,
+      verifier: loginState.verifier,
+      nonce: loginState.nonce
+    });
+
+    const sessionCookie = await createSessionCookie(user, config.secret);
+    console.info("[auth] Signed in", { sub: user.sub });
+    return authRedirect(
+      new URL(loginState.returnTo, getAppOrigin(request)).toString(),
+      302,
+      [clearState, sessionCookie]
+    );
+  } catch (error) {
+    console.error("[auth] Callback failed", {
+      code: (error as Error & { code?: string })?.code ?? null,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+    return fail("provider");
+  }
+}
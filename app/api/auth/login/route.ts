@@ -0,0 +1,56 @@
+import { authRedirect } from "@/app/api/auth/redirect";
+import {
+  LOGIN_STATE_COOKIE,
+  LOGIN_STATE_TTL_SEC,
+  getAppOrigin,
+  getAuthConfig,
+  getLoginUrl,
+  randomToken,
+  sanitizeReturnTo,
+  serializeCookie,
+  signValue,
+  type LoginState
+} from "@/lib/auth";
+import { buildAuthorizationUrl } from "@/lib/oidc";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const returnTo = sanitizeReturnTo(new URL(request.url).searchParams.get("returnTo"));
+
+  try {
+    const config = getAuthConfig();
+    if (!config.oidc) {
+      // The mock provider signs in from the form on the login page.
+      return authRedirect(getLoginUrl(request, { returnTo }), 302);
+    }
+
+    const loginState: LoginState = {
+      state: randomToken(),
+      nonce: randomToken(),
+      verifier: randomToken(48),
+      returnTo,
+      exp: Math.floor(Date.now() / 1000) + LOGIN_STATE_TTL_SEC
+    };
+    const authorizationUrl = await buildAuthorizationUrl(config.oidc, {
+      redirectUri: `${getAppOrigin(request)}/api/auth/callback`,
+      state: loginState.state,
+      nonce: loginState.nonce,
+      verifier: loginState.verifier
+    });
+
+    return authRedirect(authorizationUrl, 302, [
+      serializeCookie(
+        LOGIN_STATE_COOKIE,
+        await signValue(loginState, config.secret),
+        LOGIN_STATE_TTL_SEC
+      )
+    ]);
+  } catch (error) {
+    console.error("[auth] Login failed", {
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+    return authRedirect(getLoginUrl(request, { returnTo, error: "provider" }), 302);
+  }
+}
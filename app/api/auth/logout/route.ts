@@ -0,0 +1,11 @@
+import { authRedirect } from "@/app/api/auth/redirect";
+import { clearSessionCookie, getLoginUrl } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Clears the session cookie and sends the browser to /login. Only POST is
+// exported, so a cross-site link or image cannot sign the user out.
+export async function POST(request: Request) {
+  return authRedirect(getLoginUrl(request), 303, [clearSessionCookie()]);
+}
@@ -0,0 +1,41 @@
+import { authRedirect } from "@/app/api/auth/redirect";
+import {
+  createSessionCookie,
+  getAppOrigin,
+  getAuthConfig,
+  getLoginUrl,
+  sanitizeReturnTo
+} from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Local development only: getAuthConfig() refuses the mock provider in production.
+export async function POST(request: Request) {
+  let config;
+  try {
+    config = getAuthConfig();
+  } catch {
+    config = null;
+  }
+  if (!config || config.provider !== "mock") {
+    return new Response("Not found", {
+      status: 404,
+      headers: { "content-type": "text/plain; charset=utf-8" }
+    });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const email = String(form?.get("email") ?? "").trim().toLowerCase();
+  const name = String(form?.get("name") ?? "").trim();
+  const returnTo = sanitizeReturnTo(String(form?.get("returnTo") ?? ""));
+  if (!email) {
+    return authRedirect(getLoginUrl(request, { returnTo, error: "email" }), 303);
+  }
+
+  const cookie = await createSessionCookie(
+    { sub: `mock:${email}`, email, name: name || null },
+    config.secret
+  );
+  return authRedirect(new URL(returnTo, getAppOrigin(request)).toString(), 303, [cookie]);
+}
@@ -0,0 +1,7 @@
+// Every auth step ends in a redirect that must not be cached, often setting or
+// clearing cookies on the way.
+export const authRedirect = (location: string, status: 302 | 303, cookies: string[] = []) => {
+  const headers = new Headers({ location, "cache-control": "no-store" });
+  cookies.forEach((cookie) => headers.append("set-cookie", cookie));
+  return new Response(null, { status, headers });
+};
@@ -0,0 +1,19 @@
+import { errorResponse } from "@/app/api/proxy";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return errorResponse(401, "UNAUTHENTICATED", "Not signed in.", crypto.randomUUID());
+  }
+  return new Response(JSON.stringify({ user }), {
+    status: 200,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store"
+    }
+  });
+}
@@ -1,3 +1,5 @@
+import { checkRateLimit } from "@/app/api/rateLimit";
+import { getSessionUser } from "@/lib/auth";
 import { normalizeFrameUrl } from "@/lib/frameUrl";
 
 export const runtime = "nodejs";
@@ -9,6 +11,11 @@ const jsonHeaders = {
 const ALLOWED_FRAME_URL_PREFIX = "https://s3.nextgroupintl.com/";
 
 export async function GET(request: Request) {
+  const limited = await checkRateLimit(request, "frameProxy", await getSessionUser(request));
+  if (limited) {
+    return limited;
+  }
+
   const { searchParams } = new URL(request.url);
   const url = searchParams.get("url");
 
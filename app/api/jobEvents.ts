@@ -0,0 +1,259 @@
+import { forward, proxyPolicies } from "@/app/api/proxy";
+import { unwrap } from "@/lib/api";
+import type { SessionUser } from "@/lib/auth";
+import { getPollInterval, isTerminalJobStatus } from "@/lib/jobs";
+
+type UnknownRecord = Record<string, any>;
+
+const STREAM_MAX_MS = 280 * 1000;
+const HEARTBEAT_MS = 15000;
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const sseHeaders = {
+  "content-type": "text/event-stream; charset=utf-8",
+  "cache-control": "no-store, no-transform",
+  connection: "keep-alive",
+  "x-accel-buffering": "no"
+};
+
+const formatEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const unwrapJob = (payload: unknown): UnknownRecord => {
+  const job = unwrap<unknown>(payload);
+  return isRecord(job) ? job : {};
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffRecords = (previous: UnknownRecord, next: UnknownRecord) => {
+  const delta: UnknownRecord = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  keys.forEach((key) => {
+    if (!isSameValue(previous[key], next[key])) {
+      delta[key] = next[key] ?? null;
+    }
+  });
+  return delta;
+};
+
+// Only `progress` is diffed field by field; every other changed key is sent whole.
+const diffJob = (previous: UnknownRecord, next: UnknownRecord) => {
+  const delta = diffRecords(previous, next);
+  if (isRecord(delta.progress) && isRecord(previous.progress)) {
+    delta.progress = diffRecords(previous.progress, delta.progress);
+  }
+  return delta;
+};
+
+// The same payload the proxy answers failures with, plus the HTTP status.
+const readUpstreamError = async (response: Response, requestId: string) => {
+  const payload = await response.json().catch(() => null);
+  const body: UnknownRecord = isRecord(payload) ? payload : {};
+  return {
+    status: response.status,
+    code: typeof body.code === "string" ? body.code : "UPSTREAM_ERROR",
+    message:
+      typeof body.message === "string" && body.message ? body.message : response.statusText,
+    request_id: typeof body.request_id === "string" ? body.request_id : requestId
+  };
+};
+
+const relayUpstreamEvents = async (
+  request: Request,
+  url: string,
+  user: SessionUser,
+  requestId: string
+) => {
+  const upstream = await forward(request, url, {
+    methodOverride: "GET",
+    includeBody: false,
+    policy: proxyPolicies.poll,
+    streamResponse: true,
+    requestId,
+    user
+  });
+  const contentType = upstream.headers.get("content-type") ?? "";
+  if (!upstream.ok || !upstream.body || !contentType.includes("text/event-stream")) {
+    await upstream.body?.cancel().catch(() => undefined);
+    return null;
+  }
+  return new Response(upstream.body, {
+    status: 200,
+    headers: { ...sseHeaders, "x-request-id": requestId }
+  });
+};
+
+const streamPolledEvents = (
+  request: Request,
+  jobUrl: string,
+  user: SessionUser,
+  requestId: string
+) => {
+  const encoder = new TextEncoder();
+  // The browser asked for an event stream; the polled job is plain JSON.
+  const pollRequest = new Request(request.url, { headers: request.headers });
+  pollRequest.headers.set("accept", "application/json");
+  let closed = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatId: ReturnType<typeof setInterval> | null = null;
+
+  const stopTimers = () => {
+    closed = true;
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+    if (heartbeatId) {
+      clearInterval(heartbeatId);
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const startedAt = Date.now();
+      let previous: UnknownRecord | null = null;
+      let consecutiveErrors = 0;
+      let backoffMs = 2000;
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        stopTimers();
+        request.signal.removeEventListener("abort", close);
+        try {
+          controller.close();
+        } catch {
+          // stream already cancelled by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", close, { once: true });
+      heartbeatId = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+      const scheduleRetry = () => {
+        timeoutId = setTimeout(poll, backoffMs);
+        backoffMs = Math.min(backoffMs * 2, 8000);
+      };
+
+      // Timeouts, unreachable hosts and an open circuit come back from forward()
+      // as 502/503/504 and are retried like any other transient failure.
+      const failTransiently = (error: UnknownRecord) => {
+        consecutiveErrors += 1;
+        if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+          write(formatEvent("upstream-error", error));
+          close();
+          return;
+        }
+        scheduleRetry();
+      };
+
+      const poll = async () => {
+        if (closed) {
+          return;
+        }
+        if (Date.now() - startedAt > STREAM_MAX_MS) {
+          // Let EventSource reconnect before the platform cuts the function off.
+          write(formatEvent("reconnect", {}));
+          close();
+          return;
+        }
+
+        try {
+          const response = await forward(pollRequest, jobUrl, {
+            methodOverride: "GET",
+            includeBody: false,
+            policy: proxyPolicies.poll,
+            requestId,
+            user
+          });
+          if (closed) {
+            return;
+          }
+          if (response.status === 409) {
+            scheduleRetry();
+            return;
+          }
+          if (response.status >= 502 && response.status <= 504) {
+            failTransiently(await readUpstreamError(response, requestId));
+            return;
+          }
+          if (!response.ok) {
+            write(formatEvent("upstream-error", await readUpstreamError(response, requestId)));
+            close();
+            return;
+          }
+
+          const job = unwrapJob(await response.json());
+          consecutiveErrors = 0;
+          backoffMs = 2000;
+          if (!previous) {
+            write(formatEvent("snapshot", job));
+          } else {
+            const delta = diffJob(previous, job);
+            if (Object.keys(delta).length > 0) {
+              write(formatEvent("delta", delta));
+            }
+          }
+          previous = job;
+
+          if (isTerminalJobStatus(job.status)) {
+            write(formatEvent("end", { status: job.status }));
+            close();
+            return;
+          }
+          timeoutId = setTimeout(poll, getPollInterval(job.progress?.step ?? null));
+        } catch (error) {
+          if (closed) {
+            return;
+          }
+          failTransiently({
+            status: 502,
+            code: "UPSTREAM_INVALID",
+            message: error instanceof Error ? error.message : "Invalid job payload",
+            request_id: requestId
+          });
+        }
+      };
+
+      poll();
+    },
+    cancel() {
+      stopTimers();
+    }
+  });
+
+  return new Response(stream, { status: 200, headers: sseHeaders });
+};
+
+// Served by the jobs catch-all route; the platform limit (maxDuration) is set there.
+export async function handleJobEvents(
+  request: Request,
+  base: string,
+  jobId: string,
+  user: SessionUser,
+  requestId: string
+) {
+  const { search } = new URL(request.url);
+  const jobPath = `${base}/jobs/${encodeURIComponent(jobId)}`;
+
+  const relayed = await relayUpstreamEvents(
+    request,
+    `${jobPath}/events${search}`,
+    user,
+    requestId
+  );
+  if (relayed) {
+    return relayed;
+  }
+
+  return streamPolledEvents(request, `${jobPath}${search}`, user, requestId);
+}
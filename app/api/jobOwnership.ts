@@ -0,0 +1,89 @@
+import { errorResponse, forward, proxyPolicies } from "@/app/api/proxy";
+import { unwrap } from "@/lib/api";
+import type { SessionUser } from "@/lib/auth";
+
+type UnknownRecord = Record<string, any>;
+
+// A job never changes owner, so a known owner is kept for the life of the
+// instance and only the first request for a job costs a backend lookup.
+const MAX_CACHED_OWNERS = 2000;
+const jobOwners = new Map<string, string>();
+
+const rememberOwner = (jobId: string, ownerId: string) => {
+  if (jobOwners.size >= MAX_CACHED_OWNERS) {
+    const oldest = jobOwners.keys().next().value;
+    if (oldest !== undefined) {
+      jobOwners.delete(oldest);
+    }
+  }
+  jobOwners.set(jobId, ownerId);
+};
+
+// Jobs created before owner_id existed have no owner. Backfilling owner_id in
+// the backend hands them to their users; until then only these accounts (by
+// session `sub`) can open them.
+const getLegacyJobAdmins = () =>
+  (process.env.AUTH_ADMIN_SUBS ?? "")
+    .split(",")
+    .map((sub) => sub.trim())
+    .filter(Boolean);
+
+// The proxy's own failures (timeout, open circuit) already use the shared
+// shape; anything else the backend answered is reported as a failed lookup.
+const ownerLookupError = async (upstream: Response, requestId: string) => {
+  const payload = (await upstream.clone().json().catch(() => null)) as UnknownRecord | null;
+  if (upstream.status >= 500 && typeof payload?.code === "string") {
+    return upstream;
+  }
+  console.error("[jobs] Owner lookup failed", { requestId, status: upstream.status });
+  return errorResponse(
+    upstream.status >= 500 ? upstream.status : 502,
+    "OWNER_LOOKUP_FAILED",
+    `Could not check who owns this job (backend answered ${upstream.status}).`,
+    requestId
+  );
+};
+
+export const getJobOwnerId = (payload: unknown) => {
+  const record: UnknownRecord = unwrap<UnknownRecord | null>(payload) ?? {};
+  const owner = record.owner_id ?? record.ownerId ?? null;
+  return typeof owner === "string" && owner ? owner : null;
+};
+
+// Returns null when the user owns the job, or the response to send instead.
+// Someone else's job answers 404 like a missing one, so ids cannot be probed.
+export async function checkJobOwner(
+  request: Request,
+  base: string,
+  jobId: string,
+  user: SessionUser,
+  requestId: string
+) {
+  let ownerId = jobOwners.get(jobId) ?? null;
+  if (!ownerId) {
+    const upstream = await forward(request, `${base}/jobs/${encodeURIComponent(jobId)}`, {
+      methodOverride: "GET",
+      includeBody: false,
+      policy: proxyPolicies.ownerLookup,
+      requestId,
+      user
+    });
+    if (!upstream.ok && upstream.status !== 404) {
+      return ownerLookupError(upstream, requestId);
+    }
+    ownerId = upstream.ok ? getJobOwnerId(await upstream.json().catch(() => null)) : null;
+    if (ownerId) {
+      rememberOwner(jobId, ownerId);
+    }
+  }
+
+  if (ownerId === user.sub) {
+    return null;
+  }
+  if (!ownerId && getLegacyJobAdmins().includes(user.sub)) {
+    console.info("[jobs] Admin opened a job without owner", { requestId, jobId, sub: user.sub });
+    return null;
+  }
+  console.warn("[jobs] Job not visible to user", { requestId, jobId, hasOwner: Boolean(ownerId) });
+  return errorResponse(404, "NOT_FOUND", "Job not found.", requestId);
+}
@@ -0,0 +1,98 @@
+import { errorResponse, forward, proxyPolicies } from "@/app/api/proxy";
+import { normalizeJob, unwrap } from "@/lib/api";
+import type { SessionUser } from "@/lib/auth";
+import { isComparableJobStatus } from "@/lib/jobs";
+import { readJpegImage } from "@/lib/pdf";
+import { buildScoutingReport, renderReportHtml } from "@/lib/report";
+import { renderReportPdf } from "@/lib/reportPdf";
+
+const FRAME_TIMEOUT_MS = 10000;
+
+// The PDF embeds JPEG frames only; anything else is linked instead.
+const fetchReferenceImage = async (url: string) => {
+  try {
+    const response = await fetch(url, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(FRAME_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return readJpegImage("Im1", Buffer.from(await response.arrayBuffer()));
+  } catch {
+    return null;
+  }
+};
+
+export async function handleJobReport(
+  request: Request,
+  base: string,
+  jobId: string,
+  user: SessionUser,
+  requestId: string
+) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") === "pdf" ? "pdf" : "html";
+
+  // Opened as a page, so the browser asks for HTML; the job itself is JSON.
+  const jobRequest = new Request(request.url, { headers: request.headers });
+  jobRequest.headers.set("accept", "application/json");
+  const upstream = await forward(jobRequest, `${base}/jobs/${encodeURIComponent(jobId)}`, {
+    methodOverride: "GET",
+    includeBody: false,
+    policy: proxyPolicies.read,
+    requestId,
+    user
+  });
+  if (!upstream.ok) {
+    return upstream;
+  }
+
+  let job;
+  try {
+    job = normalizeJob(unwrap<unknown>(await upstream.json()));
+  } catch (error) {
+    return errorResponse(
+      502,
+      "UPSTREAM_INVALID",
+      error instanceof Error ? error.message : "Invalid job payload",
+      requestId
+    );
+  }
+
+  if (!job.result || !isComparableJobStatus(job.status)) {
+    return errorResponse(
+      409,
+      "REPORT_NOT_READY",
+      "The report is available once the job has completed.",
+      requestId
+    );
+  }
+
+  const report = buildScoutingReport({ ...job, jobId: job.jobId ?? jobId });
+
+  if (format === "html") {
+    return new Response(renderReportHtml(report, { pdfUrl: "?format=pdf" }), {
+      status: 200,
+      headers: {
+        "content-type": "text/html; charset=utf-8",
+        "cache-control": "no-store"
+      }
+    });
+  }
+
+  const referenceImage = report.referenceFrame
+    ? await fetchReferenceImage(report.referenceFrame.imageUrl)
+    : null;
+  const pdf = renderReportPdf(report, referenceImage);
+  const filename = `scouting-report-${report.jobId.replace(/[^\w-]+/g, "_")}.pdf`;
+
+  return new Response(pdf, {
+    status: 200,
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": `attachment; filename="${filename}"`,
+      "cache-control": "no-store"
+    }
+  });
+}
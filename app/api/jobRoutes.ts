@@ -0,0 +1,234 @@
+import { handleJobEvents } from "@/app/api/jobEvents";
+import { checkJobOwner } from "@/app/api/jobOwnership";
+import { handleJobReport } from "@/app/api/jobReport";
+import {
+  JSON_BODY_MAX_BYTES,
+  errorResponse,
+  forward,
+  proxyPolicies,
+  type ProxyPolicy
+} from "@/app/api/proxy";
+import { checkRateLimit, type RateLimitName } from "@/app/api/rateLimit";
+import { getSessionUser, type SessionUser } from "@/lib/auth";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// none: the body is dropped; json: buffered, small; buffered: up to the
+// proxy default; stream: piped through without buffering.
+type BodyPolicy = "none" | "json" | "buffered" | "stream";
+
+// no-store: the response is never cached; upstream: keep the backend's header.
+type CachePolicy = "no-store" | "upstream";
+
+type JobRouteParams = Record<string, string> & { jobId: string };
+
+type JobRoute = {
+  // Segments after the job id; ":name" captures a segment.
+  pattern: string;
+  methods: HttpMethod[];
+  body: BodyPolicy;
+  policy: ProxyPolicy;
+  cache: CachePolicy;
+  streamResponse?: boolean;
+  rateLimit?: RateLimitName;
+  // Routes that do more than forward to the same backend path.
+  handler?: (
+    request: Request,
+    base: string,
+    params: JobRouteParams,
+    user: SessionUser,
+    requestId: string
+  ) => Promise<Response>;
+};
+
+const jobRoutes: JobRoute[] = [
+  { pattern: "", methods: ["GET"], body: "none", policy: proxyPolicies.poll, cache: "no-store" },
+  {
+    pattern: "frames",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.read,
+    cache: "no-store",
+    streamResponse: true
+  },
+  {
+    pattern: "frames/list",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.read,
+    cache: "no-store",
+    streamResponse: true
+  },
+  {
+    pattern: "frames/overlay",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.read,
+    cache: "no-store",
+    streamResponse: true
+  },
+  {
+    pattern: "candidates",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.poll,
+    cache: "no-store"
+  },
+  {
+    pattern: "candidates/:filename",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.read,
+    cache: "upstream",
+    streamResponse: true
+  },
+  ...["target", "player-ref", "pick-player", "select-track", "selection", "confirm-selection"].map(
+    (pattern): JobRoute => ({
+      pattern,
+      methods: ["POST"],
+      body: "json",
+      policy: proxyPolicies.default,
+      cache: "no-store"
+    })
+  ),
+  {
+    pattern: "analyze-player",
+    methods: ["POST"],
+    body: "buffered",
+    policy: proxyPolicies.longRunning,
+    cache: "no-store"
+  },
+  {
+    pattern: "enqueue",
+    methods: ["POST"],
+    body: "buffered",
+    policy: proxyPolicies.default,
+    cache: "no-store",
+    rateLimit: "jobEnqueue"
+  },
+  {
+    pattern: "events",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.default,
+    cache: "no-store",
+    handler: (request, base, { jobId }, user, requestId) =>
+      handleJobEvents(request, base, jobId, user, requestId)
+  },
+  {
+    pattern: "report",
+    methods: ["GET"],
+    body: "none",
+    policy: proxyPolicies.default,
+    cache: "no-store",
+    handler: (request, base, { jobId }, user, requestId) =>
+      handleJobReport(request, base, jobId, user, requestId)
+  }
+];
+
+// Ids and file names come from the URL; reject anything that could change the
+// backend path once encoded.
+const isSafeSegment = (segment: string) =>
+  segment.length > 0 && segment !== "." && segment !== ".." && !/[\u0000-\u001f]/.test(segment);
+
+const matchJobRoute = (segments: string[]) => {
+  for (const route of jobRoutes) {
+    const pattern = route.pattern ? route.pattern.split("/") : [];
+    if (pattern.length !== segments.length) {
+      continue;
+    }
+    const params: Record<string, string> = {};
+    const matches = pattern.every((part, index) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = segments[index];
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (matches) {
+      return { route, params };
+    }
+  }
+  return null;
+};
+
+const getApiBaseUrl = () => {
+  const base = (process.env.API_BASE_URL || "").replace(/\/+$/, "");
+  return /^https?:\/\//.test(base) ? base : null;
+};
+
+export async function handleJobRequest(request: Request, path: string[] = []) {
+  const requestId = crypto.randomUUID();
+  const method = request.method.toUpperCase() as HttpMethod;
+  const [jobId, ...rest] = path;
+
+  if (!jobId || !path.every(isSafeSegment)) {
+    return errorResponse(400, "INVALID_PATH", "Invalid job path.", requestId);
+  }
+
+  const match = matchJobRoute(rest);
+  if (!match) {
+    console.warn("[jobs] Unknown route", { requestId, path: rest.join("/"), method });
+    return errorResponse(404, "NOT_FOUND", `Unknown job endpoint: ${rest.join("/")}`, requestId);
+  }
+  const { route, params } = match;
+  if (!route.methods.includes(method)) {
+    const response = errorResponse(
+      405,
+      "METHOD_NOT_ALLOWED",
+      `${method} is not allowed on this endpoint.`,
+      requestId
+    );
+    response.headers.set("allow", route.methods.join(", "));
+    return response;
+  }
+
+  const base = getApiBaseUrl();
+  if (!base) {
+    console.error("[jobs] API_BASE_URL missing or invalid", { requestId });
+    return errorResponse(
+      500,
+      "API_BASE_URL_MISSING",
+      "API_BASE_URL is missing or does not start with http:// or https://.",
+      requestId
+    );
+  }
+
+  // The middleware already turns anonymous requests away; this keeps the
+  // ownership check from ever running without a user.
+  const user = await getSessionUser(request);
+  if (!user) {
+    return errorResponse(401, "UNAUTHENTICATED", "Sign in to continue.", requestId);
+  }
+  const ownershipError = await checkJobOwner(request, base, jobId, user, requestId);
+  if (ownershipError) {
+    return ownershipError;
+  }
+  if (route.rateLimit) {
+    const limited = await checkRateLimit(request, route.rateLimit, user, requestId);
+    if (limited) {
+      return limited;
+    }
+  }
+
+  if (route.handler) {
+    return route.handler(request, base, { ...params, jobId }, user, requestId);
+  }
+
+  const { search } = new URL(request.url);
+  const upstreamPath = [jobId, ...rest].map(encodeURIComponent).join("/");
+  const response = await forward(request, `${base}/jobs/${upstreamPath}${search}`, {
+    methodOverride: method,
+    includeBody: route.body !== "none",
+    policy: route.policy,
+    streamRequest: route.body === "stream",
+    streamResponse: route.streamResponse,
+    maxRequestBytes: route.body === "json" ? JSON_BODY_MAX_BYTES : undefined,
+    requestId,
+    user
+  });
+  if (route.cache === "no-store") {
+    response.headers.set("cache-control", "no-store");
+  }
+  return response;
+}
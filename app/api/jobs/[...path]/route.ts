@@ -0,0 +1,18 @@
+import { handleJobRequest } from "@/app/api/jobRoutes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+// For the events stream; every other job endpoint returns well before this.
+export const maxDuration = 300;
+
+type RouteContext = {
+  params: {
+    path: string[];
+  };
+};
+
+const handle = (request: Request, { params }: RouteContext) =>
+  handleJobRequest(request, params.path);
+
+export { handle as DELETE, handle as GET, handle as PATCH, handle as POST, handle as PUT };
@@ -1,9 +1,19 @@
-import { forward } from "../proxy";
+import {
+  JSON_BODY_MAX_BYTES,
+  errorResponse,
+  forward,
+  proxyPolicies,
+  readBodyWithLimit
+} from "../proxy";
+import { checkRateLimit } from "../rateLimit";
+import { authorizeUpload } from "../uploadOwnership";
+import { getSessionUser } from "@/lib/auth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const API_BASE_URL = process.env.API_BASE_URL;
+const LIST_QUERY_PARAMS = ["status", "role", "category", "team_name", "cursor", "limit"];
 let loggedBaseUrl = false;
 
 const logApiBaseUrlHost = (value: string) => {
@@ -19,30 +29,140 @@ const logApiBaseUrlHost = (value: string) => {
   }
 };
 
-export async function POST(request: Request) {
+const resolveApiBaseUrl = (requestId: string): { baseUrl: string } | { error: Response } => {
+  if (!API_BASE_URL) {
+    return {
+      error: errorResponse(
+        500,
+        "API_BASE_URL_MISSING",
+        "Missing API_BASE_URL environment variable.",
+        requestId
+      )
+    };
+  }
+
+  if (!API_BASE_URL.startsWith("http://") && !API_BASE_URL.startsWith("https://")) {
+    return {
+      error: errorResponse(
+        500,
+        "API_BASE_URL_MISSING",
+        "Invalid API_BASE_URL. It must start with http:// or https://.",
+        requestId
+      )
+    };
+  }
+
+  logApiBaseUrlHost(API_BASE_URL);
+  return { baseUrl: API_BASE_URL };
+};
+
+// Buckets holding shared footage rather than user uploads; keys in them need no
+// upload token.
+const SHARED_VIDEO_BUCKETS = (process.env.SHARED_VIDEO_BUCKETS ?? "")
+  .split(",")
+  .map((bucket) => bucket.trim())
+  .filter(Boolean);
+
+// A job on an uploaded video needs the upload token, so nobody can start one on
+// someone else's upload. Returns the response to send instead, or null.
+const checkVideoSource = async (request: Request, requestId: string) => {
+  const body = await readBodyWithLimit(request, JSON_BODY_MAX_BYTES);
+  if (!body) {
+    return errorResponse(
+      413,
+      "PAYLOAD_TOO_LARGE",
+      `Request body exceeds ${JSON_BODY_MAX_BYTES} bytes.`,
+      requestId
+    );
+  }
+  let payload: Record<string, unknown> | null = null;
   try {
-    if (!API_BASE_URL) {
-      return new Response("Missing API_BASE_URL environment variable.", {
-        status: 500,
-        headers: { "content-type": "text/plain; charset=utf-8", "cache-control": "no-store" }
-      });
+    payload = JSON.parse(new TextDecoder().decode(body)) as Record<string, unknown> | null;
+  } catch {
+    // Not JSON: the backend answers with its own validation error.
+    return null;
+  }
+  const key = payload?.video_key;
+  const bucket = payload?.video_bucket;
+  if (typeof key !== "string" || !key) {
+    return null;
+  }
+  if (typeof bucket === "string" && SHARED_VIDEO_BUCKETS.includes(bucket)) {
+    return null;
+  }
+  const authorized = await authorizeUpload(
+    request,
+    { key, ...(typeof bucket === "string" ? { bucket } : {}) },
+    requestId
+  );
+  return "error" in authorized ? authorized.error : null;
+};
+
+const routeError = (err: unknown, requestId: string) => {
+  const msg = err instanceof Error ? err.message : "Unknown error";
+  return errorResponse(500, "ROUTE_ERROR", `Route error: ${msg}`, requestId);
+};
+
+export async function GET(request: Request) {
+  const requestId = crypto.randomUUID();
+  try {
+    const resolved = resolveApiBaseUrl(requestId);
+    if ("error" in resolved) {
+      return resolved.error;
     }
 
-    if (!API_BASE_URL.startsWith("http://") && !API_BASE_URL.startsWith("https://")) {
-      return new Response("Invalid API_BASE_URL. It must start with http:// or https://.", {
-        status: 500,
-        headers: { "content-type": "text/plain; charset=utf-8", "cache-control": "no-store" }
-      });
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse(401, "UNAUTHENTICATED", "Sign in to continue.", requestId);
     }
 
-    logApiBaseUrlHost(API_BASE_URL);
+    const { searchParams } = new URL(request.url);
+    const upstreamParams = new URLSearchParams();
+    for (const name of LIST_QUERY_PARAMS) {
+      const value = searchParams.get(name)?.trim();
+      if (value) {
+        upstreamParams.set(name, value);
+      }
+    }
+    // Not a client filter: every user only ever lists their own jobs.
+    upstreamParams.set("owner_id", user.sub);
+    const query = upstreamParams.toString();
 
-    return forward(request, `${API_BASE_URL}/jobs`);
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : "Unknown error";
-    return new Response(`Route error: ${msg}`, {
-      status: 500,
-      headers: { "content-type": "text/plain; charset=utf-8", "cache-control": "no-store" }
+    return forward(request, `${resolved.baseUrl}/jobs${query ? `?${query}` : ""}`, {
+      methodOverride: "GET",
+      includeBody: false,
+      policy: proxyPolicies.read,
+      requestId,
+      user
     });
+  } catch (err) {
+    return routeError(err, requestId);
+  }
+}
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID();
+  try {
+    const resolved = resolveApiBaseUrl(requestId);
+    if ("error" in resolved) {
+      return resolved.error;
+    }
+
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse(401, "UNAUTHENTICATED", "Sign in to continue.", requestId);
+    }
+    const limited = await checkRateLimit(request, "jobCreate", user, requestId);
+    if (limited) {
+      return limited;
+    }
+    const sourceError = await checkVideoSource(request, requestId);
+    if (sourceError) {
+      return sourceError;
+    }
+
+    return forward(request, `${resolved.baseUrl}/jobs`, { requestId, user });
+  } catch (err) {
+    return routeError(err, requestId);
   }
 }
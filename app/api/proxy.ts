@@ -1,8 +1,60 @@
+import { getSessionUser, type SessionUser } from "@/lib/auth";
+
+export type ProxyPolicy = {
+  // Per attempt, not overall.
+  timeoutMs: number;
+  // Extra attempts; only used for idempotent methods.
+  retries: number;
+  retryBaseDelayMs: number;
+};
+
 type ForwardOptions = {
   methodOverride?: string;
   includeBody?: boolean;
+  policy?: ProxyPolicy;
+  // Streamed request bodies cannot be replayed, so they are never retried.
+  streamRequest?: boolean;
+  // The timeout then covers the response headers only, not the body transfer.
+  streamResponse?: boolean;
+  maxRequestBytes?: number;
+  // Lets a caller that already logged under an id keep using it.
+  requestId?: string;
+  // Read from the session cookie when not given.
+  user?: SessionUser | null;
+};
+
+// The browser gives up after 15s by default (DEFAULT_TIMEOUT_MS in lib/api.ts),
+// so default, read and poll stay below that, retries included, with room left
+// for the ownerLookup that runs ahead of a job's first request. longRunning is
+// for calls the client waits 60s for (upload completion, player analysis).
+export const proxyPolicies = {
+  default: { timeoutMs: 12000, retries: 0, retryBaseDelayMs: 0 },
+  read: { timeoutMs: 4000, retries: 2, retryBaseDelayMs: 200 },
+  poll: { timeoutMs: 6000, retries: 1, retryBaseDelayMs: 300 },
+  ownerLookup: { timeoutMs: 2000, retries: 0, retryBaseDelayMs: 0 },
+  longRunning: { timeoutMs: 55000, retries: 0, retryBaseDelayMs: 0 }
+} satisfies Record<string, ProxyPolicy>;
+
+// Buffered bodies are held in memory; anything bigger should stream.
+export const DEFAULT_MAX_REQUEST_BYTES = 1024 * 1024;
+// Selection and player-ref payloads are a few boxes at most.
+export const JSON_BODY_MAX_BYTES = 64 * 1024;
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+type CircuitState = {
+  failures: number;
+  openedAt: number | null;
+  probing: boolean;
 };
 
+// Per upstream host and per server instance; a cold start begins closed.
+const circuits = new Map<string, CircuitState>();
+
 const generateRequestId = () => crypto.randomUUID();
 
 const HOP_BY_HOP = new Set([
@@ -18,12 +70,170 @@ const HOP_BY_HOP = new Set([
   "content-length"
 ]);
 
+// Never forwarded: the session cookie and upload tokens stay between the
+// browser and this app.
+const PRIVATE_REQUEST_HEADERS = new Set(["cookie", "x-upload-token"]);
+
+// Only ever set from the verified session; client values under these names are
+// dropped so the backend can trust them.
+const USER_HEADERS = ["x-user-id", "x-user-email", "x-user-name"];
+
+// fetch() already decodes compressed bodies, so the upstream encoding and length
+// no longer describe what is sent on.
+const RESPONSE_BODY_HEADERS = new Set(["content-encoding", "content-length"]);
+
+// Counts bytes as they go through and fails the stream past the limit, for
+// bodies sent without (or with a wrong) content-length.
+const limitStream = (maxBytes: number, onExceeded: () => void) => {
+  let received = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        onExceeded();
+        controller.error(new Error("Request body too large"));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  });
+};
+
+// Reads the body chunk by chunk and gives up as soon as it passes the limit,
+// so a chunked body is never held in memory past it. Null means too large.
+export const readBodyWithLimit = async (request: Request, maxBytes: number) => {
+  const stream = request.clone().body;
+  if (!stream) {
+    return new Uint8Array(0);
+  }
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+};
+
+const getCircuit = (host: string) => {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, probing: false };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+};
+
+// Returns the seconds left before a retry is allowed, or null when the request
+// may go through. After the cooldown a single probe request is let through.
+const checkCircuit = (circuit: CircuitState) => {
+  if (circuit.openedAt === null) {
+    return null;
+  }
+  const remainingMs = circuit.openedAt + CIRCUIT_COOLDOWN_MS - Date.now();
+  if (remainingMs > 0 || circuit.probing) {
+    return Math.max(1, Math.ceil(remainingMs / 1000));
+  }
+  circuit.probing = true;
+  return null;
+};
+
+const recordCircuitResult = (circuit: CircuitState, healthy: boolean) => {
+  circuit.probing = false;
+  if (healthy) {
+    circuit.failures = 0;
+    circuit.openedAt = null;
+    return;
+  }
+  circuit.failures += 1;
+  if (circuit.openedAt !== null || circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+};
+
+// Full jitter: a random delay up to the exponential backoff for this attempt.
+const getRetryDelayMs = (policy: ProxyPolicy, attempt: number) =>
+  Math.round(Math.random() * policy.retryBaseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const errorResponse = (
+  status: number,
+  code: string,
+  message: string,
+  requestId: string,
+  retryAfterSec?: number
+) => {
+  const headers: Record<string, string> = {
+    "content-type": "application/json; charset=utf-8",
+    "cache-control": "no-store",
+    "x-request-id": requestId
+  };
+  if (retryAfterSec !== undefined) {
+    headers["retry-after"] = String(retryAfterSec);
+  }
+  return new Response(JSON.stringify({ code, message, request_id: requestId }), {
+    status,
+    headers
+  });
+};
+
+export const setUserHeaders = (headers: Headers, user: SessionUser | null) => {
+  USER_HEADERS.forEach((name) => headers.delete(name));
+  if (!user) {
+    return;
+  }
+  headers.set("x-user-id", user.sub);
+  if (user.email) {
+    headers.set("x-user-email", user.email);
+  }
+  if (user.name) {
+    // Header values must be ASCII; names often are not.
+    headers.set("x-user-name", encodeURIComponent(user.name));
+  }
+};
+
+const buildResponseHeaders = (upstreamResponse: Response, requestId: string) => {
+  const resHeaders = new Headers();
+  upstreamResponse.headers.forEach((value, key) => {
+    const lowerKey = key.toLowerCase();
+    if (!HOP_BY_HOP.has(lowerKey) && !RESPONSE_BODY_HEADERS.has(lowerKey)) {
+      resHeaders.set(key, value);
+    }
+  });
+  resHeaders.set("x-request-id", requestId);
+  return resHeaders;
+};
+
 export async function forward(
   request: Request,
   targetUrl: string,
-  { methodOverride, includeBody = true }: ForwardOptions = {}
+  {
+    methodOverride,
+    includeBody = true,
+    policy = proxyPolicies.default,
+    streamRequest = false,
+    streamResponse = false,
+    maxRequestBytes = DEFAULT_MAX_REQUEST_BYTES,
+    requestId = generateRequestId(),
+    user
+  }: ForwardOptions = {}
 ) {
-  const requestId = generateRequestId();
   const targetHost = (() => {
     try {
       return new URL(targetUrl).host;
@@ -31,59 +241,150 @@ export async function forward(
       return "unknown";
     }
   })();
-  try {
-    const headers = new Headers();
-    request.headers.forEach((value, key) => {
-      const k = key.toLowerCase();
-      if (!HOP_BY_HOP.has(k)) headers.set(key, value);
-    });
-    headers.set("x-request-id", requestId);
-
-    // IMPORTANT: non usare request.body (stream) su Vercel.
-    // Bufferizza il body: stabile per JSON piccoli.
-    const bodyData = includeBody ? await request.clone().arrayBuffer() : undefined;
-
-    const upstreamResponse = await fetch(targetUrl, {
-      method: methodOverride ?? request.method,
-      headers,
-      body: bodyData && includeBody ? bodyData : undefined,
-      cache: "no-store"
-    });
-
-    console.info("[proxy] Upstream response", {
+  const method = (methodOverride ?? request.method).toUpperCase();
+  const hasStreamedBody = includeBody && streamRequest && request.body !== null;
+  const maxAttempts =
+    IDEMPOTENT_METHODS.has(method) && !hasStreamedBody ? policy.retries + 1 : 1;
+
+  const payloadTooLarge = () =>
+    errorResponse(
+      413,
+      "PAYLOAD_TOO_LARGE",
+      `Request body exceeds ${maxRequestBytes} bytes.`,
+      requestId
+    );
+
+  const declaredLength = Number(request.headers.get("content-length"));
+  if (includeBody && Number.isFinite(declaredLength) && declaredLength > maxRequestBytes) {
+    return payloadTooLarge();
+  }
+
+  // The content-length check above misses chunked bodies, so both paths count
+  // the bytes as well.
+  let body: Uint8Array | ReadableStream<Uint8Array> | undefined;
+  let bodyTooLarge = false;
+  if (hasStreamedBody && request.body) {
+    body = request.body.pipeThrough(
+      limitStream(maxRequestBytes, () => {
+        bodyTooLarge = true;
+      })
+    );
+  } else if (includeBody) {
+    const buffered = await readBodyWithLimit(request, maxRequestBytes);
+    if (!buffered) {
+      return payloadTooLarge();
+    }
+    body = buffered;
+  }
+
+  const circuit = getCircuit(targetHost);
+
+  const retryAfterSec = checkCircuit(circuit);
+  if (retryAfterSec !== null) {
+    console.warn("[proxy] Circuit open", { requestId, targetHost, retryAfterSec });
+    return errorResponse(
+      503,
+      "UPSTREAM_CIRCUIT_OPEN",
+      "The backend is not responding. Please retry shortly.",
       requestId,
-      targetHost,
-      status: upstreamResponse.status
-    });
-
-    const resHeaders = new Headers();
-    upstreamResponse.headers.forEach((value, key) => {
-      const lowerKey = key.toLowerCase();
-      if (!HOP_BY_HOP.has(lowerKey)) {
-        resHeaders.set(key, value);
+      retryAfterSec
+    );
+  }
+
+  const headers = new Headers();
+  request.headers.forEach((value, key) => {
+    const k = key.toLowerCase();
+    if (!HOP_BY_HOP.has(k) && !PRIVATE_REQUEST_HEADERS.has(k)) headers.set(key, value);
+  });
+  headers.set("x-request-id", requestId);
+  setUserHeaders(headers, user === undefined ? await getSessionUser(request) : user);
+
+  let lastError: unknown = null;
+  let timedOut = false;
+  for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
+    if (attempt > 0) {
+      await sleep(getRetryDelayMs(policy, attempt - 1));
+    }
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), policy.timeoutMs);
+    try {
+      // Node's fetch only sends a stream as the body in half-duplex mode.
+      const init: RequestInit & { duplex?: "half" } = {
+        method,
+        headers,
+        body,
+        cache: "no-store",
+        signal: controller.signal
+      };
+      if (body instanceof ReadableStream) {
+        init.duplex = "half";
       }
-    });
-    resHeaders.set("x-request-id", requestId);
-
-    const responseBody = await upstreamResponse.arrayBuffer();
-    return new Response(responseBody, {
-      status: upstreamResponse.status,
-      headers: resHeaders
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    console.error("[proxy] Upstream fetch failed", {
-      requestId,
-      targetHost,
-      status: "fetch_failed"
-    });
-    return new Response(message, {
-      status: 502,
-      headers: {
-        "content-type": "text/plain; charset=utf-8",
-        "cache-control": "no-store",
-        "x-request-id": requestId
+      const upstreamResponse = await fetch(targetUrl, init);
+
+      console.info("[proxy] Upstream response", {
+        requestId,
+        targetHost,
+        attempt,
+        status: upstreamResponse.status
+      });
+
+      const retryable = RETRYABLE_STATUSES.has(upstreamResponse.status);
+      if (retryable && attempt < maxAttempts - 1) {
+        await upstreamResponse.body?.cancel();
+        continue;
+      }
+      recordCircuitResult(circuit, !retryable);
+
+      const resHeaders = buildResponseHeaders(upstreamResponse, requestId);
+      if (streamResponse) {
+        const upstreamLength = upstreamResponse.headers.get("content-length");
+        if (upstreamLength && !upstreamResponse.headers.has("content-encoding")) {
+          resHeaders.set("content-length", upstreamLength);
+        }
+        return new Response(upstreamResponse.body, {
+          status: upstreamResponse.status,
+          headers: resHeaders
+        });
+      }
+
+      const responseBody = await upstreamResponse.arrayBuffer();
+      resHeaders.set("content-length", String(responseBody.byteLength));
+      return new Response(responseBody, {
+        status: upstreamResponse.status,
+        headers: resHeaders
+      });
+    } catch (error) {
+      if (bodyTooLarge) {
+        // Not the backend's fault: release a probe without counting a failure.
+        circuit.probing = false;
+        return payloadTooLarge();
       }
-    });
+      lastError = error;
+      timedOut = controller.signal.aborted;
+      console.error("[proxy] Upstream fetch failed", {
+        requestId,
+        targetHost,
+        attempt,
+        status: timedOut ? "timeout" : "fetch_failed"
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  recordCircuitResult(circuit, false);
+  if (timedOut) {
+    return errorResponse(
+      504,
+      "UPSTREAM_TIMEOUT",
+      `The backend did not answer within ${policy.timeoutMs / 1000}s.`,
+      requestId
+    );
   }
+  return errorResponse(
+    502,
+    "UPSTREAM_UNREACHABLE",
+    lastError instanceof Error ? lastError.message : "Unknown error",
+    requestId
+  );
 }
@@ -0,0 +1,184 @@
+import { errorResponse } from "@/app/api/proxy";
+import type { SessionUser } from "@/lib/auth";
+
+export type RateLimitBudget = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitPolicy = {
+  perIp: RateLimitBudget;
+  perUser: RateLimitBudget;
+};
+
+type WindowCount = {
+  count: number;
+  resetAt: number;
+};
+
+// Fixed-window counters. `hit` counts one request and returns the window state
+// after it.
+export type RateLimitStore = {
+  hit: (key: string, windowMs: number) => Promise<WindowCount>;
+};
+
+// Job creation and enqueueing start GPU work; a batch import creates three
+// jobs at a time. The frame proxy serves every thumbnail on a page.
+export const rateLimitPolicies = {
+  jobCreate: {
+    perIp: { limit: 60, windowMs: 10 * 60 * 1000 },
+    perUser: { limit: 30, windowMs: 10 * 60 * 1000 }
+  },
+  jobEnqueue: {
+    perIp: { limit: 60, windowMs: 10 * 60 * 1000 },
+    perUser: { limit: 30, windowMs: 10 * 60 * 1000 }
+  },
+  frameProxy: {
+    perIp: { limit: 1200, windowMs: 60 * 1000 },
+    perUser: { limit: 600, windowMs: 60 * 1000 }
+  }
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitName = keyof typeof rateLimitPolicies;
+
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+const REDIS_TIMEOUT_MS = 1000;
+
+// Per server instance, so with several instances the effective budget is
+// multiplied; configure the Redis adapter to share it.
+export const createMemoryStore = (): RateLimitStore => {
+  const windows = new Map<string, WindowCount>();
+  let lastSweepAt = Date.now();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (now - lastSweepAt > MEMORY_SWEEP_INTERVAL_MS) {
+        lastSweepAt = now;
+        windows.forEach((entry, entryKey) => {
+          if (entry.resetAt <= now) {
+            windows.delete(entryKey);
+          }
+        });
+      }
+      let entry = windows.get(key);
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+      entry.count += 1;
+      return { ...entry };
+    }
+  };
+};
+
+// Talks to any Redis behind the Upstash-style REST pipeline API, which needs
+// no client library and works from serverless functions.
+export const createRedisRestStore = ({
+  url,
+  token
+}: {
+  url: string;
+  token: string;
+}): RateLimitStore => ({
+  async hit(key, windowMs) {
+    const response = await fetch(`${url.replace(/\/+$/, "")}/pipeline`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+      body: JSON.stringify([
+        ["INCR", key],
+        ["PEXPIRE", key, String(windowMs), "NX"],
+        ["PTTL", key]
+      ]),
+      cache: "no-store",
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS)
+    });
+    const results = (await response.json().catch(() => null)) as Array<{
+      result?: unknown;
+      error?: string;
+    }> | null;
+    const count = Number(results?.[0]?.result);
+    const ttlMs = Number(results?.[2]?.result);
+    if (!response.ok || !Number.isFinite(count)) {
+      throw new Error(
+        results?.find((item) => item.error)?.error ?? `Redis answered ${response.status}`
+      );
+    }
+    return { count, resetAt: Date.now() + (ttlMs > 0 ? ttlMs : windowMs) };
+  }
+});
+
+const memoryStore = createMemoryStore();
+let configuredStore: RateLimitStore | null = null;
+
+const getStore = () => {
+  if (!configuredStore) {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+    configuredStore = url && token ? createRedisRestStore({ url, token }) : memoryStore;
+  }
+  return configuredStore;
+};
+
+// For a store other than the two built in; null goes back to the env default.
+export const setRateLimitStore = (store: RateLimitStore | null) => {
+  configuredStore = store;
+};
+
+// On Vercel and behind most proxies the first x-forwarded-for entry is the
+// client; without a proxy in front the header is not trustworthy.
+const getClientIp = (request: Request) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+  request.headers.get("x-real-ip")?.trim() ||
+  "unknown";
+
+const hitWithFallback = async (key: string, windowMs: number) => {
+  const store = getStore();
+  try {
+    return await store.hit(key, windowMs);
+  } catch (error) {
+    // An unreachable shared store must not take the routes down with it.
+    console.error("[rate-limit] Store failed, using memory", {
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+    return memoryStore.hit(key, windowMs);
+  }
+};
+
+// Returns null when the request is within budget, or the 429 to send instead.
+// Both budgets are counted on every request, so the stricter one decides.
+export async function checkRateLimit(
+  request: Request,
+  name: RateLimitName,
+  user: SessionUser | null,
+  requestId: string = crypto.randomUUID()
+) {
+  const policy: RateLimitPolicy = rateLimitPolicies[name];
+  const checks: Array<[string, RateLimitBudget]> = [
+    [`rl:${name}:ip:${getClientIp(request)}`, policy.perIp]
+  ];
+  if (user) {
+    checks.push([`rl:${name}:user:${user.sub}`, policy.perUser]);
+  }
+
+  let retryAfterMs = 0;
+  for (const [key, budget] of checks) {
+    const { count, resetAt } = await hitWithFallback(key, budget.windowMs);
+    if (count > budget.limit) {
+      retryAfterMs = Math.max(retryAfterMs, resetAt - Date.now());
+    }
+  }
+  if (retryAfterMs <= 0) {
+    return null;
+  }
+
+  const retryAfterSec = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  console.warn("[rate-limit] Budget exceeded", { requestId, name, retryAfterSec });
+  return errorResponse(
+    429,
+    "RATE_LIMITED",
+    `Too many requests. Try again in ${retryAfterSec}s.`,
+    requestId,
+    retryAfterSec
+  );
+}
@@ -0,0 +1,69 @@
+import { errorResponse } from "@/app/api/proxy";
+import {
+  getAuthConfig,
+  getSessionUser,
+  signValue,
+  verifyValue,
+  type SessionUser
+} from "@/lib/auth";
+
+type UploadGrant = {
+  uploadId: string;
+  key: string;
+  bucket: string;
+  sub: string;
+  // Epoch seconds.
+  exp: number;
+};
+
+// What the request claims to act on; every given field must match the grant.
+type UploadTarget = Partial<Pick<UploadGrant, "uploadId" | "key" | "bucket">>;
+
+export const UPLOAD_TOKEN_HEADER = "x-upload-token";
+// Matches the usual bucket lifecycle rule that aborts incomplete multipart
+// uploads after 7 days; a paused upload cannot be resumed past that anyway.
+export const UPLOAD_TOKEN_TTL_SEC = 7 * 24 * 60 * 60;
+
+// Upload ids carry no owner, so creating an upload hands the client a signed
+// token binding the id and object to the user. Every later upload call, and the
+// job created from the upload, has to send it back.
+export const signUploadToken = (
+  upload: Pick<UploadGrant, "uploadId" | "key" | "bucket">,
+  user: SessionUser
+) =>
+  signValue(
+    {
+      ...upload,
+      sub: user.sub,
+      exp: Math.floor(Date.now() / 1000) + UPLOAD_TOKEN_TTL_SEC
+    } satisfies UploadGrant,
+    getAuthConfig().secret
+  );
+
+// Returns the signed-in user when the request may touch this upload, or the
+// response to send instead. Someone else's upload answers 404 like a missing one.
+export async function authorizeUpload(
+  request: Request,
+  target: UploadTarget,
+  requestId: string
+): Promise<{ user: SessionUser } | { error: Response }> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return { error: errorResponse(401, "UNAUTHENTICATED", "Sign in to continue.", requestId) };
+  }
+  const token = request.headers.get(UPLOAD_TOKEN_HEADER);
+  const grant = token ? await verifyValue<UploadGrant>(token, getAuthConfig().secret) : null;
+  const matches =
+    grant !== null &&
+    grant.sub === user.sub &&
+    typeof grant.exp === "number" &&
+    grant.exp * 1000 > Date.now() &&
+    (Object.keys(target) as Array<keyof UploadTarget>).every(
+      (name) => grant[name] === target[name]
+    );
+  if (!matches) {
+    console.warn("[uploads] Upload not visible to user", { requestId, ...target });
+    return { error: errorResponse(404, "NOT_FOUND", "Upload not found.", requestId) };
+  }
+  return { user };
+}
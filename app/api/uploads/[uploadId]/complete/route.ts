@@ -0,0 +1,31 @@
+import { errorResponse, forward, proxyPolicies } from "@/app/api/proxy";
+import { authorizeUpload } from "@/app/api/uploadOwnership";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+type RouteContext = {
+  params: {
+    uploadId: string;
+  };
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const requestId = crypto.randomUUID();
+  const base = (process.env.API_BASE_URL || "").replace(/\/+$/, "");
+  if (!base) {
+    return errorResponse(500, "API_BASE_URL_MISSING", "API_BASE_URL is missing.", requestId);
+  }
+  const authorized = await authorizeUpload(request, { uploadId: params.uploadId }, requestId);
+  if ("error" in authorized) {
+    return authorized.error;
+  }
+
+  // Assembling a large multipart upload can take the backend well over 12s.
+  return forward(request, `${base}/uploads/${encodeURIComponent(params.uploadId)}/complete`, {
+    policy: proxyPolicies.longRunning,
+    requestId,
+    user: authorized.user
+  });
+}
@@ -0,0 +1,57 @@
+import { errorResponse, forward, proxyPolicies } from "@/app/api/proxy";
+import { authorizeUpload } from "@/app/api/uploadOwnership";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type RouteContext = {
+  params: {
+    uploadId: string;
+  };
+};
+
+const resolveBase = () => (process.env.API_BASE_URL || "").replace(/\/+$/, "");
+
+const missingBaseResponse = (requestId: string) =>
+  errorResponse(500, "API_BASE_URL_MISSING", "API_BASE_URL is missing.", requestId);
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const requestId = crypto.randomUUID();
+  const base = resolveBase();
+  if (!base) {
+    return missingBaseResponse(requestId);
+  }
+  const authorized = await authorizeUpload(request, { uploadId: params.uploadId }, requestId);
+  if ("error" in authorized) {
+    return authorized.error;
+  }
+
+  const { search } = new URL(request.url);
+  const url = `${base}/uploads/${encodeURIComponent(params.uploadId)}/parts${search}`;
+
+  return forward(request, url, {
+    methodOverride: "GET",
+    includeBody: false,
+    policy: proxyPolicies.read,
+    requestId,
+    user: authorized.user
+  });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const requestId = crypto.randomUUID();
+  const base = resolveBase();
+  if (!base) {
+    return missingBaseResponse(requestId);
+  }
+  const authorized = await authorizeUpload(request, { uploadId: params.uploadId }, requestId);
+  if ("error" in authorized) {
+    return authorized.error;
+  }
+
+  return forward(request, `${base}/uploads/${encodeURIComponent(params.uploadId)}/parts`, {
+    requestId,
+    user: authorized.user
+  });
+}
@@ -0,0 +1,33 @@
+import { errorResponse, forward } from "@/app/api/proxy";
+import { authorizeUpload } from "@/app/api/uploadOwnership";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: {
+    uploadId: string;
+  };
+};
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const requestId = crypto.randomUUID();
+  const base = (process.env.API_BASE_URL || "").replace(/\/+$/, "");
+  if (!base) {
+    return errorResponse(500, "API_BASE_URL_MISSING", "API_BASE_URL is missing.", requestId);
+  }
+  const authorized = await authorizeUpload(request, { uploadId: params.uploadId }, requestId);
+  if ("error" in authorized) {
+    return authorized.error;
+  }
+
+  const { search } = new URL(request.url);
+  const url = `${base}/uploads/${encodeURIComponent(params.uploadId)}${search}`;
+
+  return forward(request, url, {
+    methodOverride: "DELETE",
+    includeBody: false,
+    requestId,
+    user: authorized.user
+  });
+}
@@ -0,0 +1,54 @@
+import { errorResponse, forward } from "@/app/api/proxy";
+import { signUploadToken } from "@/app/api/uploadOwnership";
+import { unwrap } from "@/lib/api";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type UnknownRecord = Record<string, any>;
+
+export async function POST(request: Request) {
+  const requestId = crypto.randomUUID();
+  const base = (process.env.API_BASE_URL || "").replace(/\/+$/, "");
+  if (!base) {
+    return errorResponse(500, "API_BASE_URL_MISSING", "API_BASE_URL is missing.", requestId);
+  }
+  const user = await getSessionUser(request);
+  if (!user) {
+    return errorResponse(401, "UNAUTHENTICATED", "Sign in to continue.", requestId);
+  }
+
+  const upstream = await forward(request, `${base}/uploads`, { requestId, user });
+  if (!upstream.ok) {
+    return upstream;
+  }
+  const payload = await upstream.json().catch(() => null);
+  const unwrapped = unwrap<unknown>(payload);
+  const session: UnknownRecord | null =
+    unwrapped && typeof unwrapped === "object" ? (unwrapped as UnknownRecord) : null;
+  const uploadId = session?.upload_id ?? session?.uploadId ?? session?.id ?? null;
+  const key = session?.key ?? session?.video_key ?? session?.object_key ?? null;
+  const bucket = session?.bucket ?? session?.video_bucket ?? null;
+  if (!session || !uploadId || !key || !bucket) {
+    return errorResponse(
+      502,
+      "UPSTREAM_INVALID",
+      "Upload session is missing upload id, key or bucket.",
+      requestId
+    );
+  }
+  session.upload_token = await signUploadToken(
+    { uploadId: String(uploadId), key: String(key), bucket: String(bucket) },
+    user
+  );
+
+  return new Response(JSON.stringify(payload), {
+    status: upstream.status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      "x-request-id": requestId
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import Link from "next/link";
+import JobCompare from "@/components/JobCompare";
+import { MAX_COMPARE_JOBS } from "@/lib/jobs";
+
+type ComparePageProps = {
+  searchParams?: {
+    ids?: string | string[];
+  };
+};
+
+export default function ComparePage({ searchParams }: ComparePageProps) {
+  const idsParam = searchParams?.ids ?? [];
+  const jobIds = Array.from(
+    new Set(
+      (Array.isArray(idsParam) ? idsParam : [idsParam])
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim())
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_COMPARE_JOBS);
+
+  return (
+    <main className="min-h-screen px-4 py-10 sm:px-8">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <header className="flex flex-col gap-3">
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">
+            AlgoNext
+          </p>
+          <h1 className="text-3xl font-semibold text-white sm:text-4xl">
+            Compare players
+          </h1>
+          <p className="max-w-2xl text-base text-slate-300">
+            Radar, scores and evidence metrics of completed jobs side by side.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <Link
+              href="/"
+              className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+            >
+              ← New job
+            </Link>
+            <Link
+              href="/jobs"
+              className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+            >
+              Job history →
+            </Link>
+          </div>
+        </header>
+        <JobCompare jobIds={jobIds} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,55 @@
+import Link from "next/link";
+import JobRunner from "@/components/JobRunner";
+
+type JobPageProps = {
+  params: {
+    jobId: string;
+  };
+};
+
+// A stray "%" in a hand-edited URL makes decodeURIComponent throw.
+const decodeJobId = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export default function JobPage({ params }: JobPageProps) {
+  const jobId = decodeJobId(params.jobId);
+
+  return (
+    <main className="min-h-screen px-4 py-10 sm:px-8">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <header className="flex flex-col gap-3">
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">
+            AlgoNext
+          </p>
+          <h1 className="text-3xl font-semibold text-white sm:text-4xl">
+            Job {jobId}
+          </h1>
+          <p className="max-w-2xl text-base text-slate-300">
+            Resume player selection, monitor processing, or review the results of
+            this job.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <Link
+              href="/"
+              className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+            >
+              ← New job
+            </Link>
+            <Link
+              href="/jobs"
+              className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+            >
+              Job history →
+            </Link>
+          </div>
+        </header>
+        <JobRunner key={jobId} initialJobId={jobId} />
+      </div>
+    </main>
+  );
+}
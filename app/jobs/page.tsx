@@ -0,0 +1,29 @@
+import Link from "next/link";
+import JobHistory from "@/components/JobHistory";
+
+export default function JobsPage() {
+  return (
+    <main className="min-h-screen px-4 py-10 sm:px-8">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
+        <header className="flex flex-col gap-3">
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">
+            AlgoNext
+          </p>
+          <h1 className="text-3xl font-semibold text-white sm:text-4xl">
+            Job history
+          </h1>
+          <p className="max-w-2xl text-base text-slate-300">
+            Every analysis job you started, newest first.
+          </p>
+          <Link
+            href="/"
+            className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+          >
+            ← Back to the runner
+          </Link>
+        </header>
+        <JobHistory />
+      </div>
+    </main>
+  );
+}
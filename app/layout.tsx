@@ -1,5 +1,6 @@
 import "./globals.css";
 import type { Metadata } from "next";
+import AccountBar from "@/components/AccountBar";
 
 export const metadata: Metadata = {
   title: "AlgoNext – Video Analysis",
@@ -14,6 +15,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="min-h-screen bg-slate-950 text-slate-100 antialiased">
+        <AccountBar />
         {children}
       </body>
     </html>
@@ -0,0 +1,104 @@
+import { getAuthConfig, sanitizeReturnTo } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+type LoginPageProps = {
+  searchParams?: {
+    returnTo?: string | string[];
+    error?: string | string[];
+  };
+};
+
+const errorMessages: Record<string, string> = {
+  expired: "The sign-in attempt expired. Please try again.",
+  state: "The sign-in response did not match this browser. Please try again.",
+  denied: "Sign-in was cancelled or refused by the identity provider.",
+  provider: "The identity provider could not be reached or returned an invalid answer.",
+  email: "Enter an email address."
+};
+
+const firstValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const returnTo = sanitizeReturnTo(firstValue(searchParams?.returnTo));
+  const errorKey = firstValue(searchParams?.error);
+  const error = errorKey ? errorMessages[errorKey] ?? "Sign-in failed." : null;
+
+  let provider: string | null = null;
+  let configError: string | null = null;
+  try {
+    provider = getAuthConfig().provider;
+  } catch (authError) {
+    configError =
+      authError instanceof Error ? authError.message : "Authentication is not configured.";
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-10 sm:px-8">
+      <div className="mx-auto flex w-full max-w-md flex-col gap-8">
+        <header className="flex flex-col gap-3">
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">
+            AlgoNext
+          </p>
+          <h1 className="text-3xl font-semibold text-white sm:text-4xl">
+            Sign in
+          </h1>
+          <p className="text-base text-slate-300">
+            Jobs are private to the account that created them.
+          </p>
+        </header>
+
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+          {error ? (
+            <p className="mb-4 rounded-lg border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+              {error}
+            </p>
+          ) : null}
+
+          {configError ? (
+            <p className="text-sm text-rose-200">{configError}</p>
+          ) : provider === "mock" ? (
+            <form method="post" action="/api/auth/mock" className="flex flex-col gap-4">
+              <p className="text-xs text-amber-200">
+                Development sign-in: any email is accepted and becomes the job owner.
+              </p>
+              <input type="hidden" name="returnTo" value={returnTo} />
+              <label className="block text-sm text-slate-300">
+                Email
+                <input
+                  type="email"
+                  name="email"
+                  required
+                  className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-500 focus:outline-none"
+                  placeholder="analyst@example.com"
+                />
+              </label>
+              <label className="block text-sm text-slate-300">
+                Name
+                <input
+                  name="name"
+                  className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-500 focus:outline-none"
+                  placeholder="Optional"
+                />
+              </label>
+              <button
+                type="submit"
+                className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400"
+              >
+                Sign in
+              </button>
+            </form>
+          ) : (
+            <a
+              href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}
+              className="block rounded-lg bg-emerald-500 px-4 py-2 text-center text-sm font-semibold text-slate-950 transition hover:bg-emerald-400"
+            >
+              Continue with single sign-on
+            </a>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,21 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import BatchImport from "@/components/BatchImport";
 import JobRunner from "@/components/JobRunner";
 
-export default function HomePage() {
+type HomePageProps = {
+  searchParams?: {
+    jobId?: string | string[];
+  };
+};
+
+export default function HomePage({ searchParams }: HomePageProps) {
+  const jobIdParam = searchParams?.jobId;
+  const legacyJobId = Array.isArray(jobIdParam) ? jobIdParam[0] : jobIdParam;
+  if (legacyJobId) {
+    redirect(`/jobs/${encodeURIComponent(legacyJobId)}`);
+  }
+
   return (
     <main className="min-h-screen px-4 py-10 sm:px-8">
       <div className="mx-auto flex w-full max-w-5xl flex-col gap-8">
@@ -15,8 +30,15 @@ export default function HomePage() {
             Create analysis jobs, enqueue processing, and monitor progress for
             player insights.
           </p>
+          <Link
+            href="/jobs"
+            className="text-sm font-semibold text-emerald-400 hover:text-emerald-300"
+          >
+            Job history →
+          </Link>
         </header>
         <JobRunner />
+        <BatchImport />
       </div>
     </main>
   );
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getSession } from "@/lib/api";
+import type { SessionUser } from "@/lib/auth";
+
+export default function AccountBar() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSession()
+      .then((session) => {
+        if (!cancelled) {
+          setUser(session);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-5xl items-center justify-end gap-3 px-4 pt-4 text-xs text-slate-400 sm:px-8">
+      <span>
+        Signed in as{" "}
+        <span className="font-semibold text-slate-200">{user.name || user.email || user.sub}</span>
+      </span>
+      <form method="post" action="/api/auth/logout">
+        <button
+          type="submit"
+          className="font-semibold uppercase tracking-[0.2em] text-slate-400 transition hover:text-slate-200"
+        >
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import Link from "next/link";
+import { useState, type ChangeEvent } from "react";
+import { createJob, enqueueJob, getRetryAfterSec } from "@/lib/api";
+import {
+  parseManifest,
+  runWithConcurrency,
+  validateManifestRow,
+  type ValidatedManifestRow
+} from "@/lib/batch";
+
+const BATCH_CONCURRENCY = 3;
+
+type BatchRowStatus =
+  | "invalid"
+  | "pending"
+  | "creating"
+  | "enqueueing"
+  | "created"
+  | "queued"
+  | "failed";
+
+type BatchRow = ValidatedManifestRow & {
+  status: BatchRowStatus;
+  jobId: string | null;
+  error: string | null;
+};
+
+const rowStatusStyles: Record<BatchRowStatus, string> = {
+  invalid: "bg-rose-500/20 text-rose-200",
+  pending: "bg-slate-800 text-slate-200",
+  creating: "bg-blue-500/20 text-blue-200",
+  enqueueing: "bg-blue-500/20 text-blue-200",
+  created: "bg-emerald-500/20 text-emerald-200",
+  queued: "bg-emerald-500/20 text-emerald-200",
+  failed: "bg-rose-500/20 text-rose-200"
+};
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected error";
+
+// Every later row would fail the same way, so these stop the whole batch.
+const isBatchStopError = (error: unknown) => {
+  const { status, code } = (error ?? {}) as { status?: number; code?: string };
+  return status === 401 || code === "RATE_LIMITED";
+};
+
+const describeBatchStop = (error: unknown) => {
+  const retryAfterSec = getRetryAfterSec(error);
+  return retryAfterSec !== null
+    ? `Batch stopped, retry in ${retryAfterSec}s: ${toErrorMessage(error)}`
+    : `Batch stopped: ${toErrorMessage(error)}`;
+};
+
+const describeVideo = (row: BatchRow) => {
+  if (!row.payload) {
+    const raw = row.raw.video_url ?? row.raw.video_key ?? null;
+    return typeof raw === "string" && raw ? raw : "—";
+  }
+  return row.payload.video_url ?? `${row.payload.video_bucket}/${row.payload.video_key}`;
+};
+
+export default function BatchImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [enqueueAfterCreate, setEnqueueAfterCreate] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+
+  const validCount = rows.filter((row) => row.payload).length;
+  const invalidCount = rows.length - validCount;
+  const doneCount = rows.filter(
+    (row) => row.status === "created" || row.status === "queued"
+  ).length;
+  const failedCount = rows.filter((row) => row.status === "failed").length;
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row) => (row.index === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setParseError(null);
+    setBatchError(null);
+    try {
+      const text = await file.text();
+      const parsed = parseManifest(text, file.name);
+      if (parsed.length === 0) {
+        setRows([]);
+        setParseError("The manifest does not contain any rows.");
+        return;
+      }
+      setRows(
+        parsed.map((raw, index) => {
+          const validated = validateManifestRow(raw, index);
+          return {
+            ...validated,
+            status: validated.payload ? "pending" : "invalid",
+            jobId: null,
+            error: validated.errors.length > 0 ? validated.errors.join(" ") : null
+          };
+        })
+      );
+    } catch (error) {
+      setRows([]);
+      setParseError(`Unable to read manifest: ${toErrorMessage(error)}`);
+    }
+  };
+
+  const processRow = async (row: BatchRow) => {
+    if (!row.payload) {
+      return;
+    }
+    let jobId = row.jobId;
+    try {
+      if (!jobId) {
+        updateRow(row.index, { status: "creating", error: null });
+        const response = await createJob(row.payload);
+        if (!response.jobId) {
+          throw new Error("Backend did not return a job id.");
+        }
+        jobId = response.jobId;
+        updateRow(row.index, { status: "created", jobId });
+      }
+      if (enqueueAfterCreate) {
+        updateRow(row.index, { status: "enqueueing", error: null });
+        await enqueueJob(jobId);
+        updateRow(row.index, { status: "queued" });
+      }
+    } catch (error) {
+      updateRow(row.index, { status: "failed", jobId, error: toErrorMessage(error) });
+      if (isBatchStopError(error)) {
+        throw error;
+      }
+    }
+  };
+
+  const runRows = async (targets: BatchRow[]) => {
+    if (targets.length === 0) {
+      return;
+    }
+    setRunning(true);
+    setBatchError(null);
+    try {
+      await runWithConcurrency(targets, BATCH_CONCURRENCY, processRow);
+    } catch (error) {
+      setBatchError(describeBatchStop(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRunAll = () =>
+    runRows(rows.filter((row) => row.status === "pending" || row.status === "failed"));
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Batch import</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Create one job per row from a CSV or JSON manifest (video_url or
+            video_key + video_bucket, role, category, shirt_number, team_name).
+          </p>
+        </div>
+        <span className="rounded-full border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-400">
+          Batch
+        </span>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-4">
+        <label className="cursor-pointer rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500">
+          {fileName ? `Manifest: ${fileName}` : "Choose manifest"}
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={running}
+            className="hidden"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={enqueueAfterCreate}
+            onChange={(event) => setEnqueueAfterCreate(event.target.checked)}
+            disabled={running}
+            className="h-4 w-4 rounded border-slate-700 bg-slate-950"
+          />
+          Enqueue after create
+        </label>
+        <button
+          type="button"
+          onClick={handleRunAll}
+          disabled={running || validCount === 0}
+          className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {running ? "Creating..." : `Create ${validCount} jobs`}
+        </button>
+      </div>
+      {enqueueAfterCreate ? (
+        <p className="mt-2 text-xs text-slate-500">
+          Enqueue only succeeds for jobs whose backend flow does not require a player
+          and target selection first.
+        </p>
+      ) : null}
+
+      {parseError ? (
+        <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
+          {parseError}
+        </div>
+      ) : null}
+      {batchError ? (
+        <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
+          {batchError}
+        </div>
+      ) : null}
+
+      {rows.length > 0 ? (
+        <>
+          <p className="mt-4 text-xs uppercase tracking-[0.2em] text-slate-500">
+            {rows.length} rows · {invalidCount} invalid · {doneCount} done ·{" "}
+            {failedCount} failed
+          </p>
+          <div className="mt-3 overflow-x-auto rounded-xl border border-slate-800">
+            <table className="w-full min-w-[720px] text-left text-sm text-slate-300">
+              <thead className="bg-slate-950 text-xs uppercase tracking-[0.2em] text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">#</th>
+                  <th className="px-3 py-2">Video</th>
+                  <th className="px-3 py-2">Role</th>
+                  <th className="px-3 py-2">Category</th>
+                  <th className="px-3 py-2">Team / #</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.index} className="border-t border-slate-800 align-top">
+                    <td className="px-3 py-2 text-slate-500">{row.index + 1}</td>
+                    <td className="max-w-[16rem] break-all px-3 py-2">{describeVideo(row)}</td>
+                    <td className="px-3 py-2">{row.payload?.role ?? String(row.raw.role ?? "—")}</td>
+                    <td className="px-3 py-2">
+                      {row.payload?.category ?? String(row.raw.category ?? "—")}
+                    </td>
+                    <td className="px-3 py-2">
+                      {[row.payload?.team_name, row.payload?.shirt_number]
+                        .filter((value) => value !== undefined && value !== "")
+                        .join(" · ") || "—"}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`rounded-full px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.2em] ${rowStatusStyles[row.status]}`}
+                      >
+                        {row.status}
+                      </span>
+                      {row.error ? (
+                        <p className="mt-2 text-xs text-rose-200">{row.error}</p>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.jobId ? (
+                        <Link
+                          href={`/jobs/${encodeURIComponent(row.jobId)}`}
+                          className="text-xs text-emerald-400 hover:text-emerald-300"
+                        >
+                          Open
+                        </Link>
+                      ) : null}
+                      {row.status === "failed" ? (
+                        <button
+                          type="button"
+                          onClick={() => runRows([row])}
+                          disabled={running}
+                          className="ml-3 rounded-lg border border-rose-400/40 px-2 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-rose-100 hover:border-rose-300 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import type { TrackCandidate, TrackCandidateSampleFrame } from "@/lib/api";
+import {
+  alignSampleFrames,
+  getCompareMetrics,
+  type CompareMetric
+} from "@/lib/candidateCompare";
+import { getSelectionBBox } from "@/lib/selection";
+
+type CandidateCompareProps = {
+  candidates: TrackCandidate[];
+  selectingTrackId: string | null;
+  getFrameSrc: (frameUrl: string | null | undefined) => string;
+  onFrameError: (frameUrl: string | null | undefined) => void;
+  onRemove: (trackId: string) => void;
+  onPick: (candidate: TrackCandidate) => void;
+  onClose: () => void;
+};
+
+const formatMetricValue = (metric: CompareMetric, value: number | null) => {
+  if (value === null) {
+    return "—";
+  }
+  if (metric.key === "coverage") {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+  return metric.key === "stability" ? value.toFixed(2) : value.toFixed(4);
+};
+
+const formatDelta = (metric: CompareMetric, value: number | null, best: number | null) => {
+  if (value === null || best === null || value === best) {
+    return null;
+  }
+  const delta = value - best;
+  return metric.key === "coverage"
+    ? `${(delta * 100).toFixed(1)} pt`
+    : delta.toFixed(metric.key === "stability" ? 2 : 4);
+};
+
+export default function CandidateCompare({
+  candidates,
+  selectingTrackId,
+  getFrameSrc,
+  onFrameError,
+  onRemove,
+  onPick,
+  onClose
+}: CandidateCompareProps) {
+  const rows = alignSampleFrames(candidates);
+  const metrics = getCompareMetrics(candidates);
+  const columns = { gridTemplateColumns: `6rem repeat(${candidates.length}, minmax(0, 1fr))` };
+
+  const renderFrame = (frame: TrackCandidateSampleFrame | null, candidate: TrackCandidate) => {
+    if (!frame) {
+      return (
+        <div className="flex h-24 items-center justify-center rounded-lg border border-dashed border-slate-800 text-[0.65rem] text-slate-600">
+          No sample
+        </div>
+      );
+    }
+    const frameSrc = getFrameSrc(frame.imageUrl);
+    const bbox = getSelectionBBox(frame) ?? getSelectionBBox(candidate);
+    return (
+      <div className="relative overflow-hidden rounded-lg border border-slate-800 bg-slate-900">
+        {frameSrc ? (
+          <img
+            src={frameSrc}
+            alt={`Track ${candidate.trackId} sample`}
+            className="h-24 w-full object-cover"
+            onError={() => onFrameError(frame.imageUrl)}
+          />
+        ) : (
+          <div className="flex h-24 items-center justify-center text-xs text-slate-500">
+            No frame
+          </div>
+        )}
+        {bbox ? (
+          <div
+            className="absolute rounded border border-emerald-400 bg-emerald-400/20"
+            style={{
+              left: `${bbox.x * 100}%`,
+              top: `${bbox.y * 100}%`,
+              width: `${bbox.w * 100}%`,
+              height: `${bbox.h * 100}%`
+            }}
+          />
+        ) : null}
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Compare candidates</p>
+          <p className="mt-1 text-sm text-slate-200">
+            Sample frames are lined up by frame time. Pick the track to follow.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        <div className="grid min-w-[32rem] gap-2 text-xs" style={columns}>
+          <span />
+          {candidates.map((candidate) => (
+            <div key={candidate.trackId} className="flex items-center justify-between gap-2">
+              <span className="font-semibold uppercase tracking-[0.2em] text-slate-200">
+                Track {candidate.trackId}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemove(candidate.trackId)}
+                aria-label={`Remove track ${candidate.trackId} from comparison`}
+                className="text-slate-500 transition hover:text-slate-200"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+
+          {metrics.map((metric) => (
+            <div key={metric.key} className="contents">
+              <span className="uppercase tracking-[0.2em] text-slate-500">{metric.label}</span>
+              {metric.values.map((value, index) => {
+                const best = metric.bestIndex === null ? null : metric.values[metric.bestIndex];
+                const delta = formatDelta(metric, value, best);
+                return (
+                  <span
+                    key={candidates[index].trackId}
+                    className={index === metric.bestIndex ? "text-emerald-200" : "text-slate-200"}
+                  >
+                    {formatMetricValue(metric, value)}
+                    {delta ? <span className="ml-2 text-rose-300">{delta}</span> : null}
+                  </span>
+                );
+              })}
+            </div>
+          ))}
+
+          {rows.map((row, rowIndex) => (
+            <div key={`${row.timeSec ?? "untimed"}-${rowIndex}`} className="contents">
+              <span className="self-center text-slate-500">
+                {row.timeSec === null ? "t=?" : `t=${row.timeSec.toFixed(2)}s`}
+              </span>
+              {row.frames.map((frame, index) => (
+                <div key={candidates[index].trackId}>{renderFrame(frame, candidates[index])}</div>
+              ))}
+            </div>
+          ))}
+
+          <span />
+          {candidates.map((candidate) => (
+            <button
+              key={candidate.trackId}
+              type="button"
+              onClick={() => onPick(candidate)}
+              disabled={selectingTrackId !== null}
+              className="rounded-lg bg-emerald-500 px-3 py-2 text-xs font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {selectingTrackId === candidate.trackId
+                ? "Selecting..."
+                : `Pick track ${candidate.trackId}`}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <p className="mt-3 text-xs text-slate-500">
+          None of these tracks has sample frames to compare.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import type { CandidateTier } from "@/lib/candidateRanking";
+import {
+  CANDIDATE_TIERS,
+  candidateSortOptions,
+  defaultCandidateFilters,
+  type CandidateFilters,
+  type CandidateSortKey
+} from "@/lib/candidateFilter";
+
+type CandidateFilterBarProps = {
+  filters: CandidateFilters;
+  tierCounts: Record<CandidateTier, number>;
+  shownCount: number;
+  totalCount: number;
+  onChange: (filters: CandidateFilters) => void;
+};
+
+const tierLabels: Record<CandidateTier, string> = {
+  PRIMARY: "Primary",
+  SECONDARY: "Secondary",
+  OTHER: "Others"
+};
+
+export default function CandidateFilterBar({
+  filters,
+  tierCounts,
+  shownCount,
+  totalCount,
+  onChange
+}: CandidateFilterBarProps) {
+  const toggleTier = (tier: CandidateTier) =>
+    onChange({
+      ...filters,
+      tiers: filters.tiers.includes(tier)
+        ? filters.tiers.filter((value) => value !== tier)
+        : CANDIDATE_TIERS.filter((value) => value === tier || filters.tiers.includes(value))
+    });
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-2">
+        {CANDIDATE_TIERS.map((tier) => {
+          const active = filters.tiers.includes(tier);
+          return (
+            <button
+              key={tier}
+              type="button"
+              onClick={() => toggleTier(tier)}
+              disabled={tierCounts[tier] === 0 && !active}
+              aria-pressed={active}
+              className={`rounded-full border px-3 py-1 font-semibold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                active
+                  ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-200"
+                  : "border-slate-700 text-slate-300 hover:border-slate-500"
+              }`}
+            >
+              {tierLabels[tier]} ({tierCounts[tier]})
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="space-y-1">
+          <span className="block uppercase tracking-[0.2em] text-slate-500">Search</span>
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(event) => onChange({ ...filters, query: event.target.value })}
+            placeholder="Track ID"
+            className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-1.5 text-sm text-slate-100 placeholder:text-slate-600 focus:border-emerald-400 focus:outline-none"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase tracking-[0.2em] text-slate-500">Sort by</span>
+          <select
+            value={filters.sortBy}
+            onChange={(event) =>
+              onChange({ ...filters, sortBy: event.target.value as CandidateSortKey })
+            }
+            className="w-full rounded-lg border border-slate-700 bg-slate-950 px-3 py-1.5 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none"
+          >
+            {candidateSortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase tracking-[0.2em] text-slate-500">
+            Min coverage {Math.round(filters.minCoverage * 100)}%
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={filters.minCoverage}
+            onChange={(event) =>
+              onChange({ ...filters, minCoverage: Number(event.target.value) })
+            }
+            className="w-full accent-emerald-400"
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {shownCount} of {totalCount} candidates
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(defaultCandidateFilters)}
+          className="font-semibold uppercase tracking-[0.2em] text-slate-400 transition hover:text-slate-200"
+        >
+          Reset filters
+        </button>
+      </div>
+    </div>
+  );
+}
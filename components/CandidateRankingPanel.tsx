@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, type MouseEvent } from "react";
+import type { PreviewFrame } from "@/lib/api";
+import type { RankedCandidate } from "@/lib/candidateRanking";
+import {
+  fromHexColor,
+  loadFrameForSampling,
+  sampleAverageColor,
+  toHexColor,
+  type Rgb
+} from "@/lib/kitColor";
+
+type CandidateRankingPanelProps = {
+  ranking: RankedCandidate[];
+  frames: PreviewFrame[];
+  getFrameSrc: (frame: PreviewFrame) => string;
+  kitColor: Rgb | null;
+  teamName: string;
+  shirtNumber: number | null;
+  sampling: boolean;
+  onKitColorChange: (color: Rgb | null) => void;
+};
+
+const MAX_PICKER_FRAMES = 8;
+// Size of the square averaged around the clicked point, in normalized units.
+const PICK_RADIUS = 0.004;
+
+export default function CandidateRankingPanel({
+  ranking,
+  frames,
+  getFrameSrc,
+  kitColor,
+  teamName,
+  shirtNumber,
+  sampling,
+  onKitColorChange
+}: CandidateRankingPanelProps) {
+  const pickerFrames = frames.filter((frame) => getFrameSrc(frame)).slice(0, MAX_PICKER_FRAMES);
+  const [pickerFrameKey, setPickerFrameKey] = useState<string | null>(null);
+  const [pickError, setPickError] = useState<string | null>(null);
+  const pickerFrame = pickerFrames.find((frame) => frame.key === pickerFrameKey) ?? null;
+
+  const handlePickColor = async (event: MouseEvent<HTMLImageElement>) => {
+    const url = pickerFrame?.url || pickerFrame?.signedUrl;
+    if (!url) {
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width;
+    const y = (event.clientY - rect.top) / rect.height;
+    setPickError(null);
+    try {
+      const image = await loadFrameForSampling(url);
+      const color = sampleAverageColor(image, {
+        x: Math.max(0, x - PICK_RADIUS),
+        y: Math.max(0, y - PICK_RADIUS),
+        w: PICK_RADIUS * 2,
+        h: PICK_RADIUS * 2
+      });
+      if (!color) {
+        throw new Error("Unable to read the colour from this frame.");
+      }
+      onKitColorChange(color);
+      setPickerFrameKey(null);
+    } catch (error) {
+      setPickError(
+        `${error instanceof Error ? error.message : "Unable to read the colour."} Choose it manually instead.`
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Candidate ranking</p>
+          <p className="mt-1 text-sm text-slate-200">
+            {teamName ? `${teamName} kit` : "Team kit"}
+            {shirtNumber !== null ? ` · shirt #${shirtNumber}` : null}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={kitColor ? toHexColor(kitColor) : "#ffffff"}
+            onChange={(event) => onKitColorChange(fromHexColor(event.target.value))}
+            aria-label="Team kit colour"
+            className="h-8 w-10 cursor-pointer rounded border border-slate-700 bg-transparent"
+          />
+          {kitColor ? (
+            <button
+              type="button"
+              onClick={() => onKitColorChange(null)}
+              className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400 transition hover:text-slate-200"
+            >
+              Clear
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {pickerFrames.length > 0 ? (
+        <div>
+          <p className="text-xs text-slate-500">
+            Or pick the kit colour from a frame: choose a frame, then click on a team
+            player&apos;s shirt.
+          </p>
+          <div className="mt-2 flex gap-2 overflow-x-auto pb-1">
+            {pickerFrames.map((frame) => (
+              <button
+                key={frame.key}
+                type="button"
+                onClick={() =>
+                  setPickerFrameKey((prev) => (prev === frame.key ? null : frame.key))
+                }
+                aria-pressed={frame.key === pickerFrameKey}
+                className={`w-24 shrink-0 overflow-hidden rounded border transition ${
+                  frame.key === pickerFrameKey
+                    ? "border-emerald-400"
+                    : "border-slate-800 hover:border-slate-600"
+                }`}
+              >
+                <img
+                  src={getFrameSrc(frame)}
+                  alt=""
+                  className="aspect-video w-full object-cover"
+                  loading="lazy"
+                  draggable={false}
+                />
+              </button>
+            ))}
+          </div>
+          {pickerFrame ? (
+            <img
+              src={getFrameSrc(pickerFrame)}
+              alt="Click a shirt to pick the kit colour"
+              onClick={handlePickColor}
+              className="mt-2 h-auto w-full cursor-crosshair select-none rounded-lg border border-slate-800"
+              draggable={false}
+            />
+          ) : null}
+          {pickError ? <p className="mt-2 text-xs text-rose-200">{pickError}</p> : null}
+        </div>
+      ) : null}
+
+      {sampling ? (
+        <p className="text-xs text-slate-400">Comparing candidate shirts with the kit colour…</p>
+      ) : null}
+
+      <ol className="space-y-2">
+        {ranking.map(({ candidate, rank, score, factors }) => (
+          <li
+            key={candidate.trackId}
+            className="rounded-lg border border-slate-800 bg-slate-950 p-3 text-xs"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-100">
+                #{rank} · Track {candidate.trackId}
+              </span>
+              <span className="text-slate-400">score {Math.round(score * 100)}</span>
+            </div>
+            <ul className="mt-2 space-y-1 text-slate-400">
+              {factors.map((factor) => (
+                <li key={factor.key} className="flex justify-between gap-3">
+                  <span>{factor.detail}</span>
+                  <span className="shrink-0 text-slate-500">
+                    {Math.round(factor.value * 100)} × {factor.weight}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useRef, useState, type KeyboardEvent, type MouseEvent } from "react";
+import type { JobClip } from "@/lib/api";
+
+type ClipPlayerProps = {
+  videoUrl: string;
+  clips: JobClip[];
+};
+
+type PlayableClip = {
+  index: number;
+  start: number;
+  end: number;
+};
+
+// Seeking exactly to `end` can overshoot by a frame before timeupdate fires.
+const LOOP_EPSILON_SEC = 0.05;
+
+const formatTime = (value: number) => {
+  const safe = Math.max(0, Math.floor(value));
+  const minutes = Math.floor(safe / 60);
+  const seconds = safe % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+};
+
+const toPlayableClips = (clips: JobClip[]): PlayableClip[] =>
+  clips
+    .map((clip, index) => ({
+      index,
+      start: clip.start ?? NaN,
+      end: clip.end ?? NaN
+    }))
+    .filter(
+      (clip) => Number.isFinite(clip.start) && Number.isFinite(clip.end) && clip.end > clip.start
+    )
+    .sort((a, b) => a.start - b.start);
+
+export default function ClipPlayer({ videoUrl, clips }: ClipPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [activeClip, setActiveClip] = useState<number | null>(null);
+  const [looping, setLooping] = useState(false);
+  const [videoError, setVideoError] = useState(false);
+
+  const playableClips = toPlayableClips(clips);
+  const timelineLength =
+    duration ?? playableClips.reduce((max, clip) => Math.max(max, clip.end), 0);
+  const active = activeClip !== null ? playableClips[activeClip] ?? null : null;
+
+  const selectClip = (position: number) => {
+    const clip = playableClips[position];
+    const video = videoRef.current;
+    if (!clip || !video) {
+      return;
+    }
+    setActiveClip(position);
+    video.currentTime = clip.start;
+    video.play().catch(() => undefined);
+  };
+
+  const stepClip = (direction: 1 | -1) => {
+    if (playableClips.length === 0) {
+      return;
+    }
+    if (activeClip === null) {
+      // Without a selection, jump relative to the playhead.
+      const next =
+        direction === 1
+          ? playableClips.findIndex((clip) => clip.start > currentTime + LOOP_EPSILON_SEC)
+          : playableClips.map((clip) => clip.start < currentTime - 1).lastIndexOf(true);
+      selectClip(next === -1 ? (direction === 1 ? 0 : playableClips.length - 1) : next);
+      return;
+    }
+    selectClip((activeClip + direction + playableClips.length) % playableClips.length);
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    if (video.paused) {
+      video.play().catch(() => undefined);
+    } else {
+      video.pause();
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    if (looping && active && video.currentTime >= active.end - LOOP_EPSILON_SEC) {
+      video.currentTime = active.start;
+    }
+    setCurrentTime(video.currentTime);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const key = event.key.toLowerCase();
+    // Native video controls and buttons already handle these keys themselves.
+    const handledNatively =
+      (event.target instanceof HTMLVideoElement &&
+        (key === " " || key === "arrowleft" || key === "arrowright")) ||
+      (event.target instanceof HTMLButtonElement && (key === " " || key === "enter"));
+    if (handledNatively) {
+      return;
+    }
+    if (key === "n" || key === "arrowright") {
+      event.preventDefault();
+      stepClip(1);
+    } else if (key === "p" || key === "arrowleft") {
+      event.preventDefault();
+      stepClip(-1);
+    } else if (key === "l") {
+      event.preventDefault();
+      setLooping((prev) => !prev);
+    } else if (key === "k" || key === " ") {
+      event.preventDefault();
+      togglePlayback();
+    } else if (/^[1-9]$/.test(key) && Number(key) <= playableClips.length) {
+      event.preventDefault();
+      selectClip(Number(key) - 1);
+    }
+  };
+
+  const handleTimelineClick = (event: MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video || !timelineLength) {
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    const time = ratio * timelineLength;
+    video.currentTime = time;
+    const position = playableClips.findIndex((clip) => time >= clip.start && time <= clip.end);
+    setActiveClip(position === -1 ? null : position);
+  };
+
+  const toPercent = (value: number) =>
+    timelineLength ? `${Math.min(Math.max(value / timelineLength, 0), 1) * 100}%` : "0%";
+
+  if (videoError) {
+    return (
+      <p className="text-sm text-rose-200">
+        Unable to load the input video. Use the clip links below instead.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="space-y-3 rounded-xl border border-slate-800 bg-slate-950 p-3 focus:border-emerald-500/60 focus:outline-none"
+    >
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        controls
+        preload="metadata"
+        className="w-full rounded-lg bg-black"
+        onLoadedMetadata={(event) => {
+          const value = event.currentTarget.duration;
+          setDuration(Number.isFinite(value) ? value : null);
+        }}
+        onTimeUpdate={handleTimeUpdate}
+        onError={() => setVideoError(true)}
+      />
+
+      <div
+        role="slider"
+        aria-label="Clip timeline"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(timelineLength)}
+        aria-valuenow={Math.round(currentTime)}
+        onClick={handleTimelineClick}
+        className="relative h-6 cursor-pointer rounded-md bg-slate-800"
+      >
+        {playableClips.map((clip, position) => (
+          <span
+            key={`${clip.index}-${clip.start}`}
+            title={`Clip ${position + 1} · ${formatTime(clip.start)}–${formatTime(clip.end)}`}
+            className={`absolute inset-y-1 rounded-sm ${
+              position === activeClip ? "bg-emerald-400" : "bg-emerald-500/40"
+            }`}
+            style={{
+              left: toPercent(clip.start),
+              width: `max(3px, calc(${toPercent(clip.end)} - ${toPercent(clip.start)}))`
+            }}
+          />
+        ))}
+        <span
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-white"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          {formatTime(currentTime)} / {timelineLength ? formatTime(timelineLength) : "—"}
+          {active ? ` · Clip ${(activeClip ?? 0) + 1}` : null}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => stepClip(-1)}
+            disabled={playableClips.length === 0}
+            className="rounded-lg border border-slate-700 px-3 py-1 font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Prev
+          </button>
+          <button
+            type="button"
+            onClick={() => stepClip(1)}
+            disabled={playableClips.length === 0}
+            className="rounded-lg border border-slate-700 px-3 py-1 font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Next
+          </button>
+          <button
+            type="button"
+            onClick={() => setLooping((prev) => !prev)}
+            aria-pressed={looping}
+            className={`rounded-lg border px-3 py-1 font-semibold uppercase tracking-[0.2em] transition ${
+              looping
+                ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-200"
+                : "border-slate-700 text-slate-200 hover:border-slate-500"
+            }`}
+          >
+            Loop {looping ? "on" : "off"}
+          </button>
+        </div>
+      </div>
+
+      {playableClips.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {playableClips.map((clip, position) => (
+            <li key={`${clip.index}-${clip.start}`}>
+              <button
+                type="button"
+                onClick={() => selectClip(position)}
+                className={`rounded-lg border px-3 py-1 text-xs transition ${
+                  position === activeClip
+                    ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-200"
+                    : "border-slate-800 text-slate-300 hover:border-slate-600"
+                }`}
+              >
+                {position + 1} · {formatTime(clip.start)}–{formatTime(clip.end)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500">No clip markers for this analysis.</p>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Shortcuts (click the player first): N / → next clip, P / ← previous clip, 1-9 jump to
+        clip, L loop selected clip, K / Space play-pause.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+type FrameScrubberProps = {
+  videoUrl: string;
+  markers?: number[];
+  disabled?: boolean;
+  onUseFrame: (timeSec: number) => Promise<void>;
+};
+
+// Seeking steps: one frame at 25 fps, and one second.
+const FRAME_STEP_SEC = 0.04;
+const SECOND_STEP_SEC = 1;
+
+const formatTime = (value: number) => {
+  const safe = Math.max(0, value);
+  const minutes = Math.floor(safe / 60);
+  const seconds = safe - minutes * 60;
+  return `${minutes}:${seconds.toFixed(2).padStart(5, "0")}`;
+};
+
+export default function FrameScrubber({
+  videoUrl,
+  markers = [],
+  disabled,
+  onUseFrame
+}: FrameScrubberProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [timeSec, setTimeSec] = useState(0);
+  const [videoError, setVideoError] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+
+  const seekTo = (value: number) => {
+    const next = Math.min(Math.max(value, 0), duration ?? value);
+    setTimeSec(next);
+    if (videoRef.current) {
+      videoRef.current.currentTime = next;
+    }
+  };
+
+  const handleUseFrame = async () => {
+    setRequesting(true);
+    try {
+      await onUseFrame(Number(timeSec.toFixed(3)));
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  if (videoError) {
+    return (
+      <p className="text-xs text-rose-200">
+        Unable to load the input video for scrubbing. Pick one of the preview frames instead.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        muted
+        playsInline
+        preload="metadata"
+        className="w-full rounded-lg bg-black"
+        onLoadedMetadata={(event) => {
+          const value = event.currentTarget.duration;
+          setDuration(Number.isFinite(value) ? value : null);
+        }}
+        onError={() => setVideoError(true)}
+      />
+
+      <div className="relative">
+        <input
+          type="range"
+          min={0}
+          max={duration ?? 0}
+          step={FRAME_STEP_SEC}
+          value={timeSec}
+          onChange={(event) => seekTo(Number(event.target.value))}
+          disabled={!duration || disabled}
+          aria-label="Video timeline"
+          className="w-full accent-emerald-400"
+        />
+        {duration
+          ? markers
+              .filter((marker) => marker >= 0 && marker <= duration)
+              .map((marker) => (
+                <span
+                  key={marker}
+                  title={`Preview frame at ${formatTime(marker)}`}
+                  className="pointer-events-none absolute -bottom-1 h-1.5 w-px bg-amber-300/70"
+                  style={{ left: `${(marker / duration) * 100}%` }}
+                />
+              ))
+          : null}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          {formatTime(timeSec)} / {duration ? formatTime(duration) : "—"}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {[
+            { label: "−1s", delta: -SECOND_STEP_SEC },
+            { label: "−1f", delta: -FRAME_STEP_SEC },
+            { label: "+1f", delta: FRAME_STEP_SEC },
+            { label: "+1s", delta: SECOND_STEP_SEC }
+          ].map(({ label, delta }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => seekTo(timeSec + delta)}
+              disabled={!duration || disabled}
+              className="rounded-lg border border-slate-700 px-3 py-1 font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={handleUseFrame}
+            disabled={!duration || disabled || requesting}
+            className="rounded-lg bg-emerald-500 px-3 py-1 font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {requesting ? "Extracting..." : "Use this frame"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { getJob, type JobResponse } from "@/lib/api";
+import { MAX_COMPARE_JOBS, getStatusClass, isComparableJobStatus } from "@/lib/jobs";
+import { resolveEvidenceMetrics, type EvidenceMetricValue } from "@/lib/metrics";
+import { resolveRadarAxes, type RadarSeries } from "@/lib/radar";
+import RadarChart from "@/components/RadarChart";
+
+type CompareEntry = {
+  jobId: string;
+  job: JobResponse | null;
+  error: string | null;
+};
+
+type CompareRow = {
+  key: string;
+  label: string;
+  values: EvidenceMetricValue[];
+};
+
+const seriesColors = ["#34d399", "#60a5fa", "#f472b6", "#fbbf24", "#a78bfa", "#f87171"];
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected error";
+
+const formatValue = (value: EvidenceMetricValue) => {
+  if (value === null) {
+    return "—";
+  }
+  return typeof value === "number" ? value.toFixed(1) : value;
+};
+
+const formatDelta = (value: EvidenceMetricValue, baseline: EvidenceMetricValue) => {
+  if (typeof value !== "number" || typeof baseline !== "number") {
+    return null;
+  }
+  const delta = value - baseline;
+  if (Math.abs(delta) < 0.05) {
+    return { text: "±0.0", className: "text-slate-500" };
+  }
+  return delta > 0
+    ? { text: `+${delta.toFixed(1)}`, className: "text-emerald-300" }
+    : { text: delta.toFixed(1), className: "text-rose-300" };
+};
+
+const getJobLabel = (entry: CompareEntry) => {
+  const job = entry.job;
+  const details = [
+    job?.teamName,
+    job?.shirtNumber != null ? `#${job.shirtNumber}` : null,
+    job?.result?.playerRole ?? job?.role
+  ].filter(Boolean);
+  return details.length > 0 ? details.join(" · ") : entry.jobId;
+};
+
+const buildCompareHref = (jobIds: string[]) =>
+  jobIds.length > 0 ? `/compare?ids=${jobIds.map(encodeURIComponent).join(",")}` : "/compare";
+
+export default function JobCompare({ jobIds }: { jobIds: string[] }) {
+  const router = useRouter();
+  const [entries, setEntries] = useState<CompareEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draftJobId, setDraftJobId] = useState("");
+  const jobIdsKey = jobIds.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = jobIdsKey ? jobIdsKey.split(",") : [];
+    setLoading(ids.length > 0);
+
+    Promise.allSettled(ids.map((jobId) => getJob(jobId))).then((results) => {
+      if (cancelled) {
+        return;
+      }
+      setEntries(
+        results.map((result, index) => ({
+          jobId: ids[index],
+          job: result.status === "fulfilled" ? result.value : null,
+          error: result.status === "rejected" ? toErrorMessage(result.reason) : null
+        }))
+      );
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobIdsKey]);
+
+  const updateJobIds = (nextJobIds: string[]) => {
+    router.replace(buildCompareHref(nextJobIds));
+  };
+
+  const handleAdd = () => {
+    const jobId = draftJobId.trim();
+    if (!jobId || jobIds.includes(jobId) || jobIds.length >= MAX_COMPARE_JOBS) {
+      return;
+    }
+    setDraftJobId("");
+    updateJobIds([...jobIds, jobId]);
+  };
+
+  const axes = resolveRadarAxes(
+    ...entries.flatMap(({ job }) => [
+      job?.result?.radarExpected,
+      Object.keys(job?.result?.radar ?? {})
+    ])
+  );
+
+  const series: RadarSeries[] = entries
+    .map((entry, index) => ({
+      id: entry.jobId,
+      label: getJobLabel(entry),
+      color: seriesColors[index % seriesColors.length],
+      values: entry.job?.result?.radar ?? {}
+    }))
+    .filter((entry) => Object.keys(entry.values).length > 0);
+
+  const scoreRows: CompareRow[] = [
+    {
+      key: "overallScore",
+      label: "Overall score",
+      values: entries.map(({ job }) => job?.result?.overallScore ?? null)
+    },
+    {
+      key: "roleScore",
+      label: "Role score",
+      values: entries.map(({ job }) => job?.result?.roleScore ?? null)
+    },
+    ...axes.map((axis) => ({
+      key: `radar:${axis}`,
+      label: axis,
+      values: entries.map(({ job }) => job?.result?.radar?.[axis] ?? null)
+    }))
+  ];
+
+  const entryMetrics = entries.map(({ job }) => resolveEvidenceMetrics(job?.result));
+  const metricRows: CompareRow[] = (entryMetrics[0] ?? []).map((metric, metricIndex) => ({
+    key: metric.key,
+    label: metric.label,
+    values: entryMetrics.map((metrics) => metrics[metricIndex].value)
+  }));
+
+  const renderTable = (title: string, rows: CompareRow[]) => (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
+      <h3 className="text-lg font-semibold text-white">{title}</h3>
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full min-w-[32rem] text-left text-sm">
+          <thead>
+            <tr className="text-xs uppercase tracking-[0.2em] text-slate-500">
+              <th className="py-2 pr-4 font-medium">Metric</th>
+              {entries.map((entry, index) => (
+                <th key={entry.jobId} className="py-2 pr-4 font-medium">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: seriesColors[index % seriesColors.length] }}
+                    />
+                    <span className="truncate normal-case tracking-normal text-slate-300">
+                      {getJobLabel(entry)}
+                    </span>
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-slate-800">
+                <td className="py-2 pr-4 text-xs uppercase tracking-[0.2em] text-slate-500">
+                  {row.label}
+                </td>
+                {row.values.map((value, index) => {
+                  const delta = index > 0 ? formatDelta(value, row.values[0]) : null;
+                  return (
+                    <td key={entries[index].jobId} className="py-2 pr-4 text-slate-100">
+                      <span className="font-semibold">{formatValue(value)}</span>
+                      {delta ? (
+                        <span className={`ml-2 text-xs ${delta.className}`}>{delta.text}</span>
+                      ) : null}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Compare jobs</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Deltas are relative to the first job (baseline).
+          </p>
+        </div>
+        <span className="rounded-full border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-400">
+          {jobIds.length} / {MAX_COMPARE_JOBS} jobs
+        </span>
+      </div>
+
+      <form
+        className="mt-6 flex flex-wrap items-end gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleAdd();
+        }}
+      >
+        <label className="block flex-1 text-sm text-slate-300">
+          Add job ID
+          <input
+            value={draftJobId}
+            onChange={(event) => setDraftJobId(event.target.value)}
+            className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-500 focus:outline-none"
+            placeholder="Job ID"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!draftJobId.trim() || jobIds.length >= MAX_COMPARE_JOBS}
+          className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+
+      {jobIds.length < 2 ? (
+        <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">
+          Add at least two jobs to compare them, or pick them from the{" "}
+          <Link href="/jobs" className="text-emerald-400 hover:text-emerald-300">
+            job history
+          </Link>
+          .
+        </div>
+      ) : null}
+
+      {loading ? (
+        <div className="mt-4 flex items-center gap-2 text-sm text-slate-400">
+          <span className="h-4 w-4 animate-spin rounded-full border-2 border-emerald-400/30 border-t-emerald-400" />
+          <span>Loading jobs...</span>
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-3">
+        {entries.map((entry, index) => {
+          const status = entry.job?.status ?? null;
+          const notComparable =
+            entry.job && (!entry.job.result || !isComparableJobStatus(status));
+          return (
+            <div
+              key={entry.jobId}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950 p-4"
+            >
+              <div className="flex min-w-0 items-center gap-3">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: seriesColors[index % seriesColors.length] }}
+                />
+                <div className="min-w-0 space-y-1">
+                  <p className="truncate text-sm text-slate-200">{getJobLabel(entry)}</p>
+                  <p className="truncate text-xs text-slate-500">
+                    {entry.jobId}
+                    {index === 0 ? " · baseline" : null}
+                  </p>
+                  {entry.error ? (
+                    <p className="text-xs text-rose-200">{entry.error}</p>
+                  ) : null}
+                  {notComparable ? (
+                    <p className="text-xs text-amber-200">
+                      No result yet — its scores show as —.
+                    </p>
+                  ) : null}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                {status ? (
+                  <span
+                    className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] ${getStatusClass(
+                      status
+                    )}`}
+                  >
+                    {status}
+                  </span>
+                ) : null}
+                {index > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateJobIds([entry.jobId, ...jobIds.filter((id) => id !== entry.jobId)])
+                    }
+                    className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+                  >
+                    Baseline
+                  </button>
+                ) : null}
+                <Link
+                  href={`/jobs/${encodeURIComponent(entry.jobId)}`}
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-emerald-400/60"
+                >
+                  Open
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => updateJobIds(jobIds.filter((id) => id !== entry.jobId))}
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-rose-400/60"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {entries.length > 0 && !loading ? (
+        <div className="mt-6 space-y-6">
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
+            <h3 className="text-lg font-semibold text-white">Radar</h3>
+            {series.length === 0 ? (
+              <p className="mt-2 text-sm text-slate-400">Radar data not available.</p>
+            ) : (
+              <div className="mt-4">
+                <RadarChart axes={axes} series={series} exportName="radar-compare" />
+              </div>
+            )}
+          </div>
+          {renderTable("Scores", scoreRows)}
+          {renderTable("Evidence metrics", metricRows)}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { listJobs, type JobListFilters, type JobResponse } from "@/lib/api";
+import {
+  MAX_COMPARE_JOBS,
+  getStatusClass,
+  isComparableJobStatus,
+  jobStatuses,
+  roles
+} from "@/lib/jobs";
+
+const PAGE_SIZE = 20;
+
+const emptyFilters: JobListFilters = {
+  status: "",
+  role: "",
+  category: "",
+  team: ""
+};
+
+const formatTimestamp = (value: string | null | undefined) => {
+  if (!value) {
+    return "—";
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+};
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected error";
+
+export default function JobHistory() {
+  const [draftFilters, setDraftFilters] = useState<JobListFilters>(emptyFilters);
+  const [filters, setFilters] = useState<JobListFilters>(emptyFilters);
+  const [jobs, setJobs] = useState<JobResponse[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  // Bumped on every filter change so a "Load more" page fetched for the old
+  // filters is dropped instead of appended.
+  const listGenerationRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    listGenerationRef.current += 1;
+    setLoading(true);
+    setLoadingMore(false);
+    setNextCursor(null);
+    setError(null);
+
+    listJobs({ ...filters, limit: PAGE_SIZE })
+      .then(({ items, nextCursor: cursor }) => {
+        if (cancelled) {
+          return;
+        }
+        setJobs(items);
+        setNextCursor(cursor);
+      })
+      .catch((fetchError) => {
+        if (cancelled) {
+          return;
+        }
+        setJobs([]);
+        setNextCursor(null);
+        setError(toErrorMessage(fetchError));
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+    const generation = listGenerationRef.current;
+    const isStale = () => generation !== listGenerationRef.current;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const { items, nextCursor: cursor } = await listJobs({
+        ...filters,
+        cursor: nextCursor,
+        limit: PAGE_SIZE
+      });
+      if (isStale()) {
+        return;
+      }
+      setJobs((prev) => {
+        const seen = new Set(prev.map((job) => job.jobId));
+        return [...prev, ...items.filter((job) => !seen.has(job.jobId))];
+      });
+      setNextCursor(cursor);
+    } catch (fetchError) {
+      if (!isStale()) {
+        setError(toErrorMessage(fetchError));
+      }
+    } finally {
+      if (!isStale()) {
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const toggleCompare = (jobId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(jobId)
+        ? prev.filter((id) => id !== jobId)
+        : prev.length < MAX_COMPARE_JOBS
+          ? [...prev, jobId]
+          : prev
+    );
+  };
+
+  const updateDraft = (key: keyof JobListFilters, value: string) => {
+    setDraftFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Job history</h2>
+          <p className="mt-1 text-sm text-slate-400">
+            Browse your past analysis jobs and reopen them in the runner.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {compareIds.length >= 2 ? (
+            <Link
+              href={`/compare?ids=${compareIds.map(encodeURIComponent).join(",")}`}
+              className="rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-950 transition hover:bg-emerald-400"
+            >
+              Compare ({compareIds.length})
+            </Link>
+          ) : null}
+          <span className="rounded-full border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-400">
+            {jobs.length} loaded
+          </span>
+        </div>
+      </div>
+
+      <form
+        className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-5"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setFilters({ ...draftFilters });
+        }}
+      >
+        <label className="block text-sm text-slate-300">
+          Status
+          <select
+            value={draftFilters.status ?? ""}
+            onChange={(event) => updateDraft("status", event.target.value)}
+            className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none"
+          >
+            <option value="">All</option>
+            {jobStatuses.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm text-slate-300">
+          Role
+          <select
+            value={draftFilters.role ?? ""}
+            onChange={(event) => updateDraft("role", event.target.value)}
+            className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white focus:border-emerald-500 focus:outline-none"
+          >
+            <option value="">All</option>
+            {roles.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm text-slate-300">
+          Category
+          <input
+            value={draftFilters.category ?? ""}
+            onChange={(event) => updateDraft("category", event.target.value)}
+            className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-500 focus:outline-none"
+            placeholder="e.g. U17"
+          />
+        </label>
+
+        <label className="block text-sm text-slate-300">
+          Team
+          <input
+            value={draftFilters.team ?? ""}
+            onChange={(event) => updateDraft("team", event.target.value)}
+            className="mt-2 w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-emerald-500 focus:outline-none"
+            placeholder="e.g. Home team"
+          />
+        </label>
+
+        <div className="flex items-end gap-3">
+          <button
+            type="submit"
+            disabled={loading}
+            className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {loading ? "Loading..." : "Apply"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setDraftFilters(emptyFilters);
+              setFilters(emptyFilters);
+            }}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-6 space-y-3">
+        {loading && jobs.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-emerald-400/30 border-t-emerald-400" />
+            <span>Loading jobs...</span>
+          </div>
+        ) : null}
+        {!loading && !error && jobs.length === 0 ? (
+          <div className="rounded-xl border border-slate-800 bg-slate-950 p-4 text-sm text-slate-400">
+            No jobs match these filters.
+          </div>
+        ) : null}
+        {jobs.map((job) => (
+          <div
+            key={job.jobId}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950 p-4"
+          >
+            <div className="min-w-0 space-y-1">
+              <p className="truncate text-sm text-slate-200">{job.jobId}</p>
+              <p className="text-xs text-slate-500">
+                {[job.role, job.category, job.teamName].filter(Boolean).join(" · ") ||
+                  "No details"}
+              </p>
+              <p className="text-xs text-slate-500">
+                Created {formatTimestamp(job.createdAt)} · Updated{" "}
+                {formatTimestamp(job.updatedAt)}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              {job.jobId && isComparableJobStatus(job.status) ? (
+                <label className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-400">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(job.jobId)}
+                    disabled={
+                      !compareIds.includes(job.jobId) &&
+                      compareIds.length >= MAX_COMPARE_JOBS
+                    }
+                    onChange={() => toggleCompare(job.jobId ?? "")}
+                    className="h-4 w-4 rounded border-slate-700 bg-slate-950 accent-emerald-500"
+                  />
+                  Compare
+                </label>
+              ) : null}
+              <span
+                className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] ${getStatusClass(
+                  job.status
+                )}`}
+              >
+                {job.status ?? "unknown"}
+              </span>
+              <Link
+                href={`/jobs/${encodeURIComponent(job.jobId ?? "")}`}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-emerald-400/60"
+              >
+                Open
+              </Link>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {nextCursor ? (
+        <div className="mt-6 flex justify-center">
+          <button
+            type="button"
+            onClick={handleLoadMore}
+            disabled={loading || loadingMore}
+            className="rounded-lg border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {loadingMore ? "Loading..." : "Load more"}
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import {
   useEffect,
   useMemo,
@@ -7,45 +8,105 @@ import {
   useState,
   type ReactNode,
   type KeyboardEvent,
-  type MouseEvent
+  type PointerEvent
 } from "react";
 import {
   createJob,
   enqueueJob,
   getJob,
+  getJobFrameAt,
   getJobFrames,
   getJobTrackCandidates,
+  getRetryAfterSec,
   normalizeJob,
   pickJobPlayer,
   saveJobPlayerRef,
   saveJobTargetSelection,
+  saveJobTargetSelections,
+  selectJobTrack,
+  type CreateJobVideoPayload,
   type FrameSelection,
   type JobResponse,
   type PreviewFrame,
   type PreviewFrameTrack,
   type TrackCandidate,
   type TrackCandidateSampleFrame,
-  type TargetSelection
+  type TargetSelection,
+  type TargetSelectionPayload
 } from "@/lib/api";
+import CandidateCompare from "@/components/CandidateCompare";
+import CandidateFilterBar from "@/components/CandidateFilterBar";
+import CandidateRankingPanel from "@/components/CandidateRankingPanel";
+import FrameScrubber from "@/components/FrameScrubber";
 import ProgressBar from "@/components/ProgressBar";
+import RateLimitCountdown from "@/components/RateLimitCountdown";
 import ResultView from "@/components/ResultView";
+import TargetAnchorsEditor from "@/components/TargetAnchorsEditor";
+import TrackVerificationStrip from "@/components/TrackVerificationStrip";
+import VideoUpload from "@/components/VideoUpload";
+import VirtualCandidateGrid from "@/components/VirtualCandidateGrid";
+import ZoomControls from "@/components/ZoomControls";
 import { extractWarnings } from "@/lib/warnings";
 import OverlayFramesGallery from "@/components/OverlayFramesGallery";
 import { normalizeFrameUrl } from "@/lib/frameUrl";
+import { getPollInterval, getStatusClass, isTerminalJobStatus, roles } from "@/lib/jobs";
+import { subscribeToJobEvents, supportsJobEvents } from "@/lib/jobEvents";
+import {
+  normalizeCandidateTier,
+  rankTrackCandidates,
+  sortByRanking
+} from "@/lib/candidateRanking";
+import {
+  applyCandidateFilters,
+  countCandidatesByTier,
+  defaultCandidateFilters,
+  type CandidateFilters
+} from "@/lib/candidateFilter";
+import { toggleCompareTrackId } from "@/lib/candidateCompare";
+import {
+  emptyUndoHistory,
+  pushUndoStep,
+  redoStep,
+  undoStep,
+  type UndoHistory
+} from "@/lib/undoHistory";
+import { sampleCandidateKitColor, type Rgb } from "@/lib/kitColor";
+import {
+  PREVIEW_ZOOM_STEP,
+  clampPreviewZoom,
+  defaultPreviewZoom,
+  getPinchZoom,
+  getPointerDistance,
+  getPointerMidpoint,
+  getWheelZoomScale,
+  zoomAroundPoint,
+  type PreviewZoom,
+  type ZoomPoint
+} from "@/lib/previewZoom";
+import {
+  BBOX_PERCENT_STEP,
+  createCenteredBBox,
+  getArrowDelta,
+  nudgeBBox,
+  type BBoxKeyboardMode
+} from "@/lib/bboxKeyboard";
 import {
   clampNormalized,
-  coerceNumber,
+  getBestPreviewFrameKey,
   getSelectionBBox,
   getSelectionFrameKey,
   getSelectionTimeSec,
+  isSameSelection,
   type NormalizedBBox
 } from "@/lib/selection";
 
-const roles = ["Striker", "Winger", "Midfielder", "Defender", "Goalkeeper"];
 const POLLING_TIMEOUT_MS = 12000;
 const TARGET_FRAMES_COUNT = 32;
 const MIN_FRAME_COUNT = 8;
 const TARGET_SECONDARY_FALLBACK_LIMIT = 5;
+const LONG_PRESS_MS = 500;
+const UNDO_COALESCE_MS = 600;
+const LONG_PRESS_SLOP_PX = 10;
 
 type ImageLoadFailure = {
   url: string;
@@ -108,22 +169,7 @@ const getClosestPreviewFrame = (frames: PreviewFrame[], timeSec: number) =>
       : closest;
   }, null);
 
-const normalizeCandidateTier = (candidate: TrackCandidate) => {
-  if (!candidate.tier) {
-    return "PRIMARY";
-  }
-  const normalized = candidate.tier.trim().toUpperCase();
-  if (normalized.includes("PRIMARY")) {
-    return "PRIMARY";
-  }
-  if (normalized.includes("SECONDARY")) {
-    return "SECONDARY";
-  }
-  if (normalized.includes("OTHER")) {
-    return "OTHER";
-  }
-  return "PRIMARY";
-};
+const getCandidateKey = (candidate: TrackCandidate) => candidate.trackId;
 
 const normalizeTrackTier = (track: PreviewFrameTrack) => {
   if (!track.tier) {
@@ -211,35 +257,6 @@ const resolveCandidateBox = (
   };
 };
 
-const normalizeTargetSelection = (source: unknown): TargetSelection | null => {
-  const timeSec = getSelectionTimeSec(source);
-  const frameKey = getSelectionFrameKey(source);
-  const bbox = getSelectionBBox(source);
-  if (!bbox) {
-    return null;
-  }
-  const record = source as Record<string, unknown>;
-  const trackId =
-    typeof record.trackId === "string"
-      ? record.trackId
-      : typeof record.track_id === "string"
-      ? record.track_id
-      : null;
-  return {
-    frameTimeSec: timeSec,
-    frame_time_sec: timeSec,
-    frameKey: frameKey ?? null,
-    frame_key: frameKey ?? null,
-    trackId,
-    track_id: trackId,
-    t: timeSec ?? null,
-    x: bbox.x,
-    y: bbox.y,
-    w: bbox.w,
-    h: bbox.h
-  };
-};
-
 const buildHttpErrorMessage = async (response: Response) => {
   let message = "";
   const contentType = response.headers.get("content-type") ?? "";
@@ -461,16 +478,6 @@ const fetchJsonWithTimeout = async <T,>(input: RequestInfo | URL) => {
   }
 };
 
-const statusStyles: Record<string, string> = {
-  QUEUED: "bg-slate-800 text-slate-200",
-  WAITING_FOR_SELECTION: "bg-amber-500/20 text-amber-200",
-  WAITING_FOR_PLAYER: "bg-amber-500/20 text-amber-200",
-  RUNNING: "bg-blue-500/20 text-blue-200",
-  COMPLETED: "bg-emerald-500/20 text-emerald-200",
-  PARTIAL: "bg-amber-400/20 text-amber-200",
-  FAILED: "bg-rose-500/20 text-rose-200"
-};
-
 type PreviewDragState = {
   startX: number;
   startY: number;
@@ -480,6 +487,20 @@ type PreviewDragState = {
 
 type PreviewMode = "player-ref" | "target";
 
+// Everything a preview-modal edit can change, so undo restores the frame and
+// the track pick along with the box.
+type SelectionSnapshot = {
+  previewMode: PreviewMode;
+  frame: PreviewFrame | null;
+  frameKey: string | null;
+  frameTimeSec: number | null;
+  playerRef: FrameSelection | null;
+  draftTarget: TargetSelection | null;
+  target: TargetSelection | null;
+  trackId: string | null;
+  isManual: boolean;
+};
+
 type TargetAdjustMode = "move" | "resize-nw" | "resize-ne" | "resize-sw" | "resize-se";
 
 type TargetAdjustState = {
@@ -489,20 +510,52 @@ type TargetAdjustState = {
   origin: TargetSelection;
 };
 
-export default function JobRunner() {
+type JobRunnerProps = {
+  initialJobId?: string | null;
+};
+
+// Anchors are sent by time: frame keys are only valid for the candidate that
+// produced them, so they are kept locally for thumbnails only.
+const toTargetAnchorPayload = (anchor: TargetSelection): TargetSelectionPayload => ({
+  frameKey: null,
+  timeSec: getSelectionTimeSec(anchor),
+  trackId: anchor.trackId ?? anchor.track_id ?? 0,
+  bbox: { x: anchor.x, y: anchor.y, w: anchor.w, h: anchor.h }
+});
+
+const mergeTargetAnchor = (
+  anchors: TargetSelection[],
+  anchor: TargetSelection | null,
+  editingIndex: number | null
+) => {
+  if (!anchor) {
+    return anchors;
+  }
+  if (editingIndex !== null && editingIndex < anchors.length) {
+    return anchors.map((entry, index) => (index === editingIndex ? anchor : entry));
+  }
+  return anchors.some((entry) => isSameSelection(entry, anchor))
+    ? anchors
+    : [...anchors, anchor];
+};
+
+export default function JobRunner({ initialJobId = null }: JobRunnerProps) {
   const [videoUrl, setVideoUrl] = useState("");
   const [role, setRole] = useState("Striker");
   const [category, setCategory] = useState("U17");
   const [shirtNumber, setShirtNumber] = useState("");
   const [teamName, setTeamName] = useState("");
-  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(initialJobId);
   const [job, setJob] = useState<JobResponse | null>(null);
   const [targetSelection, setTargetSelection] = useState<TargetSelection | null>(
     null
   );
   const [draftTargetSelection, setDraftTargetSelection] =
     useState<TargetSelection | null>(null);
+  const [targetAnchors, setTargetAnchors] = useState<TargetSelection[]>([]);
+  const [editingAnchorIndex, setEditingAnchorIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
   const [selectionError, setSelectionError] = useState<string | null>(null);
   const [selectionSuccess, setSelectionSuccess] = useState<string | null>(null);
   const [selectionWarning, setSelectionWarning] = useState<string | null>(null);
@@ -514,6 +567,7 @@ export default function JobRunner() {
     null
   );
   const [polling, setPolling] = useState(false);
+  const [jobEventsAvailable, setJobEventsAvailable] = useState(true);
   const [pollingTimedOut, setPollingTimedOut] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [savingSelection, setSavingSelection] = useState(false);
@@ -534,14 +588,15 @@ export default function JobRunner() {
   );
   const [loadingTrackCandidates, setLoadingTrackCandidates] = useState(false);
   const [candidatePolling, setCandidatePolling] = useState(false);
-  const [showSecondaryCandidates, setShowSecondaryCandidates] = useState(false);
-  const [showAllCandidates, setShowAllCandidates] = useState(false);
+  const [candidateFilters, setCandidateFilters] =
+    useState<CandidateFilters>(defaultCandidateFilters);
   const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
   const [selectedFrameKey, setSelectedFrameKey] = useState<string | null>(null);
   const [selectedFrameTimeSec, setSelectedFrameTimeSec] = useState<number | null>(
     null
   );
   const [isManualTargetSelection, setIsManualTargetSelection] = useState(false);
+  const [compareTrackIds, setCompareTrackIds] = useState<string[]>([]);
   const [candidateReview, setCandidateReview] = useState<TrackCandidate | null>(
     null
   );
@@ -561,6 +616,10 @@ export default function JobRunner() {
     null
   );
   const [previewError, setPreviewError] = useState<string | null>(null);
+  const [scrubberError, setScrubberError] = useState<string | null>(null);
+  const [kitColor, setKitColor] = useState<Rgb | null>(null);
+  const [candidateKitColors, setCandidateKitColors] = useState<Record<string, Rgb | null>>({});
+  const [samplingKitColors, setSamplingKitColors] = useState(false);
   const [previewImageErrors, setPreviewImageErrors] = useState<Record<string, string>>(
     {}
   );
@@ -576,11 +635,35 @@ export default function JobRunner() {
   const previewImageRef = useRef<HTMLImageElement | null>(null);
   const previewModalRef = useRef<HTMLDivElement | null>(null);
   const previewCloseButtonRef = useRef<HTMLButtonElement | null>(null);
+  const previewCanvasRef = useRef<HTMLDivElement | null>(null);
+  const previewPointersRef = useRef(new Map<number, ZoomPoint>());
+  const previewPinchRef = useRef<{
+    zoom: PreviewZoom;
+    midpoint: ZoomPoint;
+    distance: number;
+  } | null>(null);
+  const previewLongPressRef = useRef<{
+    timeoutId: ReturnType<typeof setTimeout>;
+    origin: ZoomPoint;
+  } | null>(null);
+  // Set after a pinch or a long press so the fingers still down don't start a box.
+  const previewGestureLockedRef = useRef(false);
+  const previewPointerTypeRef = useRef("mouse");
+  const previewPanRef = useRef<{ origin: ZoomPoint; zoom: PreviewZoom } | null>(null);
+  const [previewZoom, setPreviewZoom] = useState<PreviewZoom>(defaultPreviewZoom);
+  const [keyboardBoxMode, setKeyboardBoxMode] = useState<BBoxKeyboardMode>("move");
+  const [showPreviewShortcuts, setShowPreviewShortcuts] = useState(false);
+  const [selectionHistories, setSelectionHistories] = useState<
+    Record<string, UndoHistory<SelectionSnapshot>>
+  >({});
+  const nudgeHistoryAtRef = useRef(0);
   const lastFocusedElementRef = useRef<HTMLElement | null>(null);
   const playerSectionRef = useRef<HTMLElement | null>(null);
   const analysisSectionRef = useRef<HTMLElement | null>(null);
   const pollStartRef = useRef<number | null>(null);
   const analysisPollStartRef = useRef<number | null>(null);
+  const rehydratedJobIdRef = useRef<string | null>(null);
+  const restoredPlayerRefTimeRef = useRef<number | null>(null);
 
   const [analysisTrackId, setAnalysisTrackId] = useState<string | null>(null);
   const [analysisFrameKey, setAnalysisFrameKey] = useState<string | null>(null);
@@ -608,12 +691,7 @@ export default function JobRunner() {
   const displayStatusLabel =
     displayStatusLabelMap[displayStatus] ?? displayStatus.toLowerCase();
 
-  const statusClass = useMemo(() => {
-    if (!displayStatus) {
-      return "bg-slate-800 text-slate-200";
-    }
-    return statusStyles[displayStatus] ?? "bg-slate-800 text-slate-200";
-  }, [displayStatus]);
+  const statusClass = useMemo(() => getStatusClass(displayStatus), [displayStatus]);
 
   const analysisStatus = analysisJob?.status ?? null;
   const analysisProgressPct = analysisJob?.progress?.pct ?? 0;
@@ -665,22 +743,11 @@ export default function JobRunner() {
   const playerRef = job?.playerRef ?? null;
   const playerRefTimeSec = playerRef?.t ?? playerRef?.frameTimeSec ?? null;
   const jobTargetSelection = job?.target?.selections?.[0] ?? null;
-  const jobTargetDraftSource =
-    job?.target &&
-    typeof job.target === "object" &&
-    "selection" in (job.target as Record<string, unknown>)
-      ? (job.target as { selection?: unknown }).selection ?? null
-      : null;
-  const jobTargetDraft = normalizeTargetSelection(jobTargetDraftSource);
+  const jobTargetDraft = job?.target?.selection ?? null;
   const hasPlayerRef = Boolean(job?.playerRef);
   const hasTarget =
     Array.isArray(job?.target?.selections) && job.target.selections.length > 0;
-  const targetConfirmed = Boolean(
-    job?.target &&
-      typeof job.target === "object" &&
-      "confirmed" in job.target &&
-      (job.target as { confirmed?: boolean }).confirmed === true
-  );
+  const targetConfirmed = job?.target?.confirmed === true;
   const status = job?.status ?? null;
   const normalizedStatus = typeof status === "string" ? status.toUpperCase() : null;
   const isFinalStatus =
@@ -696,27 +763,11 @@ export default function JobRunner() {
   const isProcessingStatus = normalizedStatus === "PROCESSING";
   const isLowCoverageStatus = normalizedStatus === "LOW_COVERAGE";
   const isCandidatesFailed = normalizedStep === "CANDIDATES_FAILED";
-  const warningsPayload =
-    job?.result?.warnings ??
-    job?.warnings ??
-    (job && typeof job === "object"
-      ? (job as { data?: { warnings?: unknown[] } }).data?.warnings
-      : null) ??
-    null;
+  const warningsPayload = job?.result?.warnings ?? job?.warnings ?? null;
   const { messages: warningMessages } = extractWarnings(warningsPayload);
   const hasWarnings = warningMessages.length > 0;
-  const inputVideoUrl =
-    job?.result?.assets?.inputVideoUrl ??
-    job?.result?.assets?.input_video_url ??
-    job?.result?.assets?.inputVideo?.signedUrl ??
-    job?.result?.assets?.input_video?.signedUrl ??
-    (job ? (job as { inputVideoUrl?: string }).inputVideoUrl : null) ??
-    (job ? (job as { video_url?: string }).video_url : null) ??
-    null;
-  const clipsCount =
-    job?.result?.clips?.length ??
-    job?.result?.assets?.clips?.length ??
-    0;
+  const inputVideoUrl = job?.result?.assets?.inputVideoUrl ?? job?.videoUrl ?? null;
+  const clipsCount = job?.result?.clips?.length ?? 0;
   const radarKeysCount = Object.keys(job?.result?.radar ?? {}).length;
   const previewsReady = hasAnyPreviewFrames;
   const isTargetStepReady =
@@ -730,16 +781,7 @@ export default function JobRunner() {
         : previewsReady && hasPlayerRef && !hasTarget
           ? "TARGET"
           : "PROCESSING";
-  const rawAutodetectionStatus =
-    typeof job?.autodetection_status === "string"
-      ? job.autodetection_status
-      : typeof job?.autodetectionStatus === "string"
-        ? job.autodetectionStatus
-        : typeof job?.progress?.autodetection_status === "string"
-          ? job.progress.autodetection_status
-          : typeof job?.progress?.autodetectionStatus === "string"
-            ? job.progress.autodetectionStatus
-            : null;
+  const rawAutodetectionStatus = job?.autodetectionStatus ?? null;
   const autodetectionStatus = rawAutodetectionStatus?.trim().toUpperCase() ?? null;
   const autodetectEnabled =
     autodetectionStatus !== null &&
@@ -747,35 +789,12 @@ export default function JobRunner() {
     autodetectionStatus !== "DISABLED" &&
     autodetectionStatus !== "NONE";
   const autodetectLowCoverage = autodetectionStatus === "LOW_COVERAGE";
-  const rawErrorDetail =
-    typeof job?.error_detail === "string"
-      ? job.error_detail
-      : typeof job?.errorDetail === "string"
-        ? job.errorDetail
-        : typeof job?.progress?.error_detail === "string"
-          ? job.progress.error_detail
-          : typeof job?.progress?.errorDetail === "string"
-            ? job.progress.errorDetail
-            : null;
+  const rawErrorDetail = job?.errorDetail ?? null;
   const errorDetail = rawErrorDetail?.trim() ?? null;
   const hasAutodetectErrorDetail = Boolean(errorDetail);
-  const framesProcessed = coerceNumber(
-    job?.progress && typeof job.progress === "object"
-      ? (job.progress as Record<string, unknown>).framesProcessed ??
-          (job.progress as Record<string, unknown>).frames_processed ??
-          (job.progress as Record<string, unknown>).processedFrames ??
-          (job.progress as Record<string, unknown>).processed_frames
-      : null
-  );
+  const framesProcessed = job?.progress?.framesProcessed ?? null;
   const framesProcessedCount = Math.max(framesProcessed ?? 0, 0);
-  const totalTracks = coerceNumber(
-    job?.progress && typeof job.progress === "object"
-      ? (job.progress as Record<string, unknown>).totalTracks ??
-          (job.progress as Record<string, unknown>).total_tracks ??
-          (job.progress as Record<string, unknown>).tracksTotal ??
-          (job.progress as Record<string, unknown>).tracks_total
-      : null
-  );
+  const totalTracks = job?.progress?.totalTracks ?? null;
   const totalTracksCount = Math.max(totalTracks ?? 0, 0);
   const isProcessingWithoutCandidates =
     isProcessingStatus && trackCandidates.length === 0;
@@ -872,26 +891,39 @@ export default function JobRunner() {
     !selectedTrackId &&
     trackCandidates.length === 0 &&
     !playerCandidateError;
-  const { primaryCandidates, secondaryCandidates, otherCandidates } = useMemo(() => {
-    return trackCandidates.reduce(
-      (acc, candidate) => {
-        const tier = normalizeCandidateTier(candidate);
-        if (tier === "SECONDARY") {
-          acc.secondaryCandidates.push(candidate);
-        } else if (tier === "OTHER") {
-          acc.otherCandidates.push(candidate);
-        } else {
-          acc.primaryCandidates.push(candidate);
-        }
-        return acc;
-      },
-      {
-        primaryCandidates: [] as TrackCandidate[],
-        secondaryCandidates: [] as TrackCandidate[],
-        otherCandidates: [] as TrackCandidate[]
-      }
-    );
-  }, [trackCandidates]);
+  const rankingShirtNumber =
+    job?.shirtNumber ?? (shirtNumber.trim() && !Number.isNaN(Number(shirtNumber))
+      ? Number(shirtNumber)
+      : null);
+  const candidateRanking = useMemo(
+    () =>
+      rankTrackCandidates([...trackCandidates, ...fallbackCandidates], {
+        kitColor,
+        candidateColors: candidateKitColors,
+        shirtNumber: rankingShirtNumber
+      }),
+    [trackCandidates, fallbackCandidates, kitColor, candidateKitColors, rankingShirtNumber]
+  );
+  const rankedTrackCandidates = useMemo(
+    () => sortByRanking(trackCandidates, candidateRanking),
+    [trackCandidates, candidateRanking]
+  );
+  const rankedFallbackCandidates = useMemo(
+    () => sortByRanking(fallbackCandidates, candidateRanking),
+    [fallbackCandidates, candidateRanking]
+  );
+  const candidateTierCounts = useMemo(
+    () => countCandidatesByTier([...trackCandidates, ...fallbackCandidates]),
+    [trackCandidates, fallbackCandidates]
+  );
+  const filteredTrackCandidates = useMemo(
+    () => applyCandidateFilters(rankedTrackCandidates, candidateFilters),
+    [rankedTrackCandidates, candidateFilters]
+  );
+  const filteredFallbackCandidates = useMemo(
+    () => applyCandidateFilters(rankedFallbackCandidates, candidateFilters),
+    [rankedFallbackCandidates, candidateFilters]
+  );
 
   const reviewFrames =
     candidateReview?.sampleFrames?.filter((frame) => frame.imageUrl) ?? [];
@@ -914,8 +946,16 @@ export default function JobRunner() {
     totalTracksCount > 0 && trackCandidates.length === 0 && !loadingTrackCandidates;
   const hasCandidateList =
     trackCandidates.length > 0 || fallbackCandidates.length > 0;
+  const compareCandidates = compareTrackIds
+    .map(
+      (trackId) =>
+        trackCandidates.find((candidate) => candidate.trackId === trackId) ??
+        fallbackCandidates.find((candidate) => candidate.trackId === trackId)
+    )
+    .filter((candidate): candidate is TrackCandidate => Boolean(candidate));
   const candidatePreviewList =
-    trackCandidates.length > 0 ? trackCandidates : fallbackCandidates;
+    trackCandidates.length > 0 ? filteredTrackCandidates : filteredFallbackCandidates;
+  const candidateListKey = `${jobId ?? ""}:${JSON.stringify(candidateFilters)}`;
   const [previewImageSize, setPreviewImageSize] = useState<{
     width: number;
     height: number;
@@ -941,26 +981,8 @@ export default function JobRunner() {
             }
           ]
         : [];
-  const playerRefRaw =
-    job?.playerRefRaw ??
-    (job ? (job as { player_ref?: unknown }).player_ref : null) ??
-    (job ? (job as { playerRef?: unknown }).playerRef : null) ??
-    null;
-  const bestPreviewFrameKey =
-    (playerRefRaw &&
-    typeof playerRefRaw === "object" &&
-    "best_preview_frame_key" in (playerRefRaw as Record<string, unknown>)
-      ? (playerRefRaw as { best_preview_frame_key?: string | null })
-          .best_preview_frame_key ?? null
-      : null) ??
-    (playerRefRaw &&
-    typeof playerRefRaw === "object" &&
-    "bestPreviewFrameKey" in (playerRefRaw as Record<string, unknown>)
-      ? (playerRefRaw as { bestPreviewFrameKey?: string | null })
-          .bestPreviewFrameKey ?? null
-      : null) ??
-    getSelectionFrameKey(playerRefRaw) ??
-    null;
+  const playerRefRaw = job?.playerRefRaw ?? null;
+  const bestPreviewFrameKey = getBestPreviewFrameKey(playerRefRaw);
   const selectedPlayerPreviewFrame =
     (bestPreviewFrameKey
       ? previewFramesWithImages.find(
@@ -969,10 +991,14 @@ export default function JobRunner() {
       : null) ?? null;
   const activePreviewRect = previewDragState
     ? {
-        left: Math.min(previewDragState.startX, previewDragState.currentX),
-        top: Math.min(previewDragState.startY, previewDragState.currentY),
-        width: Math.abs(previewDragState.currentX - previewDragState.startX),
-        height: Math.abs(previewDragState.currentY - previewDragState.startY)
+        left:
+          Math.min(previewDragState.startX, previewDragState.currentX) * previewZoom.scale +
+          previewZoom.x,
+        top:
+          Math.min(previewDragState.startY, previewDragState.currentY) * previewZoom.scale +
+          previewZoom.y,
+        width: Math.abs(previewDragState.currentX - previewDragState.startX) * previewZoom.scale,
+        height: Math.abs(previewDragState.currentY - previewDragState.startY) * previewZoom.scale
       }
     : null;
   const getTargetCandidatesForFrame = (frame: PreviewFrame | null) =>
@@ -1035,23 +1061,20 @@ export default function JobRunner() {
     ) {
       console.warn("SELECTION_OUT_OF_BOUNDS", selection);
     }
-    return {
-      left: selection.x * previewImageSize.width,
-      top: selection.y * previewImageSize.height,
-      width: selection.w * previewImageSize.width,
-      height: selection.h * previewImageSize.height
-    };
+    return getBBoxDisplayRect(selection);
   };
 
+  // Overlays sit outside the zoomed image, so the zoom is applied here.
   const getBBoxDisplayRect = (bbox: { x: number; y: number; w: number; h: number }) => {
     if (!previewImageSize) {
       return null;
     }
+    const { scale, x, y } = previewZoom;
     return {
-      left: bbox.x * previewImageSize.width,
-      top: bbox.y * previewImageSize.height,
-      width: bbox.w * previewImageSize.width,
-      height: bbox.h * previewImageSize.height
+      left: bbox.x * previewImageSize.width * scale + x,
+      top: bbox.y * previewImageSize.height * scale + y,
+      width: bbox.w * previewImageSize.width * scale,
+      height: bbox.h * previewImageSize.height * scale
     };
   };
 
@@ -1209,24 +1232,36 @@ export default function JobRunner() {
       return;
     }
 
+    if (jobEventsAvailable && supportsJobEvents()) {
+      if (!pollStartRef.current) {
+        pollStartRef.current = Date.now();
+      }
+      return subscribeToJobEvents(jobId, null, {
+        onJob: (nextJob) => {
+          if (Date.now() - (pollStartRef.current ?? Date.now()) > 60 * 60 * 1000) {
+            setPolling(false);
+            setPollingTimedOut(true);
+            return;
+          }
+          setJob(nextJob);
+          if (isTerminalJobStatus(nextJob.status)) {
+            setPolling(false);
+          }
+        },
+        onEnd: () => setPolling(false),
+        onError: (eventsError) => {
+          setError(toErrorMessage(eventsError));
+          setPolling(false);
+        },
+        onUnavailable: () => setJobEventsAvailable(false)
+      });
+    }
+
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
     let isMounted = true;
     let backoffMs = 2000;
     const maxBackoffMs = 8000;
 
-    const getPollInterval = (step?: string | null) => {
-      if (!step) {
-        return 3000;
-      }
-      if (step.toUpperCase().includes("TRACKING")) {
-        return 4000;
-      }
-      if (step.toUpperCase().includes("SCORING")) {
-        return 2000;
-      }
-      return 3000;
-    };
-
     const poll = async () => {
       if (!isMounted) {
         return;
@@ -1249,11 +1284,7 @@ export default function JobRunner() {
         setJob(normalizedJob);
         backoffMs = 2000;
 
-        if (
-          normalizedJob.status === "COMPLETED" ||
-          normalizedJob.status === "PARTIAL" ||
-          normalizedJob.status === "FAILED"
-        ) {
+        if (isTerminalJobStatus(normalizedJob.status)) {
           setPolling(false);
           return;
         }
@@ -1280,7 +1311,53 @@ export default function JobRunner() {
         clearTimeout(timeoutId);
       }
     };
-  }, [jobId, polling]);
+  }, [jobId, polling, jobEventsAvailable]);
+
+  const rehydrateFromJob = (restoredJob: JobResponse) => {
+    const restoredStatus = (restoredJob.status ?? "").toString().toUpperCase();
+    const restoredVideo = restoredJob.videoUrl ?? restoredJob.videoKey ?? "";
+    const restoredShirtNumber = restoredJob.shirtNumber ?? null;
+    setVideoUrl(restoredVideo);
+    if (typeof restoredJob.role === "string" && restoredJob.role) {
+      setRole(restoredJob.role);
+    }
+    if (typeof restoredJob.category === "string" && restoredJob.category) {
+      setCategory(restoredJob.category);
+    }
+    setTeamName(restoredJob.teamName ?? "");
+    setShirtNumber(restoredShirtNumber !== null ? String(restoredShirtNumber) : "");
+
+    const restoredSelections = restoredJob.target?.selections ?? [];
+    setTargetAnchors(restoredSelections.length > 1 ? restoredSelections : []);
+    const restoredSelection = restoredSelections[0] ?? null;
+    const restoredTrackId = restoredSelection?.trackId ?? null;
+    if (restoredTrackId && restoredTrackId !== "0") {
+      setSelectedTrackId(restoredTrackId);
+    }
+    if (restoredJob.playerRef) {
+      const restoredPlayerRefTime = getSelectionTimeSec(restoredJob.playerRef);
+      setPlayerRefSelection({ ...restoredJob.playerRef, frameTimeSec: restoredPlayerRefTime });
+      restoredPlayerRefTimeRef.current = restoredSelection ? null : restoredPlayerRefTime;
+      setGridMode("target");
+      getJobTrackCandidates(restoredJob.jobId ?? jobId ?? "")
+        .then(({ candidates, fallbackCandidates: fallbackList }) => {
+          setTrackCandidates(candidates);
+          setFallbackCandidates(fallbackList);
+        })
+        .catch((fetchError) => {
+          console.warn("[rehydrate] Track candidates unavailable", fetchError);
+        });
+    }
+
+    if (["QUEUED", "RUNNING", "COMPLETED", "PARTIAL", "FAILED"].includes(restoredStatus)) {
+      setFramesFrozen(true);
+    }
+    if (restoredStatus === "RUNNING" || restoredStatus === "QUEUED") {
+      setPolling(true);
+      setPollingTimedOut(false);
+      pollStartRef.current = Date.now();
+    }
+  };
 
   useEffect(() => {
     if (!jobId) {
@@ -1292,7 +1369,12 @@ export default function JobRunner() {
       try {
         const data = await getJob(jobId);
         if (isMounted) {
-          setJob(normalizeJob(data));
+          const normalizedJob = normalizeJob(data);
+          setJob(normalizedJob);
+          if (jobId === initialJobId && rehydratedJobIdRef.current !== jobId) {
+            rehydratedJobIdRef.current = jobId;
+            rehydrateFromJob(normalizedJob);
+          }
         }
       } catch (fetchError) {
         if (isMounted) {
@@ -1349,12 +1431,59 @@ export default function JobRunner() {
     }
   }, [jobTargetDraft, jobTargetSelection]);
 
+  useEffect(() => {
+    const restoredTime = restoredPlayerRefTimeRef.current;
+    if (restoredTime == null || previewFramesWithImages.length === 0) {
+      return;
+    }
+    restoredPlayerRefTimeRef.current = null;
+    const restoredFrame = getClosestPreviewFrame(previewFramesWithImages, restoredTime);
+    if (restoredFrame) {
+      setSelectedFrameKey(restoredFrame.key ?? null);
+      setSelectedFrameTimeSec(getSelectionTimeSec(restoredFrame) ?? restoredTime);
+    }
+  }, [previewFramesWithImages]);
+
   useEffect(() => {
     if (selectedTrackId) {
       setCandidateReview(null);
     }
   }, [selectedTrackId]);
 
+  // Shirt colours are only sampled once a kit colour is chosen, and each track once.
+  useEffect(() => {
+    if (!kitColor) {
+      return;
+    }
+    const pending = [...trackCandidates, ...fallbackCandidates].filter(
+      (candidate) => !(candidate.trackId in candidateKitColors)
+    );
+    if (pending.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    setSamplingKitColors(true);
+    Promise.all(
+      pending.map(
+        async (candidate) => [candidate.trackId, await sampleCandidateKitColor(candidate)] as const
+      )
+    )
+      .then((entries) => {
+        if (!cancelled) {
+          setCandidateKitColors((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setSamplingKitColors(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+      setSamplingKitColors(false);
+    };
+  }, [kitColor, trackCandidates, fallbackCandidates]);
+
   useEffect(() => {
     setPlayerSaved(hasPlayerRef);
     if (targetConfirmed) {
@@ -1457,8 +1586,7 @@ export default function JobRunner() {
       setSelectedFrameTimeSec(null);
       setIsManualTargetSelection(false);
       setSelectingTrackId(null);
-      setShowSecondaryCandidates(false);
-      setShowAllCandidates(false);
+      setCandidateFilters(defaultCandidateFilters);
       setAnalysisTrackId(null);
       setAnalysisFrameKey(null);
       setAnalysisJob(null);
@@ -1488,12 +1616,37 @@ export default function JobRunner() {
       return;
     }
 
-    let isMounted = true;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
     if (!analysisPollStartRef.current) {
       analysisPollStartRef.current = Date.now();
     }
 
+    if (jobEventsAvailable && supportsJobEvents()) {
+      setAnalysisPolling(true);
+      return subscribeToJobEvents(jobId, analysisTrackId, {
+        onJob: (updated) => {
+          const elapsedMs = Date.now() - (analysisPollStartRef.current ?? Date.now());
+          if (elapsedMs > 10 * 60 * 1000) {
+            setAnalysisError("Analysis polling timed out. Please retry.");
+            setAnalysisPolling(false);
+            return;
+          }
+          setAnalysisJob(updated);
+          if (isTerminalJobStatus(updated.status)) {
+            setAnalysisPolling(false);
+          }
+        },
+        onEnd: () => setAnalysisPolling(false),
+        onError: (eventsError) => {
+          setAnalysisError(toErrorMessage(eventsError));
+          setAnalysisPolling(false);
+        },
+        onUnavailable: () => setJobEventsAvailable(false)
+      });
+    }
+
+    let isMounted = true;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
     const pollAnalysis = async () => {
       try {
         const elapsedMs = Date.now() - (analysisPollStartRef.current ?? Date.now());
@@ -1531,7 +1684,7 @@ export default function JobRunner() {
         clearTimeout(timeoutId);
       }
     };
-  }, [jobId, analysisTrackId, analysisError, analysisRequesting]);
+  }, [jobId, analysisTrackId, analysisError, analysisRequesting, jobEventsAvailable]);
 
   useEffect(() => {
     if (showTargetSection) {
@@ -1578,6 +1731,9 @@ export default function JobRunner() {
     };
   }, [jobId]);
 
+  // Frames come from the track candidates endpoint, which job events do not
+  // cover. This only runs before enqueue: enqueueing (or restoring a queued
+  // job) freezes frames, and job events only start after that.
   useEffect(() => {
     if (!jobId || !shouldPollFrameList) {
       return;
@@ -1686,21 +1842,55 @@ export default function JobRunner() {
     previewImageErrorCount
   ]);
 
+  // Stepping frames with [ and ] swaps the frame without reopening the modal,
+  // so focus only moves on open and close.
+  const isPreviewOpen = selectedPreviewFrame !== null;
   useEffect(() => {
-    if (selectedPreviewFrame) {
+    if (isPreviewOpen) {
       lastFocusedElementRef.current = document.activeElement as HTMLElement;
       requestAnimationFrame(() => {
-        previewCloseButtonRef.current?.focus();
+        (previewCanvasRef.current ?? previewCloseButtonRef.current)?.focus();
       });
     } else {
       lastFocusedElementRef.current?.focus();
     }
-  }, [selectedPreviewFrame]);
+  }, [isPreviewOpen]);
 
-  const handleCreateJob = async () => {
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    if (!isPreviewOpen || !canvas) {
+      return;
+    }
+    // React wheel listeners are passive, so the page would scroll as well.
+    const handleWheel = (event: WheelEvent) => {
+      const image = previewImageRef.current;
+      if (!image) {
+        return;
+      }
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const point = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setPreviewZoom((prev) =>
+        zoomAroundPoint(
+          prev,
+          getWheelZoomScale(prev.scale, event.deltaY),
+          point,
+          image.clientWidth,
+          image.clientHeight
+        )
+      );
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [isPreviewOpen]);
+
+  const handleCreateJob = async (
+    uploadedVideo?: CreateJobVideoPayload,
+    uploadToken: string | null = null
+  ) => {
     setError(null);
     const trimmedVideo = videoUrl.trim();
-    if (!trimmedVideo) {
+    if (!uploadedVideo && !trimmedVideo) {
       setError("Video URL or key is required.");
       return;
     }
@@ -1710,21 +1900,34 @@ export default function JobRunner() {
     setSubmitting(true);
     try {
       const isHttpUrl = /^https?:\/\//i.test(trimmedVideo);
-      const response = await createJob({
-        ...(isHttpUrl
+      const videoSource: CreateJobVideoPayload =
+        uploadedVideo ??
+        (isHttpUrl
           ? { video_url: trimmedVideo }
-          : { video_key: trimmedVideo, video_bucket: "fnh" }),
-        role,
-        category,
-        ...(trimmedTeamName ? { team_name: trimmedTeamName } : {}),
-        ...(normalizedShirtNumber !== null && !Number.isNaN(normalizedShirtNumber)
-          ? { shirt_number: normalizedShirtNumber }
-          : {})
-      });
+          : { video_key: trimmedVideo, video_bucket: "fnh" });
+      const response = await createJob(
+        {
+          ...videoSource,
+          role,
+          category,
+          ...(trimmedTeamName ? { team_name: trimmedTeamName } : {}),
+          ...(normalizedShirtNumber !== null && !Number.isNaN(normalizedShirtNumber)
+            ? { shirt_number: normalizedShirtNumber }
+            : {})
+        },
+        uploadToken
+      );
       const nextJobId = response.jobId ?? null;
       setJobId(nextJobId);
+      if (nextJobId) {
+        window.history.replaceState(null, "", `/jobs/${encodeURIComponent(nextJobId)}`);
+      }
       setJob({ jobId: response.jobId, status: response.status });
       setTargetSelection(null);
+      setTargetAnchors([]);
+      setEditingAnchorIndex(null);
+      setKitColor(null);
+      setCandidateKitColors({});
       setSelectionSuccess(null);
       setSelectionWarning(null);
       setSelectedPreviewFrame(null);
@@ -1735,17 +1938,22 @@ export default function JobRunner() {
       setTargetSaved(false);
       setTrackCandidates([]);
       setFallbackCandidates([]);
-      setShowSecondaryCandidates(false);
-      setShowAllCandidates(false);
+      setCandidateFilters(defaultCandidateFilters);
       setSelectedTrackId(null);
       setSelectedFrameKey(null);
       setSelectedFrameTimeSec(null);
       setIsManualTargetSelection(false);
       setCandidateReview(null);
+      setCompareTrackIds([]);
       setSelectingTrackId(null);
       setGridMode("player-ref");
     } catch (createError) {
-      setError(toErrorMessage(createError));
+      const retryAfterSec = getRetryAfterSec(createError);
+      if (retryAfterSec !== null) {
+        setRateLimitedUntil(Date.now() + retryAfterSec * 1000);
+      } else {
+        setError(toErrorMessage(createError));
+      }
     } finally {
       setSubmitting(false);
     }
@@ -1770,7 +1978,12 @@ export default function JobRunner() {
       setFramesFrozen(true);
       setSelectedPreviewFrame(null);
     } catch (enqueueError) {
-      setError(toErrorMessage(enqueueError));
+      const retryAfterSec = getRetryAfterSec(enqueueError);
+      if (retryAfterSec !== null) {
+        setRateLimitedUntil(Date.now() + retryAfterSec * 1000);
+      } else {
+        setError(toErrorMessage(enqueueError));
+      }
     } finally {
       setSubmitting(false);
     }
@@ -1787,8 +2000,7 @@ export default function JobRunner() {
         await getJobTrackCandidates(jobId);
       setTrackCandidates(candidates);
       setFallbackCandidates(fallbackList);
-      setShowSecondaryCandidates(false);
-      setShowAllCandidates(false);
+      setCandidateFilters(defaultCandidateFilters);
     } catch (fetchError) {
       setTrackCandidates([]);
       setFallbackCandidates([]);
@@ -1813,15 +2025,7 @@ export default function JobRunner() {
 
   const openTargetModalFromJob = (updatedJob: JobResponse) => {
     const selection =
-      normalizeTargetSelection(
-        updatedJob.target &&
-          typeof updatedJob.target === "object" &&
-          "selection" in (updatedJob.target as Record<string, unknown>)
-          ? (updatedJob.target as { selection?: unknown }).selection ?? null
-          : null
-      ) ??
-      updatedJob.target?.selections?.[0] ??
-      null;
+      updatedJob.target?.selection ?? updatedJob.target?.selections?.[0] ?? null;
     if (!selection) {
       setSelectionError("Draft target non presente nel job. Verifica backend.");
       return;
@@ -1855,6 +2059,7 @@ export default function JobRunner() {
       }
       setSelectedTrackId(trackId);
       setCandidateReview(null);
+      setCompareTrackIds([]);
       openTargetModalFromJob(updatedJob);
     } catch (selectError) {
       const errorCode =
@@ -1897,6 +2102,34 @@ export default function JobRunner() {
     await handlePickPlayer(candidate.trackId, frameKey);
   };
 
+  const handlePickCompareWinner = async (candidate: TrackCandidate) => {
+    if (!jobId) {
+      return;
+    }
+    const selection = getCandidateSelection(candidate);
+    if (!selection) {
+      setPlayerCandidateError(
+        "Missing selection data for this candidate. Check sample frames mapping."
+      );
+      return;
+    }
+    setPlayerCandidateError(null);
+    setSelectingTrackId(candidate.trackId);
+    try {
+      await selectJobTrack(jobId, { ...candidate, ...selection });
+      const updatedJob = await getJob(jobId);
+      setJob(updatedJob);
+      setSelectedTrackId(candidate.trackId);
+      setCandidateReview(null);
+      setCompareTrackIds([]);
+      openTargetModalFromJob(updatedJob);
+    } catch (selectError) {
+      setPlayerCandidateError(toErrorMessage(selectError));
+    } finally {
+      setSelectingTrackId(null);
+    }
+  };
+
   const handleSelectCandidateFrame = async (
     frame: PreviewFrame,
     candidate?: TrackCandidate | null
@@ -2005,12 +2238,35 @@ export default function JobRunner() {
     setCandidateReview(candidate);
   };
 
+  const buildDraftTargetAnchor = (): TargetSelection | null => {
+    if (!draftTargetSelection) {
+      return null;
+    }
+    const frameTimeSec =
+      selectedFrameTimeSec ??
+      getSelectionTimeSec(draftTargetSelection) ??
+      selectedPreviewFrame?.timeSec ??
+      null;
+    if (frameTimeSec == null) {
+      return null;
+    }
+    return {
+      frame_time_sec: frameTimeSec,
+      frame_key: selectedPreviewFrame?.key ?? selectedFrameKey ?? null,
+      trackId: isManualTargetSelection ? null : selectedTrackId,
+      x: draftTargetSelection.x,
+      y: draftTargetSelection.y,
+      w: draftTargetSelection.w,
+      h: draftTargetSelection.h
+    };
+  };
+
   const submitTargetSelection = async (force?: boolean, closeOnSuccess?: boolean) => {
     if (!jobId) {
       return;
     }
     const selection = draftTargetSelection;
-    if (!selection) {
+    if (!selection && targetAnchors.length === 0) {
       setOverlayToast("Select a target box first");
       return;
     }
@@ -2019,40 +2275,51 @@ export default function JobRunner() {
       selectedCandidate?.best_preview_frame_key ??
       null;
     const frameKey = candidateBestPreviewFrameKey ?? null;
-    const frameTimeSec =
-      selectedFrameTimeSec ??
-      getSelectionTimeSec(selection) ??
-      selectedPreviewFrame?.timeSec ??
-      null;
-    if (frameTimeSec == null) {
+    const frameTimeSec = selection
+      ? selectedFrameTimeSec ??
+        getSelectionTimeSec(selection) ??
+        selectedPreviewFrame?.timeSec ??
+        null
+      : null;
+    if (selection && frameTimeSec == null) {
       setSelectionError("Frame missing time_sec.");
       return;
     }
-    const bbox = {
-      x: selection.x,
-      y: selection.y,
-      w: selection.w,
-      h: selection.h
-    };
+    const anchors =
+      targetAnchors.length > 0
+        ? mergeTargetAnchor(targetAnchors, buildDraftTargetAnchor(), editingAnchorIndex)
+        : [];
     setSelectionError(null);
     setSelectionSuccess(null);
     setSelectionWarning(null);
     setSelectionRequestId(null);
     setSavingSelection(true);
     try {
-      await saveJobTargetSelection(jobId, {
-        frameKey,
-        timeSec: frameTimeSec,
-        trackId: isManualTargetSelection ? 0 : selectedTrackId ?? 0,
-        bbox,
-        ...(force ? { force: true } : {})
-      });
+      if (anchors.length > 0) {
+        await saveJobTargetSelections(jobId, anchors.map(toTargetAnchorPayload), { force });
+      } else if (selection) {
+        await saveJobTargetSelection(jobId, {
+          frameKey,
+          timeSec: frameTimeSec,
+          trackId: isManualTargetSelection ? 0 : selectedTrackId ?? 0,
+          bbox: {
+            x: selection.x,
+            y: selection.y,
+            w: selection.w,
+            h: selection.h
+          },
+          ...(force ? { force: true } : {})
+        });
+      }
       const updatedJob = await getJob(jobId);
       setJob(updatedJob);
-      const updatedSelection = updatedJob.target?.selections?.[0] ?? null;
+      const updatedSelections = updatedJob.target?.selections ?? [];
+      const updatedSelection = updatedSelections[0] ?? null;
       const updatedTargetConfirmed = Boolean(updatedJob.target?.confirmed);
       setTargetSelection(updatedSelection);
       setDraftTargetSelection(updatedSelection);
+      setTargetAnchors(updatedSelections.length > 1 ? updatedSelections : []);
+      setEditingAnchorIndex(null);
       setTargetSaved(updatedTargetConfirmed);
       if (updatedTargetConfirmed) {
         setSelectionSuccess("Selection confirmed");
@@ -2145,9 +2412,15 @@ export default function JobRunner() {
     const selectionTime = selection ? getSelectionTimeSec(selection) : null;
     setSelectedFrameKey(selectionKey ?? frame.key ?? null);
     setSelectedFrameTimeSec(selectionTime ?? frame.timeSec ?? null);
-    setPlayerRefSelection(null);
+    // Reopening the frame a restored or saved player ref was drawn on keeps its box.
+    setPlayerRefSelection((prev) =>
+      mode === "player-ref" && prev && prev.frameTimeSec === getSelectionTimeSec(frame)
+        ? prev
+        : null
+    );
     setPreviewDragState(null);
     setTargetAdjustState(null);
+    resetPreviewGestures();
     setPlayerRefError(null);
     if (mode === "target") {
       setSelectionError(null);
@@ -2156,61 +2429,292 @@ export default function JobRunner() {
     }
   };
 
+  const handleUseScrubbedFrame = async (timeSec: number) => {
+    if (!jobId) {
+      return;
+    }
+    setScrubberError(null);
+    try {
+      const frame = await getJobFrameAt(jobId, timeSec);
+      handleOpenPreview(frame, "player-ref");
+    } catch (frameError) {
+      setScrubberError(toErrorMessage(frameError));
+    }
+  };
+
   const handleClosePreview = () => {
     setSelectedPreviewFrame(null);
     setPlayerRefSelection(null);
     setPreviewDragState(null);
     setTargetAdjustState(null);
+    setEditingAnchorIndex(null);
+    setKeyboardBoxMode("move");
+    resetPreviewGestures();
   };
 
-  const handlePreviewMouseDown = (event: MouseEvent<HTMLDivElement>) => {
-    const image = previewImageRef.current;
-    if (!image) {
+  const selectionHistory = jobId ? selectionHistories[jobId] ?? null : null;
+
+  const getSelectionSnapshot = (): SelectionSnapshot => ({
+    previewMode,
+    frame: selectedPreviewFrame,
+    frameKey: selectedFrameKey,
+    frameTimeSec: selectedFrameTimeSec,
+    playerRef: playerRefSelection,
+    draftTarget: draftTargetSelection,
+    target: targetSelection,
+    trackId: selectedTrackId,
+    isManual: isManualTargetSelection
+  });
+
+  const recordSelectionHistory = (overrides: Partial<SelectionSnapshot> = {}) => {
+    if (!jobId) {
       return;
     }
-    if (previewMode === "target" && targetAdjustState) {
-      return;
+    const snapshot = { ...getSelectionSnapshot(), ...overrides };
+    setSelectionHistories((prev) => ({
+      ...prev,
+      [jobId]: pushUndoStep(prev[jobId] ?? emptyUndoHistory<SelectionSnapshot>(), snapshot)
+    }));
+  };
+
+  // Holding an arrow key should undo as one step, not one pixel at a time.
+  const recordNudgeHistory = () => {
+    const now = Date.now();
+    if (now - nudgeHistoryAtRef.current > UNDO_COALESCE_MS) {
+      recordSelectionHistory();
     }
-    const rect = image.getBoundingClientRect();
-    const startX = event.clientX - rect.left;
-    const startY = event.clientY - rect.top;
+    nudgeHistoryAtRef.current = now;
+  };
 
-    setPreviewDragState({
-      startX,
-      startY,
-      currentX: startX,
-      currentY: startY
-    });
+  const applySelectionSnapshot = (snapshot: SelectionSnapshot) => {
+    setPreviewMode(snapshot.previewMode);
+    setSelectedPreviewFrame(snapshot.frame);
+    setSelectedFrameKey(snapshot.frameKey);
+    setSelectedFrameTimeSec(snapshot.frameTimeSec);
+    setPlayerRefSelection(snapshot.playerRef);
+    setDraftTargetSelection(snapshot.draftTarget);
+    setTargetSelection(snapshot.target);
+    setSelectedTrackId(snapshot.trackId);
+    setIsManualTargetSelection(snapshot.isManual);
+    setPreviewDragState(null);
+    setTargetAdjustState(null);
+    nudgeHistoryAtRef.current = 0;
   };
 
-  const handlePreviewMouseMove = (event: MouseEvent<HTMLDivElement>) => {
-    if (targetAdjustState) {
-      const image = previewImageRef.current;
-      if (!image) {
-        return;
-      }
-      const rect = image.getBoundingClientRect();
-      const currentX = event.clientX - rect.left;
-      const currentY = event.clientY - rect.top;
-      const dx = currentX - targetAdjustState.startX;
-      const dy = currentY - targetAdjustState.startY;
-      const width = image.clientWidth || rect.width;
-      const height = image.clientHeight || rect.height;
-      if (!width || !height) {
-        return;
-      }
-      const dxNorm = dx / width;
-      const dyNorm = dy / height;
-      const minSize = 0.02;
-      const origin = targetAdjustState.origin;
-      let next = { ...origin };
+  const handleUndoSelection = () => {
+    const result =
+      jobId && selectionHistory ? undoStep(selectionHistory, getSelectionSnapshot()) : null;
+    if (!jobId || !result) {
+      return;
+    }
+    setSelectionHistories((prev) => ({ ...prev, [jobId]: result.history }));
+    applySelectionSnapshot(result.snapshot);
+  };
 
-      if (targetAdjustState.mode === "move") {
-        const maxX = 1 - origin.w;
-        const maxY = 1 - origin.h;
-        next.x = Math.min(Math.max(origin.x + dxNorm, 0), maxX);
-        next.y = Math.min(Math.max(origin.y + dyNorm, 0), maxY);
-      }
+  const handleRedoSelection = () => {
+    const result =
+      jobId && selectionHistory ? redoStep(selectionHistory, getSelectionSnapshot()) : null;
+    if (!jobId || !result) {
+      return;
+    }
+    setSelectionHistories((prev) => ({ ...prev, [jobId]: result.history }));
+    applySelectionSnapshot(result.snapshot);
+  };
+
+  const getPreviewImagePoint = (event: PointerEvent<HTMLDivElement>) => {
+    const image = previewImageRef.current;
+    if (!image) {
+      return null;
+    }
+    // The bounding rect includes the zoom; client sizes don't.
+    const rect = image.getBoundingClientRect();
+    if (!rect.width || !rect.height) {
+      return null;
+    }
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * image.clientWidth,
+      y: ((event.clientY - rect.top) / rect.height) * image.clientHeight
+    };
+  };
+
+  const getPreviewCanvasPoint = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const cancelPreviewLongPress = () => {
+    if (previewLongPressRef.current) {
+      clearTimeout(previewLongPressRef.current.timeoutId);
+      previewLongPressRef.current = null;
+    }
+  };
+
+  const resetPreviewGestures = () => {
+    cancelPreviewLongPress();
+    previewPointersRef.current.clear();
+    previewPinchRef.current = null;
+    previewPanRef.current = null;
+    previewGestureLockedRef.current = false;
+    setPreviewZoom(defaultPreviewZoom);
+  };
+
+  const handlePreviewPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === "mouse" && event.button === 1) {
+      // Middle-button drag pans the zoomed frame.
+      event.preventDefault();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      previewPanRef.current = { origin: getPreviewCanvasPoint(event), zoom: previewZoom };
+      return;
+    }
+    if (event.pointerType === "mouse" && event.button !== 0) {
+      return;
+    }
+    previewPointerTypeRef.current = event.pointerType;
+    const pointers = previewPointersRef.current;
+    pointers.set(event.pointerId, getPreviewCanvasPoint(event));
+    cancelPreviewLongPress();
+    if (pointers.size === 2) {
+      const [first, second] = Array.from(pointers.values());
+      event.currentTarget.setPointerCapture(event.pointerId);
+      previewPinchRef.current = {
+        zoom: previewZoom,
+        midpoint: getPointerMidpoint(first, second),
+        distance: getPointerDistance(first, second)
+      };
+      previewGestureLockedRef.current = true;
+      setPreviewDragState(null);
+      setTargetAdjustState(null);
+      return;
+    }
+    if (pointers.size > 2 || previewGestureLockedRef.current) {
+      return;
+    }
+    const point = getPreviewImagePoint(event);
+    if (!point) {
+      return;
+    }
+    const element = event.target as HTMLElement;
+    const adjustMode = element.closest<HTMLElement>("[data-adjust]")?.dataset.adjust as
+      | TargetAdjustMode
+      | undefined;
+    if (previewMode === "target" && adjustMode && draftTargetSelection) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setTargetAdjustState({
+        mode: adjustMode,
+        startX: point.x,
+        startY: point.y,
+        origin: draftTargetSelection
+      });
+      return;
+    }
+    const trackIndex = element.closest<HTMLElement>("[data-track-index]")?.dataset.trackIndex;
+    if (trackIndex !== undefined) {
+      // A mouse click selects the track; touch and pen draw through it and
+      // select it with a long press instead.
+      if (event.pointerType === "mouse") {
+        return;
+      }
+      const track = getTargetCandidatesForFrame(selectedPreviewFrame)[Number(trackIndex)];
+      if (track) {
+        previewLongPressRef.current = {
+          origin: getPreviewCanvasPoint(event),
+          timeoutId: setTimeout(() => {
+            previewLongPressRef.current = null;
+            previewGestureLockedRef.current = true;
+            setPreviewDragState(null);
+            handleSelectPreviewTrack(track);
+          }, LONG_PRESS_MS)
+        };
+      }
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setPreviewDragState({
+      startX: point.x,
+      startY: point.y,
+      currentX: point.x,
+      currentY: point.y
+    });
+  };
+
+  const handlePreviewPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const pan = previewPanRef.current;
+    const image = previewImageRef.current;
+    if (pan) {
+      if (image) {
+        const canvasPoint = getPreviewCanvasPoint(event);
+        setPreviewZoom(
+          clampPreviewZoom(
+            {
+              scale: pan.zoom.scale,
+              x: pan.zoom.x + canvasPoint.x - pan.origin.x,
+              y: pan.zoom.y + canvasPoint.y - pan.origin.y
+            },
+            image.clientWidth,
+            image.clientHeight
+          )
+        );
+      }
+      return;
+    }
+    const pointers = previewPointersRef.current;
+    if (!pointers.has(event.pointerId)) {
+      return;
+    }
+    const canvasPoint = getPreviewCanvasPoint(event);
+    pointers.set(event.pointerId, canvasPoint);
+    const pinch = previewPinchRef.current;
+    if (pinch && pointers.size >= 2) {
+      if (!image) {
+        return;
+      }
+      const [first, second] = Array.from(pointers.values());
+      setPreviewZoom(
+        getPinchZoom(
+          pinch.zoom,
+          pinch.midpoint,
+          pinch.distance,
+          getPointerMidpoint(first, second),
+          getPointerDistance(first, second),
+          image.clientWidth,
+          image.clientHeight
+        )
+      );
+      return;
+    }
+    const longPress = previewLongPressRef.current;
+    if (longPress && getPointerDistance(longPress.origin, canvasPoint) > LONG_PRESS_SLOP_PX) {
+      cancelPreviewLongPress();
+    }
+    if (previewGestureLockedRef.current) {
+      return;
+    }
+    const point = getPreviewImagePoint(event);
+    if (!point) {
+      return;
+    }
+    if (targetAdjustState) {
+      if (!image) {
+        return;
+      }
+      const dx = point.x - targetAdjustState.startX;
+      const dy = point.y - targetAdjustState.startY;
+      const width = image.clientWidth;
+      const height = image.clientHeight;
+      if (!width || !height) {
+        return;
+      }
+      const dxNorm = dx / width;
+      const dyNorm = dy / height;
+      const minSize = 0.02;
+      const origin = targetAdjustState.origin;
+      let next = { ...origin };
+
+      if (targetAdjustState.mode === "move") {
+        const maxX = 1 - origin.w;
+        const maxY = 1 - origin.h;
+        next.x = Math.min(Math.max(origin.x + dxNorm, 0), maxX);
+        next.y = Math.min(Math.max(origin.y + dyNorm, 0), maxY);
+      }
 
       if (targetAdjustState.mode === "resize-se") {
         next.w = Math.min(Math.max(origin.w + dxNorm, minSize), 1 - origin.x);
@@ -2249,19 +2753,12 @@ export default function JobRunner() {
     if (!previewDragState) {
       return;
     }
-    const image = previewImageRef.current;
-    if (!image) {
-      return;
-    }
-    const rect = image.getBoundingClientRect();
-    const currentX = event.clientX - rect.left;
-    const currentY = event.clientY - rect.top;
     setPreviewDragState((prev) =>
       prev
         ? {
             ...prev,
-            currentX,
-            currentY
+            currentX: point.x,
+            currentY: point.y
           }
         : prev
     );
@@ -2286,8 +2783,34 @@ export default function JobRunner() {
     });
   };
 
-  const handlePreviewMouseUp = () => {
+  const handlePreviewPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (previewPanRef.current) {
+      previewPanRef.current = null;
+      return;
+    }
+    const pointers = previewPointersRef.current;
+    if (!pointers.delete(event.pointerId)) {
+      return;
+    }
+    cancelPreviewLongPress();
+    if (pointers.size < 2) {
+      previewPinchRef.current = null;
+    }
+    if (previewGestureLockedRef.current) {
+      if (pointers.size === 0) {
+        previewGestureLockedRef.current = false;
+      }
+      return;
+    }
+    if (event.type === "pointercancel") {
+      setPreviewDragState(null);
+      setTargetAdjustState(null);
+      return;
+    }
     if (targetAdjustState) {
+      if (!isSameSelection(targetAdjustState.origin, draftTargetSelection)) {
+        recordSelectionHistory({ draftTarget: targetAdjustState.origin });
+      }
       setTargetAdjustState(null);
       return;
     }
@@ -2347,6 +2870,7 @@ export default function JobRunner() {
         "Normalized bbox outside frame",
         normalized
       );
+      recordSelectionHistory();
       if (previewMode === "player-ref") {
         setPlayerRefSelection({
           frameTimeSec: selectedPreviewFrame.timeSec,
@@ -2372,6 +2896,7 @@ export default function JobRunner() {
       setSelectionError("Missing selection data for this track.");
       return;
     }
+    recordSelectionHistory();
     setSelectedTrackId(track.trackId);
     setIsManualTargetSelection(false);
     setTargetSelectionFromBBox(selectedPreviewFrame, {
@@ -2382,6 +2907,178 @@ export default function JobRunner() {
     });
   };
 
+  const handleFixTrackFrame = (frame: PreviewFrame, bbox: NormalizedBBox | null) => {
+    handleOpenPreview(frame, "target");
+    if (bbox) {
+      setIsManualTargetSelection(false);
+      setTargetSelectionFromBBox(frame, bbox);
+    }
+  };
+
+  const handleAddTargetAnchor = () => {
+    const anchor = buildDraftTargetAnchor();
+    if (!anchor) {
+      setSelectionError("Frame missing time_sec.");
+      return;
+    }
+    const nextAnchors = mergeTargetAnchor(targetAnchors, anchor, editingAnchorIndex);
+    if (nextAnchors === targetAnchors) {
+      setOverlayToast("This anchor is already in the list");
+      return;
+    }
+    setTargetAnchors(nextAnchors);
+    setOverlayToast(
+      editingAnchorIndex !== null
+        ? `Anchor ${editingAnchorIndex + 1} updated`
+        : `Anchor ${nextAnchors.length} added`
+    );
+    handleClosePreview();
+  };
+
+  const handleEditTargetAnchor = (index: number, frame: PreviewFrame | null) => {
+    const anchor = targetAnchors[index];
+    if (!anchor) {
+      return;
+    }
+    if (!frame) {
+      setSelectionError("The frame for this anchor is not among the preview frames.");
+      return;
+    }
+    const trackId = anchor.trackId ?? anchor.track_id ?? null;
+    handleOpenPreview(frame, "target", anchor);
+    if (trackId && trackId !== "0") {
+      setSelectedTrackId(trackId);
+      setIsManualTargetSelection(false);
+    } else {
+      setIsManualTargetSelection(true);
+    }
+    setDraftTargetSelection(anchor);
+    setEditingAnchorIndex(index);
+  };
+
+  const handleRemoveTargetAnchor = (index: number) => {
+    setTargetAnchors((prev) => prev.filter((_, position) => position !== index));
+    setEditingAnchorIndex(null);
+  };
+
+  const handleMoveTargetAnchor = (from: number, to: number) => {
+    setTargetAnchors((prev) => {
+      if (to < 0 || to >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+    setEditingAnchorIndex(null);
+  };
+
+  const handleStepPreviewFrame = (direction: 1 | -1) => {
+    if (!selectedPreviewFrame) {
+      return;
+    }
+    const frames = [...resolvedPreviewFrames].sort(
+      (a, b) => (a.timeSec ?? Number.POSITIVE_INFINITY) - (b.timeSec ?? Number.POSITIVE_INFINITY)
+    );
+    const position = frames.findIndex((frame) => frame.key === selectedPreviewFrame.key);
+    const next = frames[position + direction];
+    if (position === -1 || !next) {
+      return;
+    }
+    recordSelectionHistory();
+    handleOpenPreview(next, previewMode);
+  };
+
+  const handleCycleTargetTrack = (direction: 1 | -1) => {
+    const tracks = getTargetCandidatesForFrame(selectedPreviewFrame).filter((track) =>
+      Boolean(getSelectionBBox(track))
+    );
+    if (tracks.length === 0) {
+      return false;
+    }
+    const current = isManualTargetSelection
+      ? -1
+      : tracks.findIndex((track) => track.trackId === selectedTrackId);
+    const next =
+      current === -1
+        ? direction === 1
+          ? 0
+          : tracks.length - 1
+        : (current + direction + tracks.length) % tracks.length;
+    handleSelectPreviewTrack(tracks[next]);
+    return true;
+  };
+
+  const handleNudgePreviewBox = (dx: number, dy: number, byPercent: boolean) => {
+    const image = previewImageRef.current;
+    const width = image?.naturalWidth || image?.clientWidth || 0;
+    const height = image?.naturalHeight || image?.clientHeight || 0;
+    if (!selectedPreviewFrame || (!byPercent && (!width || !height))) {
+      return;
+    }
+    const stepX = byPercent ? BBOX_PERCENT_STEP : 1 / width;
+    const stepY = byPercent ? BBOX_PERCENT_STEP : 1 / height;
+    if (previewMode === "player-ref") {
+      if (playerRefSelection) {
+        recordNudgeHistory();
+        setPlayerRefSelection({
+          ...playerRefSelection,
+          ...nudgeBBox(playerRefSelection, keyboardBoxMode, dx * stepX, dy * stepY)
+        });
+      }
+      return;
+    }
+    if (
+      draftTargetSelection &&
+      selectionMatchesFrame(draftTargetSelection, selectedPreviewFrame)
+    ) {
+      recordNudgeHistory();
+      setDraftTargetSelection({
+        ...draftTargetSelection,
+        ...nudgeBBox(draftTargetSelection, keyboardBoxMode, dx * stepX, dy * stepY)
+      });
+    }
+  };
+
+  const handleCreateKeyboardBox = () => {
+    if (!selectedPreviewFrame) {
+      return;
+    }
+    const bbox = createCenteredBBox();
+    recordSelectionHistory();
+    if (previewMode === "player-ref") {
+      setPlayerRefSelection({ frameTimeSec: selectedPreviewFrame.timeSec, ...bbox });
+      return;
+    }
+    setIsManualTargetSelection(true);
+    setTargetSelectionFromBBox(selectedPreviewFrame, bbox);
+  };
+
+  const handleZoomPreview = (factor: number) => {
+    const image = previewImageRef.current;
+    if (!image) {
+      return;
+    }
+    const width = image.clientWidth;
+    const height = image.clientHeight;
+    setPreviewZoom((prev) =>
+      zoomAroundPoint(prev, prev.scale * factor, { x: width / 2, y: height / 2 }, width, height)
+    );
+  };
+
+  const handleConfirmPreview = () => {
+    if (previewMode === "player-ref") {
+      if (playerRefSelection && !savingPlayerRef && !playerRefMissingTime) {
+        handleSavePlayerRef();
+      }
+      return;
+    }
+    if (!targetSelectionsEmpty && !savingSelection) {
+      submitTargetSelection(false, true);
+    }
+  };
+
   const handlePreviewKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
     if (event.key === "Escape") {
       event.preventDefault();
@@ -2389,10 +3086,66 @@ export default function JobRunner() {
       return;
     }
 
+    const target = event.target as HTMLElement;
+    const isTyping = ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName);
+    if (!isTyping && (event.ctrlKey || event.metaKey) && !event.altKey) {
+      const key = event.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        event.preventDefault();
+        if (key === "y" || event.shiftKey) {
+          handleRedoSelection();
+        } else {
+          handleUndoSelection();
+        }
+        return;
+      }
+    }
+    if (!isTyping && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      const delta = getArrowDelta(event.key);
+      if (delta) {
+        event.preventDefault();
+        handleNudgePreviewBox(delta[0], delta[1], event.shiftKey);
+        return;
+      }
+      // Buttons and links already act on Enter.
+      if (event.key === "Enter" && !["BUTTON", "A"].includes(target.tagName)) {
+        event.preventDefault();
+        handleConfirmPreview();
+        return;
+      }
+      const shortcuts: Record<string, () => void> = {
+        "[": () => handleStepPreviewFrame(-1),
+        "]": () => handleStepPreviewFrame(1),
+        r: () => setKeyboardBoxMode((prev) => (prev === "move" ? "resize" : "move")),
+        n: handleCreateKeyboardBox,
+        "+": () => handleZoomPreview(PREVIEW_ZOOM_STEP),
+        "=": () => handleZoomPreview(PREVIEW_ZOOM_STEP),
+        "-": () => handleZoomPreview(1 / PREVIEW_ZOOM_STEP),
+        "0": () => setPreviewZoom(defaultPreviewZoom),
+        "?": () => setShowPreviewShortcuts((prev) => !prev)
+      };
+      const shortcut = shortcuts[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+      if (shortcut) {
+        event.preventDefault();
+        shortcut();
+        return;
+      }
+    }
+
     if (event.key !== "Tab") {
       return;
     }
 
+    // Inside the frame, Tab cycles the tracked boxes instead of moving focus.
+    if (
+      previewMode === "target" &&
+      target === previewCanvasRef.current &&
+      handleCycleTargetTrack(event.shiftKey ? -1 : 1)
+    ) {
+      event.preventDefault();
+      return;
+    }
+
     const modal = previewModalRef.current;
     if (!modal) {
       return;
@@ -2548,6 +3301,9 @@ export default function JobRunner() {
   };
 
   const handleReset = () => {
+    if (jobId) {
+      window.history.replaceState(null, "", "/");
+    }
     setVideoUrl("");
     setRole("Striker");
     setCategory("U17");
@@ -2557,6 +3313,10 @@ export default function JobRunner() {
     setJob(null);
     setTargetSelection(null);
     setDraftTargetSelection(null);
+    setTargetAnchors([]);
+    setEditingAnchorIndex(null);
+    setKitColor(null);
+    setCandidateKitColors({});
     setError(null);
     setSelectionError(null);
     setSelectionSuccess(null);
@@ -2574,15 +3334,16 @@ export default function JobRunner() {
     setFallbackCandidates([]);
     setLoadingTrackCandidates(false);
     setCandidatePolling(false);
-    setShowSecondaryCandidates(false);
-    setShowAllCandidates(false);
+    setCandidateFilters(defaultCandidateFilters);
     setSelectedTrackId(null);
     setSelectedFrameKey(null);
     setSelectedFrameTimeSec(null);
     setIsManualTargetSelection(false);
     setCandidateReview(null);
+    setCompareTrackIds([]);
     setSelectingTrackId(null);
     setGridMode("player-ref");
+    setSelectionHistories({});
     setPreviewDragState(null);
     setTargetAdjustState(null);
     setPreviewFrames([]);
@@ -2663,7 +3424,17 @@ export default function JobRunner() {
   const playerRefMissingTime = playerRefSelection?.frameTimeSec == null;
   const targetMissingTime =
     draftTargetSelection ? getSelectionTimeSec(draftTargetSelection) == null : false;
-  const targetSelections = draftTargetSelection ? [draftTargetSelection] : [];
+  const draftTargetAnchor = buildDraftTargetAnchor();
+  const draftIsNewAnchor =
+    draftTargetAnchor !== null &&
+    editingAnchorIndex === null &&
+    !targetAnchors.some((anchor) => isSameSelection(anchor, draftTargetAnchor));
+  const targetSelections =
+    targetAnchors.length > 0
+      ? mergeTargetAnchor(targetAnchors, draftTargetAnchor, editingAnchorIndex)
+      : draftTargetSelection
+      ? [draftTargetSelection]
+      : [];
   const targetSelectionsEmpty = targetSelections.length === 0;
   const targetInvalidReason = useMemo(() => {
     if (!draftTargetSelection) {
@@ -2681,6 +3452,255 @@ export default function JobRunner() {
     return null;
   }, [draftTargetSelection]);
   const selectedFrameMissingTime = selectedPreviewFrame?.timeSec == null;
+  const keyboardBoxVerb = keyboardBoxMode === "move" ? "Move" : "Resize";
+  const previewImageTransform = `translate(${previewZoom.x}px, ${previewZoom.y}px) scale(${previewZoom.scale})`;
+
+  const renderPlayerRefCandidateCard = (candidate: TrackCandidate) => {
+    const sampleFrames =
+      candidate.sampleFrames?.filter((frame) => frame.imageUrl) ??
+      [];
+    const previewFrames =
+      sampleFrames.length > 0
+        ? sampleFrames.slice(0, 3)
+        : candidate.thumbnailUrl
+          ? [
+              {
+                imageUrl: candidate.thumbnailUrl,
+                x: candidate.x ?? null,
+                y: candidate.y ?? null,
+                w: candidate.w ?? null,
+                h: candidate.h ?? null
+              }
+            ]
+          : [];
+    const isSelecting =
+      selectingTrackId === candidate.trackId;
+    return (
+      <div
+        key={candidate.trackId}
+        className="rounded-xl border border-slate-800 bg-slate-950 p-3"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
+            Track {candidate.trackId}
+          </span>
+          {isSelecting ? (
+            <span className="text-[0.65rem] uppercase tracking-[0.2em] text-emerald-200">
+              Selecting...
+            </span>
+          ) : null}
+        </div>
+        <div className="mt-3 grid gap-2 text-xs text-slate-400">
+          <div className="flex items-center justify-between">
+            <span className="uppercase tracking-[0.2em] text-slate-500">
+              Coverage pct
+            </span>
+            <span className="text-sm text-slate-200">
+              {formatPercent(candidate.coverage)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="uppercase tracking-[0.2em] text-slate-500">
+              Stability score
+            </span>
+            <span className="text-sm text-slate-200">
+              {formatScore(candidate.stability)}
+            </span>
+          </div>
+        </div>
+        <div className="mt-3 grid gap-2 sm:grid-cols-3">
+          {previewFrames.length > 0 ? (
+            previewFrames.map((frame, index) => {
+              const frameSrc = getCandidateSampleFrameSrc(
+                frame.imageUrl ?? null
+              );
+              const bbox = resolveCandidateBox(
+                frame,
+                candidate
+              );
+              return (
+                <button
+                  key={`${candidate.trackId}-sample-${index}`}
+                  type="button"
+                  onClick={() =>
+                    handleSelectCandidateSampleFrame(
+                      candidate,
+                      frame
+                    )
+                  }
+                  disabled={isSelecting}
+                  className="relative overflow-hidden rounded-lg border border-slate-800 bg-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {frameSrc ? (
+                    <img
+                      src={frameSrc}
+                      alt={`Candidate ${candidate.trackId} sample ${index + 1}`}
+                      className="h-20 w-full object-cover"
+                      onError={() =>
+                        handleCandidateFrameFallback(
+                          "candidate-sample",
+                          frame.imageUrl
+                        )
+                      }
+                    />
+                  ) : (
+                    <div className="flex h-20 w-full items-center justify-center text-xs text-slate-500">
+                      No sample
+                    </div>
+                  )}
+                  {bbox ? (
+                    <div
+                      className="absolute rounded border border-emerald-300 bg-emerald-400/20"
+                      style={{
+                        left: `${bbox.x * 100}%`,
+                        top: `${bbox.y * 100}%`,
+                        width: `${bbox.w * 100}%`,
+                        height: `${bbox.h * 100}%`
+                      }}
+                    />
+                  ) : null}
+                </button>
+              );
+            })
+          ) : (
+            <div className="col-span-full rounded-lg border border-slate-800 bg-slate-950 p-3 text-xs text-slate-500">
+              No sample frames available.
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTargetCandidateCard = (candidate: TrackCandidate) => {
+    const thumbnailSrc = getCandidateThumbnailSrc(candidate);
+    const isSelected = selectedTrackId === candidate.trackId;
+    const isSelecting = selectingTrackId === candidate.trackId;
+    const hasSelectionData = Boolean(getCandidateSelection(candidate));
+    const highStability =
+      candidate.stability !== null &&
+      candidate.stability !== undefined &&
+      candidate.stability > 0.85;
+    const lowCoverage =
+      candidate.coverage !== null &&
+      candidate.coverage !== undefined &&
+      candidate.coverage < 0.07;
+    const isCompared = compareTrackIds.includes(candidate.trackId);
+    return (
+      <div key={candidate.trackId} className="relative">
+        <button
+          type="button"
+          onClick={() => handleReviewCandidate(candidate)}
+          disabled={isSelecting || isSelected || !hasSelectionData}
+          aria-pressed={isSelected}
+          className={`w-full overflow-hidden rounded-xl border text-left transition ${
+            isSelected
+              ? "border-emerald-400/60 bg-emerald-500/10"
+              : "border-slate-800 bg-slate-950 hover:border-emerald-400/60"
+          } ${
+            isSelecting || isSelected || !hasSelectionData
+              ? "cursor-not-allowed"
+              : ""
+          }`}
+        >
+          <div className="h-32 w-full overflow-hidden bg-slate-900">
+            {thumbnailSrc ? (
+              <img
+                src={thumbnailSrc}
+                alt={`Candidate ${candidate.trackId}`}
+                className="h-full w-full object-cover"
+                onError={() =>
+                  handleCandidateFrameFallback(
+                    `candidate-${candidate.trackId}`,
+                    candidate.thumbnailUrl
+                  )
+                }
+              />
+            ) : (
+              <div className="flex h-full items-center justify-center text-xs text-slate-500">
+                No thumbnail
+              </div>
+            )}
+          </div>
+          <div className="space-y-3 p-3 text-sm text-slate-200">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                Track {candidate.trackId} · {normalizeCandidateTier(candidate).toLowerCase()}
+              </span>
+              {isSelected ? (
+                <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
+                  Selected
+                </span>
+              ) : null}
+            </div>
+            {(highStability || lowCoverage) && (
+              <div className="flex flex-wrap gap-2">
+                {highStability ? (
+                  <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
+                    High stability
+                  </span>
+                ) : null}
+                {lowCoverage ? (
+                  <span className="rounded-full bg-amber-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-amber-200">
+                    Low coverage
+                  </span>
+                ) : null}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
+              <div>
+                <p className="uppercase tracking-[0.2em] text-slate-500">
+                  Coverage pct
+                </p>
+                <p className="mt-1 text-sm text-slate-200">
+                  {formatPercent(candidate.coverage)}
+                </p>
+              </div>
+              <div>
+                <p className="uppercase tracking-[0.2em] text-slate-500">
+                  Stability score
+                </p>
+                <p className="mt-1 text-sm text-slate-200">
+                  {formatScore(candidate.stability)}
+                </p>
+              </div>
+              <div>
+                <p className="uppercase tracking-[0.2em] text-slate-500">
+                  Avg area
+                </p>
+                <p className="mt-1 text-sm text-slate-200">
+                  {formatMetric(candidate.avgBoxArea)}
+                </p>
+              </div>
+            </div>
+            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+              {isSelecting
+                ? "Selecting..."
+                : isSelected
+                  ? "Selected"
+                  : hasSelectionData
+                    ? "Review selection"
+                    : "Missing selection data"}
+            </div>
+          </div>
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            setCompareTrackIds((prev) => toggleCompareTrackId(prev, candidate.trackId))
+          }
+          aria-pressed={isCompared}
+          className={`absolute right-2 top-2 rounded-full border px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] transition ${
+            isCompared
+              ? "border-sky-400/60 bg-sky-500/30 text-sky-100"
+              : "border-slate-700 bg-slate-950/80 text-slate-300 hover:border-slate-500"
+          }`}
+        >
+          {isCompared ? "Comparing" : "Compare"}
+        </button>
+      </div>
+    );
+  };
 
   console.log("[frames]", previewFrames.length, previewFrames[0]);
 
@@ -2710,6 +3730,19 @@ export default function JobRunner() {
             />
           </label>
 
+          <div className="text-sm text-slate-300">
+            Or upload a video file
+            <div className="mt-2">
+              <VideoUpload
+                disabled={submitting || rateLimitedUntil !== null}
+                onUploaded={({ key, bucket, uploadToken }) => {
+                  setVideoUrl(key);
+                  return handleCreateJob({ video_key: key, video_bucket: bucket }, uploadToken);
+                }}
+              />
+            </div>
+          </div>
+
           <label className="block text-sm text-slate-300">
             Role
             <select
@@ -2759,8 +3792,8 @@ export default function JobRunner() {
         <div className="mt-6 flex flex-wrap gap-3">
           <button
             type="button"
-            onClick={handleCreateJob}
-            disabled={submitting}
+            onClick={() => handleCreateJob()}
+            disabled={submitting || rateLimitedUntil !== null}
             className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
           >
             {submitting ? "Creating..." : "Create Job"}
@@ -2780,13 +3813,21 @@ export default function JobRunner() {
               Job Created
             </p>
             <p className="mt-2 text-sm text-slate-200">ID: {jobId}</p>
+            <Link
+              href={`/jobs/${encodeURIComponent(jobId)}`}
+              className="mt-1 inline-flex text-xs text-emerald-400 hover:text-emerald-300"
+            >
+              Shareable link
+            </Link>
             <button
               type="button"
               onClick={handleEnqueue}
-              disabled={!canEnqueue || submitting}
-              aria-disabled={!canEnqueue || submitting}
+              disabled={!canEnqueue || submitting || rateLimitedUntil !== null}
+              aria-disabled={!canEnqueue || submitting || rateLimitedUntil !== null}
               className={`mt-3 rounded-lg bg-blue-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-400 ${
-                !canEnqueue || submitting ? "cursor-not-allowed opacity-50" : ""
+                !canEnqueue || submitting || rateLimitedUntil !== null
+                  ? "cursor-not-allowed opacity-50"
+                  : ""
               }`}
             >
               {submitting ? "Starting..." : "Start analysis"}
@@ -2795,6 +3836,13 @@ export default function JobRunner() {
           </div>
         ) : null}
 
+        {rateLimitedUntil !== null ? (
+          <RateLimitCountdown
+            until={rateLimitedUntil}
+            onExpire={() => setRateLimitedUntil(null)}
+          />
+        ) : null}
+
         {error ? (
           <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
             <p>{error}</p>
@@ -2852,17 +3900,12 @@ export default function JobRunner() {
               <span>
                 playerRef(raw):{" "}
                 {JSON.stringify(
-                  (job as any)?.playerRefRaw ??
-                    (job as any)?.player_ref ??
-                    (job as any)?.playerRef ??
-                    job?.result?.player_ref ??
-                    job?.result?.playerRef ??
-                    null
+                  job?.playerRefRaw ?? job?.result?.playerRef ?? null
                 )}
               </span>
               <span>
                 target(raw):{" "}
-                {JSON.stringify(job?.target ?? (job as any)?.data?.target ?? null)}
+                {JSON.stringify(job?.target ?? null)}
               </span>
             </div>
           </div>
@@ -2931,6 +3974,33 @@ export default function JobRunner() {
                     )}
                   </div>
 
+                  {inputVideoUrl ? (
+                    <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950 p-4">
+                      <div>
+                        <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                          Pick any moment
+                        </p>
+                        <p className="mt-1 text-sm text-slate-200">
+                          Scrub the input video when the player is not clear in the preview
+                          frames, then draw the player box on the extracted frame.
+                        </p>
+                      </div>
+                      <FrameScrubber
+                        videoUrl={inputVideoUrl}
+                        markers={resolvedPreviewFrames.flatMap((frame) =>
+                          frame.timeSec !== null ? [frame.timeSec] : []
+                        )}
+                        disabled={analysisRequesting || savingPlayerRef}
+                        onUseFrame={handleUseScrubbedFrame}
+                      />
+                      {scrubberError ? (
+                        <div className="rounded-lg border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+                          {scrubberError}
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : null}
+
                   {hasCandidateList ? (
                     <div className="space-y-3 rounded-xl border border-slate-800 bg-slate-950 p-4">
                       <div className="flex flex-wrap items-center justify-between gap-2">
@@ -2946,124 +4016,36 @@ export default function JobRunner() {
                           {loadingTrackCandidates ? "Refreshing..." : "Refresh"}
                         </button>
                       </div>
-                      <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-                        {candidatePreviewList.map((candidate) => {
-                          const sampleFrames =
-                            candidate.sampleFrames?.filter((frame) => frame.imageUrl) ??
-                            [];
-                          const previewFrames =
-                            sampleFrames.length > 0
-                              ? sampleFrames.slice(0, 3)
-                              : candidate.thumbnailUrl
-                                ? [
-                                    {
-                                      imageUrl: candidate.thumbnailUrl,
-                                      x: candidate.x ?? null,
-                                      y: candidate.y ?? null,
-                                      w: candidate.w ?? null,
-                                      h: candidate.h ?? null
-                                    }
-                                  ]
-                                : [];
-                          const isSelecting =
-                            selectingTrackId === candidate.trackId;
-                          return (
-                            <div
-                              key={candidate.trackId}
-                              className="rounded-xl border border-slate-800 bg-slate-950 p-3"
-                            >
-                              <div className="flex items-center justify-between gap-2">
-                                <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                  Track {candidate.trackId}
-                                </span>
-                                {isSelecting ? (
-                                  <span className="text-[0.65rem] uppercase tracking-[0.2em] text-emerald-200">
-                                    Selecting...
-                                  </span>
-                                ) : null}
-                              </div>
-                              <div className="mt-3 grid gap-2 text-xs text-slate-400">
-                                <div className="flex items-center justify-between">
-                                  <span className="uppercase tracking-[0.2em] text-slate-500">
-                                    Coverage pct
-                                  </span>
-                                  <span className="text-sm text-slate-200">
-                                    {formatPercent(candidate.coverage)}
-                                  </span>
-                                </div>
-                                <div className="flex items-center justify-between">
-                                  <span className="uppercase tracking-[0.2em] text-slate-500">
-                                    Stability score
-                                  </span>
-                                  <span className="text-sm text-slate-200">
-                                    {formatScore(candidate.stability)}
-                                  </span>
-                                </div>
-                              </div>
-                              <div className="mt-3 grid gap-2 sm:grid-cols-3">
-                                {previewFrames.length > 0 ? (
-                                  previewFrames.map((frame, index) => {
-                                    const frameSrc = getCandidateSampleFrameSrc(
-                                      frame.imageUrl ?? null
-                                    );
-                                    const bbox = resolveCandidateBox(
-                                      frame,
-                                      candidate
-                                    );
-                                    return (
-                                      <button
-                                        key={`${candidate.trackId}-sample-${index}`}
-                                        type="button"
-                                        onClick={() =>
-                                          handleSelectCandidateSampleFrame(
-                                            candidate,
-                                            frame
-                                          )
-                                        }
-                                        disabled={isSelecting}
-                                        className="relative overflow-hidden rounded-lg border border-slate-800 bg-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
-                                      >
-                                        {frameSrc ? (
-                                          <img
-                                            src={frameSrc}
-                                            alt={`Candidate ${candidate.trackId} sample ${index + 1}`}
-                                            className="h-20 w-full object-cover"
-                                            onError={() =>
-                                              handleCandidateFrameFallback(
-                                                "candidate-sample",
-                                                frame.imageUrl
-                                              )
-                                            }
-                                          />
-                                        ) : (
-                                          <div className="flex h-20 w-full items-center justify-center text-xs text-slate-500">
-                                            No sample
-                                          </div>
-                                        )}
-                                        {bbox ? (
-                                          <div
-                                            className="absolute rounded border border-emerald-300 bg-emerald-400/20"
-                                            style={{
-                                              left: `${bbox.x * 100}%`,
-                                              top: `${bbox.y * 100}%`,
-                                              width: `${bbox.w * 100}%`,
-                                              height: `${bbox.h * 100}%`
-                                            }}
-                                          />
-                                        ) : null}
-                                      </button>
-                                    );
-                                  })
-                                ) : (
-                                  <div className="col-span-full rounded-lg border border-slate-800 bg-slate-950 p-3 text-xs text-slate-500">
-                                    No sample frames available.
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          );
-                        })}
-                      </div>
+                      <CandidateRankingPanel
+                        ranking={candidateRanking}
+                        frames={resolvedPreviewFrames}
+                        getFrameSrc={getPreviewFrameSrc}
+                        kitColor={kitColor}
+                        teamName={job?.teamName ?? teamName}
+                        shirtNumber={rankingShirtNumber}
+                        sampling={samplingKitColors}
+                        onKitColorChange={setKitColor}
+                      />
+                      <CandidateFilterBar
+                        filters={candidateFilters}
+                        tierCounts={candidateTierCounts}
+                        shownCount={candidatePreviewList.length}
+                        totalCount={
+                          trackCandidates.length > 0
+                            ? trackCandidates.length
+                            : fallbackCandidates.length
+                        }
+                        onChange={setCandidateFilters}
+                      />
+                      <VirtualCandidateGrid
+                        items={candidatePreviewList}
+                        resetKey={`${candidateListKey}:${
+                          trackCandidates.length > 0 ? "track" : "fallback"
+                        }`}
+                        getKey={getCandidateKey}
+                        renderItem={renderPlayerRefCandidateCard}
+                        estimatedRowHeight={200}
+                      />
                     </div>
                   ) : null}
 
@@ -3203,436 +4185,31 @@ export default function JobRunner() {
                           <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
                             All tracks
                           </p>
+                          <CandidateFilterBar
+                            filters={candidateFilters}
+                            tierCounts={candidateTierCounts}
+                            shownCount={
+                              filteredTrackCandidates.length + filteredFallbackCandidates.length
+                            }
+                            totalCount={trackCandidates.length + fallbackCandidates.length}
+                            onChange={setCandidateFilters}
+                          />
                           {trackCandidates.length > 0 ? (
-                            <>
-                              <div className="flex flex-wrap items-center justify-between gap-3">
-                                <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                  Tabs
+                            <div className="space-y-3">
+                              {filteredTrackCandidates.length > 0 ? (
+                                <VirtualCandidateGrid
+                                  items={filteredTrackCandidates}
+                                  resetKey={candidateListKey}
+                                  getKey={getCandidateKey}
+                                  renderItem={renderTargetCandidateCard}
+                                  estimatedRowHeight={330}
+                                />
+                              ) : (
+                                <p className="text-xs text-slate-500">
+                                  No candidates match the current filters.
                                 </p>
-                                <div className="flex flex-wrap gap-2">
-                                  {secondaryCandidates.length > 0 ? (
-                                    <button
-                                      type="button"
-                                      onClick={() =>
-                                        setShowSecondaryCandidates((prev) => !prev)
-                                      }
-                                      className="rounded-full border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
-                                    >
-                                      {showSecondaryCandidates
-                                        ? "Show less"
-                                        : "Show more"}
-                                    </button>
-                                  ) : null}
-                                  {otherCandidates.length > 0 ? (
-                                    <button
-                                      type="button"
-                                      onClick={() => {
-                                        setShowAllCandidates((prev) => {
-                                          const next = !prev;
-                                          if (next) {
-                                            setShowSecondaryCandidates(true);
-                                          }
-                                          return next;
-                                        });
-                                      }}
-                                      className="rounded-full border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
-                                    >
-                                      {showAllCandidates ? "Show less" : "Show all"}
-                                    </button>
-                                  ) : null}
-                                </div>
-                              </div>
-
-                              {primaryCandidates.length > 0 ? (
-                                <div className="space-y-3">
-                                  <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                                    Primary
-                                  </p>
-                                  <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-                                    {primaryCandidates.map((candidate) => {
-                                      const thumbnailSrc =
-                                        getCandidateThumbnailSrc(candidate);
-                                      const isSelected =
-                                        selectedTrackId === candidate.trackId;
-                                      const isSelecting =
-                                        selectingTrackId === candidate.trackId;
-                                      const hasSelectionData = Boolean(
-                                        getCandidateSelection(candidate)
-                                      );
-                                      const highStability =
-                                        candidate.stability !== null &&
-                                        candidate.stability !== undefined &&
-                                        candidate.stability > 0.85;
-                                      const lowCoverage =
-                                        candidate.coverage !== null &&
-                                        candidate.coverage !== undefined &&
-                                        candidate.coverage < 0.07;
-                                      return (
-                                        <button
-                                          key={candidate.trackId}
-                                          type="button"
-                                          onClick={() => handleReviewCandidate(candidate)}
-                                          disabled={
-                                            isSelecting || isSelected || !hasSelectionData
-                                          }
-                                          aria-pressed={isSelected}
-                                          className={`overflow-hidden rounded-xl border text-left transition ${
-                                            isSelected
-                                              ? "border-emerald-400/60 bg-emerald-500/10"
-                                              : "border-slate-800 bg-slate-950 hover:border-emerald-400/60"
-                                          } ${
-                                            isSelecting || isSelected || !hasSelectionData
-                                              ? "cursor-not-allowed"
-                                              : ""
-                                          }`}
-                                        >
-                                          <div className="h-32 w-full overflow-hidden bg-slate-900">
-                                            {thumbnailSrc ? (
-                                              <img
-                                                src={thumbnailSrc}
-                                                alt={`Candidate ${candidate.trackId}`}
-                                                className="h-full w-full object-cover"
-                                                onError={() =>
-                                                  handleCandidateFrameFallback(
-                                                    `candidate-${candidate.trackId}`,
-                                                    candidate.thumbnailUrl
-                                                  )
-                                                }
-                                              />
-                                            ) : (
-                                              <div className="flex h-full items-center justify-center text-xs text-slate-500">
-                                                No thumbnail
-                                              </div>
-                                            )}
-                                          </div>
-                                          <div className="space-y-3 p-3 text-sm text-slate-200">
-                                            <div className="flex items-center justify-between gap-2">
-                                              <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                                Track {candidate.trackId}
-                                              </span>
-                                              {isSelected ? (
-                                                <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                  Selected
-                                                </span>
-                                              ) : null}
-                                            </div>
-                                            {(highStability || lowCoverage) && (
-                                              <div className="flex flex-wrap gap-2">
-                                                {highStability ? (
-                                                  <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                    High stability
-                                                  </span>
-                                                ) : null}
-                                                {lowCoverage ? (
-                                                  <span className="rounded-full bg-amber-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-amber-200">
-                                                    Low coverage
-                                                  </span>
-                                                ) : null}
-                                              </div>
-                                            )}
-                                            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Coverage pct
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatPercent(candidate.coverage)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Stability score
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatScore(candidate.stability)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Avg area
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatMetric(candidate.avgBoxArea)}
-                                                </p>
-                                              </div>
-                                            </div>
-                                            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                                              {isSelecting
-                                                ? "Selecting..."
-                                                : isSelected
-                                                  ? "Selected"
-                                                  : hasSelectionData
-                                                    ? "Review selection"
-                                                    : "Missing selection data"}
-                                            </div>
-                                          </div>
-                                        </button>
-                                      );
-                                    })}
-                                  </div>
-                                </div>
-                              ) : null}
-
-                              {showSecondaryCandidates && secondaryCandidates.length > 0 ? (
-                                <div className="space-y-3">
-                                  <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                                    Secondary
-                                  </p>
-                                  <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-                                    {secondaryCandidates.map((candidate) => {
-                                      const thumbnailSrc =
-                                        getCandidateThumbnailSrc(candidate);
-                                      const isSelected =
-                                        selectedTrackId === candidate.trackId;
-                                      const isSelecting =
-                                        selectingTrackId === candidate.trackId;
-                                      const hasSelectionData = Boolean(
-                                        getCandidateSelection(candidate)
-                                      );
-                                      const highStability =
-                                        candidate.stability !== null &&
-                                        candidate.stability !== undefined &&
-                                        candidate.stability > 0.85;
-                                      const lowCoverage =
-                                        candidate.coverage !== null &&
-                                        candidate.coverage !== undefined &&
-                                        candidate.coverage < 0.07;
-                                      return (
-                                        <button
-                                          key={candidate.trackId}
-                                          type="button"
-                                          onClick={() => handleReviewCandidate(candidate)}
-                                          disabled={
-                                            isSelecting || isSelected || !hasSelectionData
-                                          }
-                                          aria-pressed={isSelected}
-                                          className={`overflow-hidden rounded-xl border text-left transition ${
-                                            isSelected
-                                              ? "border-emerald-400/60 bg-emerald-500/10"
-                                              : "border-slate-800 bg-slate-950 hover:border-emerald-400/60"
-                                          } ${
-                                            isSelecting || isSelected || !hasSelectionData
-                                              ? "cursor-not-allowed"
-                                              : ""
-                                          }`}
-                                        >
-                                          <div className="h-32 w-full overflow-hidden bg-slate-900">
-                                            {thumbnailSrc ? (
-                                              <img
-                                                src={thumbnailSrc}
-                                                alt={`Candidate ${candidate.trackId}`}
-                                                className="h-full w-full object-cover"
-                                                onError={() =>
-                                                  handleCandidateFrameFallback(
-                                                    `candidate-${candidate.trackId}`,
-                                                    candidate.thumbnailUrl
-                                                  )
-                                                }
-                                              />
-                                            ) : (
-                                              <div className="flex h-full items-center justify-center text-xs text-slate-500">
-                                                No thumbnail
-                                              </div>
-                                            )}
-                                          </div>
-                                          <div className="space-y-3 p-3 text-sm text-slate-200">
-                                            <div className="flex items-center justify-between gap-2">
-                                              <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                                Track {candidate.trackId}
-                                              </span>
-                                              {isSelected ? (
-                                                <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                  Selected
-                                                </span>
-                                              ) : null}
-                                            </div>
-                                            {(highStability || lowCoverage) && (
-                                              <div className="flex flex-wrap gap-2">
-                                                {highStability ? (
-                                                  <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                    High stability
-                                                  </span>
-                                                ) : null}
-                                                {lowCoverage ? (
-                                                  <span className="rounded-full bg-amber-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-amber-200">
-                                                    Low coverage
-                                                  </span>
-                                                ) : null}
-                                              </div>
-                                            )}
-                                            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Coverage pct
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatPercent(candidate.coverage)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Stability score
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatScore(candidate.stability)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Avg area
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatMetric(candidate.avgBoxArea)}
-                                                </p>
-                                              </div>
-                                            </div>
-                                            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                                              {isSelecting
-                                                ? "Selecting..."
-                                                : isSelected
-                                                  ? "Selected"
-                                                  : hasSelectionData
-                                                    ? "Review selection"
-                                                    : "Missing selection data"}
-                                            </div>
-                                          </div>
-                                        </button>
-                                      );
-                                    })}
-                                  </div>
-                                </div>
-                              ) : null}
-
-                              {showAllCandidates && otherCandidates.length > 0 ? (
-                                <div className="space-y-3">
-                                  <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-                                    Others
-                                  </p>
-                                  <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-                                    {otherCandidates.map((candidate) => {
-                                      const thumbnailSrc =
-                                        getCandidateThumbnailSrc(candidate);
-                                      const isSelected =
-                                        selectedTrackId === candidate.trackId;
-                                      const isSelecting =
-                                        selectingTrackId === candidate.trackId;
-                                      const hasSelectionData = Boolean(
-                                        getCandidateSelection(candidate)
-                                      );
-                                      const highStability =
-                                        candidate.stability !== null &&
-                                        candidate.stability !== undefined &&
-                                        candidate.stability > 0.85;
-                                      const lowCoverage =
-                                        candidate.coverage !== null &&
-                                        candidate.coverage !== undefined &&
-                                        candidate.coverage < 0.07;
-                                      return (
-                                        <button
-                                          key={candidate.trackId}
-                                          type="button"
-                                          onClick={() => handleReviewCandidate(candidate)}
-                                          disabled={
-                                            isSelecting || isSelected || !hasSelectionData
-                                          }
-                                          aria-pressed={isSelected}
-                                          className={`overflow-hidden rounded-xl border text-left transition ${
-                                            isSelected
-                                              ? "border-emerald-400/60 bg-emerald-500/10"
-                                              : "border-slate-800 bg-slate-950 hover:border-emerald-400/60"
-                                          } ${
-                                            isSelecting || isSelected || !hasSelectionData
-                                              ? "cursor-not-allowed"
-                                              : ""
-                                          }`}
-                                        >
-                                          <div className="h-32 w-full overflow-hidden bg-slate-900">
-                                            {thumbnailSrc ? (
-                                              <img
-                                                src={thumbnailSrc}
-                                                alt={`Candidate ${candidate.trackId}`}
-                                                className="h-full w-full object-cover"
-                                                onError={() =>
-                                                  handleCandidateFrameFallback(
-                                                    `candidate-${candidate.trackId}`,
-                                                    candidate.thumbnailUrl
-                                                  )
-                                                }
-                                              />
-                                            ) : (
-                                              <div className="flex h-full items-center justify-center text-xs text-slate-500">
-                                                No thumbnail
-                                              </div>
-                                            )}
-                                          </div>
-                                          <div className="space-y-3 p-3 text-sm text-slate-200">
-                                            <div className="flex items-center justify-between gap-2">
-                                              <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                                Track {candidate.trackId}
-                                              </span>
-                                              {isSelected ? (
-                                                <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                  Selected
-                                                </span>
-                                              ) : null}
-                                            </div>
-                                            {(highStability || lowCoverage) && (
-                                              <div className="flex flex-wrap gap-2">
-                                                {highStability ? (
-                                                  <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                    High stability
-                                                  </span>
-                                                ) : null}
-                                                {lowCoverage ? (
-                                                  <span className="rounded-full bg-amber-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-amber-200">
-                                                    Low coverage
-                                                  </span>
-                                                ) : null}
-                                              </div>
-                                            )}
-                                            <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Coverage pct
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatPercent(candidate.coverage)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Stability score
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatScore(candidate.stability)}
-                                                </p>
-                                              </div>
-                                              <div>
-                                                <p className="uppercase tracking-[0.2em] text-slate-500">
-                                                  Avg area
-                                                </p>
-                                                <p className="mt-1 text-sm text-slate-200">
-                                                  {formatMetric(candidate.avgBoxArea)}
-                                                </p>
-                                              </div>
-                                            </div>
-                                            <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                                              {isSelecting
-                                                ? "Selecting..."
-                                                : isSelected
-                                                  ? "Selected"
-                                                  : hasSelectionData
-                                                    ? "Review selection"
-                                                    : "Missing selection data"}
-                                            </div>
-                                          </div>
-                                        </button>
-                                      );
-                                    })}
-                                  </div>
-                                </div>
-                              ) : null}
-                            </>
+                              )}
+                            </div>
                           ) : null}
 
                           {fallbackCandidates.length > 0 ? (
@@ -3640,130 +4217,35 @@ export default function JobRunner() {
                               <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
                                 Best matches (top)
                               </p>
-                              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-                                {fallbackCandidates.map((candidate) => {
-                                  const thumbnailSrc =
-                                    getCandidateThumbnailSrc(candidate);
-                                  const isSelected =
-                                    selectedTrackId === candidate.trackId;
-                                  const isSelecting =
-                                    selectingTrackId === candidate.trackId;
-                                  const hasSelectionData = Boolean(
-                                    getCandidateSelection(candidate)
-                                  );
-                                  const highStability =
-                                    candidate.stability !== null &&
-                                    candidate.stability !== undefined &&
-                                    candidate.stability > 0.85;
-                                  const lowCoverage =
-                                    candidate.coverage !== null &&
-                                    candidate.coverage !== undefined &&
-                                    candidate.coverage < 0.07;
-                                  return (
-                                    <button
-                                      key={candidate.trackId}
-                                      type="button"
-                                      onClick={() => handleReviewCandidate(candidate)}
-                                      disabled={
-                                        isSelecting || isSelected || !hasSelectionData
-                                      }
-                                      aria-pressed={isSelected}
-                                      className={`overflow-hidden rounded-xl border text-left transition ${
-                                        isSelected
-                                          ? "border-emerald-400/60 bg-emerald-500/10"
-                                          : "border-slate-800 bg-slate-950 hover:border-emerald-400/60"
-                                      } ${
-                                        isSelecting || isSelected || !hasSelectionData
-                                          ? "cursor-not-allowed"
-                                          : ""
-                                      }`}
-                                    >
-                                      <div className="h-32 w-full overflow-hidden bg-slate-900">
-                                        {thumbnailSrc ? (
-                                          <img
-                                            src={thumbnailSrc}
-                                            alt={`Candidate ${candidate.trackId}`}
-                                            className="h-full w-full object-cover"
-                                            onError={() =>
-                                              handleCandidateFrameFallback(
-                                                `candidate-${candidate.trackId}`,
-                                                candidate.thumbnailUrl
-                                              )
-                                            }
-                                          />
-                                        ) : (
-                                          <div className="flex h-full items-center justify-center text-xs text-slate-500">
-                                            No thumbnail
-                                          </div>
-                                        )}
-                                      </div>
-                                      <div className="space-y-3 p-3 text-sm text-slate-200">
-                                        <div className="flex items-center justify-between gap-2">
-                                          <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                                            Track {candidate.trackId}
-                                          </span>
-                                          {isSelected ? (
-                                            <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                              Selected
-                                            </span>
-                                          ) : null}
-                                        </div>
-                                        {(highStability || lowCoverage) && (
-                                          <div className="flex flex-wrap gap-2">
-                                            {highStability ? (
-                                              <span className="rounded-full bg-emerald-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-emerald-200">
-                                                High stability
-                                              </span>
-                                            ) : null}
-                                            {lowCoverage ? (
-                                              <span className="rounded-full bg-amber-400/20 px-2 py-1 text-[0.6rem] font-semibold uppercase tracking-[0.2em] text-amber-200">
-                                                Low coverage
-                                              </span>
-                                            ) : null}
-                                          </div>
-                                        )}
-                                        <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
-                                          <div>
-                                            <p className="uppercase tracking-[0.2em] text-slate-500">
-                                              Coverage pct
-                                            </p>
-                                            <p className="mt-1 text-sm text-slate-200">
-                                              {formatPercent(candidate.coverage)}
-                                            </p>
-                                          </div>
-                                          <div>
-                                            <p className="uppercase tracking-[0.2em] text-slate-500">
-                                              Stability score
-                                            </p>
-                                            <p className="mt-1 text-sm text-slate-200">
-                                              {formatScore(candidate.stability)}
-                                            </p>
-                                          </div>
-                                          <div>
-                                            <p className="uppercase tracking-[0.2em] text-slate-500">
-                                              Avg area
-                                            </p>
-                                            <p className="mt-1 text-sm text-slate-200">
-                                              {formatMetric(candidate.avgBoxArea)}
-                                            </p>
-                                          </div>
-                                        </div>
-                                        <div className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
-                                          {isSelecting
-                                            ? "Selecting..."
-                                            : isSelected
-                                              ? "Selected"
-                                              : hasSelectionData
-                                                ? "Review selection"
-                                                : "Missing selection data"}
-                                        </div>
-                                      </div>
-                                    </button>
-                                  );
-                                })}
-                              </div>
+                              <VirtualCandidateGrid
+                                items={filteredFallbackCandidates}
+                                resetKey={candidateListKey}
+                                getKey={getCandidateKey}
+                                renderItem={renderTargetCandidateCard}
+                                estimatedRowHeight={330}
+                              />
                             </div>
                           ) : null}
+                          {compareCandidates.length >= 2 ? (
+                            <CandidateCompare
+                              candidates={compareCandidates}
+                              selectingTrackId={selectingTrackId}
+                              getFrameSrc={getCandidateSampleFrameSrc}
+                              onFrameError={(frameUrl) =>
+                                handleCandidateFrameFallback("candidate-sample", frameUrl)
+                              }
+                              onRemove={(trackId) =>
+                                setCompareTrackIds((prev) => toggleCompareTrackId(prev, trackId))
+                              }
+                              onPick={handlePickCompareWinner}
+                              onClose={() => setCompareTrackIds([])}
+                            />
+                          ) : compareCandidates.length === 1 ? (
+                            <p className="text-xs text-slate-500">
+                              Pick one or two more tracks to compare with Track{" "}
+                              {compareCandidates[0].trackId}.
+                            </p>
+                          ) : null}
                           {candidateReview ? (
                             <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
                               <div className="flex flex-wrap items-start justify-between gap-2">
@@ -4301,7 +4783,11 @@ export default function JobRunner() {
                   disabled={targetSelectionsEmpty}
                   className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-300 disabled:cursor-not-allowed disabled:opacity-50"
                 >
-                  {savingSelection ? "Confirming..." : "Confirm target"}
+                  {savingSelection
+                    ? "Confirming..."
+                    : targetAnchors.length > 0
+                    ? `Confirm ${targetSelections.length} anchors`
+                    : "Confirm target"}
                 </button>
                 <span className="text-xs text-slate-500">
                   {targetMissingTime
@@ -4315,6 +4801,43 @@ export default function JobRunner() {
               </div>
             </div>
 
+            {selectedTrackId && !isManualTargetSelection && hasAnyPreviewFrames ? (
+              <div className="mt-4">
+                <TrackVerificationStrip
+                  frames={resolvedPreviewFrames}
+                  trackId={selectedTrackId}
+                  selection={draftTargetSelection}
+                  getFrameSrc={getPreviewFrameSrc}
+                  onFixFrame={handleFixTrackFrame}
+                />
+              </div>
+            ) : null}
+
+            {targetAnchors.length > 0 ? (
+              <div className="mt-4">
+                <TargetAnchorsEditor
+                  anchors={targetAnchors}
+                  frames={resolvedPreviewFrames}
+                  editingIndex={editingAnchorIndex}
+                  includesDraft={draftIsNewAnchor}
+                  getFrameSrc={getPreviewFrameSrc}
+                  onEdit={handleEditTargetAnchor}
+                  onRemove={handleRemoveTargetAnchor}
+                  onMove={handleMoveTargetAnchor}
+                  onClear={() => {
+                    setTargetAnchors([]);
+                    setEditingAnchorIndex(null);
+                  }}
+                />
+              </div>
+            ) : hasAnyPreviewFrames ? (
+              <p className="mt-4 text-xs text-slate-500">
+                Tip: use &quot;Add anchor&quot; in the frame preview to place the target on several
+                frames (start, middle, after a substitution) so the tracker can re-acquire the
+                player after occlusions.
+              </p>
+            ) : null}
+
             {selectionError ? (
               <div className="mt-4 rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
                 {selectionError}
@@ -4371,25 +4894,82 @@ export default function JobRunner() {
                 >
                   {previewMode === "target"
                     ? "Drag to refine the target, or resize using the handles."
-                    : "Drag to mark the player in the selected frame."}
+                    : "Drag to mark the player in the selected frame."}{" "}
+                  Scroll or pinch to zoom, middle-drag or use the minimap to pan, and long-press
+                  a player on touch screens to select it. Press ? for keyboard shortcuts.
                 </p>
               </div>
-              <button
-                ref={previewCloseButtonRef}
-                type="button"
-                onClick={handleClosePreview}
-                className="rounded-lg border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
-              >
-                Close
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={handleUndoSelection}
+                  disabled={!selectionHistory?.past.length}
+                  title="Undo (Ctrl+Z)"
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRedoSelection}
+                  disabled={!selectionHistory?.future.length}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Redo
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowPreviewShortcuts((prev) => !prev)}
+                  aria-expanded={showPreviewShortcuts}
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+                >
+                  Shortcuts
+                </button>
+                <button
+                  ref={previewCloseButtonRef}
+                  type="button"
+                  onClick={handleClosePreview}
+                  className="rounded-lg border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+                >
+                  Close
+                </button>
+              </div>
             </div>
 
+            {showPreviewShortcuts ? (
+              <dl className="mt-4 grid gap-x-6 gap-y-1 rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-xs text-slate-300 sm:grid-cols-2">
+                {[
+                  ["Arrows", `${keyboardBoxVerb} box by 1 px`],
+                  ["Shift + Arrows", `${keyboardBoxVerb} box by 1%`],
+                  ["R", `Switch to ${keyboardBoxMode === "move" ? "resize" : "move"} mode`],
+                  ["N", "New box in the centre of the frame"],
+                  ...(previewMode === "target"
+                    ? [["Tab / Shift + Tab", "Cycle tracked players (frame focused)"]]
+                    : []),
+                  ["[ / ]", "Previous / next frame"],
+                  ["Ctrl + Z / Ctrl + Shift + Z", "Undo / redo"],
+                  ["+ / − / 0", "Zoom in / out / fit"],
+                  ["Enter", previewMode === "target" ? "Confirm target" : "Save selection"],
+                  ["Esc", "Close"]
+                ].map(([keys, action]) => (
+                  <div key={keys} className="flex justify-between gap-3">
+                    <dt className="font-semibold text-slate-100">{keys}</dt>
+                    <dd className="text-slate-400">{action}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
+
             <div
-              className="relative mt-4 overflow-hidden rounded-xl border border-slate-800 bg-slate-950"
-              onMouseDown={handlePreviewMouseDown}
-              onMouseMove={handlePreviewMouseMove}
-              onMouseUp={handlePreviewMouseUp}
-              onMouseLeave={handlePreviewMouseUp}
+              ref={previewCanvasRef}
+              tabIndex={0}
+              aria-label={`Frame annotation area, ${keyboardBoxMode} mode`}
+              className="relative mt-4 touch-none overflow-hidden rounded-xl border border-slate-800 bg-slate-950 focus:outline-none focus-visible:border-amber-300/70"
+              onPointerDown={handlePreviewPointerDown}
+              onPointerMove={handlePreviewPointerMove}
+              onPointerUp={handlePreviewPointerUp}
+              onPointerCancel={handlePreviewPointerUp}
             >
               {previewImageErrors[selectedPreviewFrame.key] ? (
                 <div className="flex h-72 w-full items-center justify-center text-xs text-slate-400">
@@ -4400,7 +4980,8 @@ export default function JobRunner() {
                   ref={previewImageRef}
                   src={getPreviewFrameSrc(selectedPreviewFrame)}
                   alt={formatFrameAlt(selectedPreviewFrame.timeSec)}
-                  className="h-auto w-full select-none"
+                  className="h-auto w-full origin-top-left select-none"
+                  style={{ transform: previewImageTransform }}
                   draggable={false}
                   onLoad={() => handlePreviewImageLoad(selectedPreviewFrame)}
                   onError={() =>
@@ -4423,9 +5004,13 @@ export default function JobRunner() {
                         <button
                           key={`track-${track.trackId}-${index}`}
                           type="button"
-                          onMouseDown={(event) => event.stopPropagation()}
+                          data-track-index={index}
                           onClick={(event) => {
                             event.stopPropagation();
+                            // Touch and pen select with a long press; keyboard clicks have no detail.
+                            if (event.detail !== 0 && previewPointerTypeRef.current !== "mouse") {
+                              return;
+                            }
                             handleSelectPreviewTrack(track);
                           }}
                           className="absolute rounded border border-amber-200/70 bg-amber-300/10 transition hover:border-amber-200"
@@ -4475,40 +5060,14 @@ export default function JobRunner() {
                           width: `${rect.width}px`,
                           height: `${rect.height}px`
                         }}
-                        onMouseDown={(event) => {
-                          event.stopPropagation();
-                          const image = previewImageRef.current;
-                          if (!image || !draftTargetSelection) {
-                            return;
-                          }
-                          const bounds = image.getBoundingClientRect();
-                          setTargetAdjustState({
-                            mode: "move",
-                            startX: event.clientX - bounds.left,
-                            startY: event.clientY - bounds.top,
-                            origin: draftTargetSelection
-                          });
-                        }}
+                        data-adjust="move"
                       >
                         {(["resize-nw", "resize-ne", "resize-sw", "resize-se"] as const).map(
                           (handle) => (
                             <span
                               key={handle}
-                              onMouseDown={(event) => {
-                                event.stopPropagation();
-                                const image = previewImageRef.current;
-                                if (!image || !draftTargetSelection) {
-                                  return;
-                                }
-                                const bounds = image.getBoundingClientRect();
-                                setTargetAdjustState({
-                                  mode: handle,
-                                  startX: event.clientX - bounds.left,
-                                  startY: event.clientY - bounds.top,
-                                  origin: draftTargetSelection
-                                });
-                              }}
-                              className={`absolute h-3 w-3 rounded-sm border border-amber-200 bg-amber-300 pointer-events-auto ${
+                              data-adjust={handle}
+                              className={`absolute h-3 w-3 rounded-sm border border-amber-200 bg-amber-300 pointer-events-auto before:absolute before:-inset-3 before:content-[''] [@media(pointer:coarse)]:h-5 [@media(pointer:coarse)]:w-5 ${
                                 handle === "resize-nw"
                                   ? "left-0 top-0 -translate-x-1/2 -translate-y-1/2 cursor-nwse-resize"
                                   : handle === "resize-ne"
@@ -4538,6 +5097,18 @@ export default function JobRunner() {
               </div>
             </div>
 
+            {previewImageSize ? (
+              <div className="mt-3">
+                <ZoomControls
+                  zoom={previewZoom}
+                  width={previewImageSize.width}
+                  height={previewImageSize.height}
+                  imageSrc={getPreviewFrameSrc(selectedPreviewFrame)}
+                  onChange={setPreviewZoom}
+                />
+              </div>
+            ) : null}
+
             <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
               <span className="text-xs text-slate-400">
                 {selectedFrameMissingTime
@@ -4562,14 +5133,32 @@ export default function JobRunner() {
                   {savingPlayerRef ? "Saving..." : "Save selection"}
                 </button>
               ) : (
-                <button
-                  type="button"
-                  onClick={() => submitTargetSelection(false, true)}
-                  disabled={targetSelectionsEmpty}
-                  className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-300 disabled:cursor-not-allowed disabled:opacity-50"
-                >
-                  {savingSelection ? "Confirming..." : "Confirm target"}
-                </button>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={handleAddTargetAnchor}
+                    disabled={
+                      !draftTargetSelection || Boolean(targetInvalidReason) || savingSelection
+                    }
+                    className="rounded-lg border border-amber-300/40 px-4 py-2 text-sm font-semibold text-amber-200 transition hover:border-amber-200 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {editingAnchorIndex !== null
+                      ? `Update anchor ${editingAnchorIndex + 1}`
+                      : "Add anchor"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => submitTargetSelection(false, true)}
+                    disabled={targetSelectionsEmpty}
+                    className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-300 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {savingSelection
+                      ? "Confirming..."
+                      : targetAnchors.length > 0
+                      ? `Confirm ${targetSelections.length} anchors`
+                      : "Confirm target"}
+                  </button>
+                </div>
               )}
             </div>
 
@@ -1,5 +1,17 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import ZoomControls from "@/components/ZoomControls";
 import type { PreviewFrame, PreviewFrameTrack } from "@/lib/api";
+import {
+  clampPreviewZoom,
+  defaultPreviewZoom,
+  getPinchZoom,
+  getPointerDistance,
+  getPointerMidpoint,
+  getWheelZoomScale,
+  zoomAroundPoint,
+  type PreviewZoom,
+  type ZoomPoint
+} from "@/lib/previewZoom";
 
 type PlayerPickerProps = {
   frame: PreviewFrame;
@@ -12,6 +24,15 @@ type PlayerPickerProps = {
 
 type ImageSize = { width: number; height: number };
 
+type PickerGesture = {
+  zoom: PreviewZoom;
+  origin: ZoomPoint;
+  distance: number;
+};
+
+// Past this distance a drag pans the frame instead of picking a track.
+const PAN_SLOP_PX = 6;
+
 const formatScoreHint = (value: number | null | undefined) => {
   if (value === null || value === undefined) {
     return "—";
@@ -38,7 +59,12 @@ export default function PlayerPicker({
   onPick
 }: PlayerPickerProps) {
   const imageRef = useRef<HTMLImageElement | null>(null);
+  const surfaceRef = useRef<HTMLDivElement | null>(null);
+  const pointersRef = useRef(new Map<number, ZoomPoint>());
+  const gestureRef = useRef<PickerGesture | null>(null);
+  const pannedRef = useRef(false);
   const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  const [zoom, setZoom] = useState<PreviewZoom>(defaultPreviewZoom);
 
   useEffect(() => {
     const updateSize = () => {
@@ -56,6 +82,112 @@ export default function PlayerPicker({
     return () => window.removeEventListener("resize", updateSize);
   }, []);
 
+  useEffect(() => {
+    setZoom(defaultPreviewZoom);
+  }, [frame.key]);
+
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    if (!surface) {
+      return;
+    }
+    // React wheel listeners are passive, so the page would scroll as well.
+    const handleWheel = (event: WheelEvent) => {
+      const image = imageRef.current;
+      if (!image) {
+        return;
+      }
+      event.preventDefault();
+      const rect = surface.getBoundingClientRect();
+      const point = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setZoom((prev) =>
+        zoomAroundPoint(
+          prev,
+          getWheelZoomScale(prev.scale, event.deltaY),
+          point,
+          image.clientWidth,
+          image.clientHeight
+        )
+      );
+    };
+    surface.addEventListener("wheel", handleWheel, { passive: false });
+    return () => surface.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const getSurfacePoint = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const startGesture = () => {
+    const points = Array.from(pointersRef.current.values());
+    gestureRef.current =
+      points.length >= 2
+        ? {
+            zoom,
+            origin: getPointerMidpoint(points[0], points[1]),
+            distance: getPointerDistance(points[0], points[1])
+          }
+        : points.length === 1
+        ? { zoom, origin: points[0], distance: 0 }
+        : null;
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === "mouse" && event.button !== 0) {
+      return;
+    }
+    pointersRef.current.set(event.pointerId, getSurfacePoint(event));
+    pannedRef.current = false;
+    startGesture();
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const gesture = gestureRef.current;
+    const image = imageRef.current;
+    if (!pointers.has(event.pointerId) || !gesture || !image) {
+      return;
+    }
+    pointers.set(event.pointerId, getSurfacePoint(event));
+    const points = Array.from(pointers.values());
+    if (points.length >= 2) {
+      pannedRef.current = true;
+      setZoom(
+        getPinchZoom(
+          gesture.zoom,
+          gesture.origin,
+          gesture.distance,
+          getPointerMidpoint(points[0], points[1]),
+          getPointerDistance(points[0], points[1]),
+          image.clientWidth,
+          image.clientHeight
+        )
+      );
+      return;
+    }
+    const dx = points[0].x - gesture.origin.x;
+    const dy = points[0].y - gesture.origin.y;
+    if (gesture.zoom.scale === 1 || (!pannedRef.current && Math.hypot(dx, dy) < PAN_SLOP_PX)) {
+      return;
+    }
+    pannedRef.current = true;
+    setZoom(
+      clampPreviewZoom(
+        { scale: gesture.zoom.scale, x: gesture.zoom.x + dx, y: gesture.zoom.y + dy },
+        image.clientWidth,
+        image.clientHeight
+      )
+    );
+  };
+
+  const handlePointerEnd = (event: PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.delete(event.pointerId)) {
+      return;
+    }
+    startGesture();
+  };
+
   const tracks = frame.tracks ?? [];
 
   return (
@@ -66,7 +198,7 @@ export default function PlayerPicker({
             Player picker
           </p>
           <p className="mt-1 text-sm text-slate-200">
-            Click a box to select the player.
+            Click a box to select the player. Scroll, pinch or use the buttons to zoom.
           </p>
         </div>
         <span className="rounded-full border border-slate-700 px-3 py-1 text-xs uppercase tracking-[0.2em] text-slate-400">
@@ -74,13 +206,24 @@ export default function PlayerPicker({
         </span>
       </div>
 
-      <div className="relative mt-4 overflow-hidden rounded-lg border border-slate-800 bg-slate-900">
+      <div
+        ref={surfaceRef}
+        className="relative mt-4 touch-none overflow-hidden rounded-lg border border-slate-800 bg-slate-900"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        onPointerLeave={handlePointerEnd}
+      >
         {frameSrc ? (
           <img
             ref={imageRef}
             src={frameSrc}
             alt={`Preview frame ${frame.key}`}
-            className="h-auto w-full select-none"
+            className="h-auto w-full origin-top-left select-none"
+            style={{
+              transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`
+            }}
             onLoad={() => {
               if (!imageRef.current) {
                 return;
@@ -105,10 +248,10 @@ export default function PlayerPicker({
                 if (!isValidBBox(track)) {
                   return null;
                 }
-                const left = (track.x ?? 0) * imageSize.width;
-                const top = (track.y ?? 0) * imageSize.height;
-                const width = (track.w ?? 0) * imageSize.width;
-                const height = (track.h ?? 0) * imageSize.height;
+                const left = (track.x ?? 0) * imageSize.width * zoom.scale + zoom.x;
+                const top = (track.y ?? 0) * imageSize.height * zoom.scale + zoom.y;
+                const width = (track.w ?? 0) * imageSize.width * zoom.scale;
+                const height = (track.h ?? 0) * imageSize.height * zoom.scale;
                 const isSelected = selectedTrackId === track.trackId;
                 return (
                   <button
@@ -118,7 +261,7 @@ export default function PlayerPicker({
                     disabled={disabled}
                     onClick={(event) => {
                       event.preventDefault();
-                      if (disabled) {
+                      if (disabled || pannedRef.current) {
                         return;
                       }
                       onPick(track.trackId, frame.key);
@@ -148,6 +291,18 @@ export default function PlayerPicker({
         </div>
       </div>
 
+      {imageSize && frameSrc ? (
+        <div className="mt-3">
+          <ZoomControls
+            zoom={zoom}
+            width={imageSize.width}
+            height={imageSize.height}
+            imageSrc={frameSrc}
+            onChange={setZoom}
+          />
+        </div>
+      ) : null}
+
       {tracks.length === 0 ? (
         <p className="mt-3 text-xs text-slate-500">
           No track overlays available for this frame yet.
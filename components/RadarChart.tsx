@@ -0,0 +1,306 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { exportSvg, exportSvgAsPng } from "@/lib/chartExport";
+import {
+  RADAR_RINGS,
+  buildRadarSegments,
+  buildRadarVertices,
+  createRadarLayout,
+  formatRadarPoints,
+  getRadarLabelAnchor,
+  getRadarPoint,
+  resolveRadarScale,
+  type RadarSeries
+} from "@/lib/radar";
+
+type RadarChartProps = {
+  axes: string[];
+  series: RadarSeries[];
+  // Drawn as dashed outlines, e.g. the average profile for the player's role.
+  references?: RadarSeries[];
+  maxValue?: number;
+  size?: number;
+  // Enables the PNG/SVG export buttons; used as the downloaded file name.
+  exportName?: string;
+};
+
+const GRID_COLOR = "#1e293b";
+const LABEL_COLOR = "#94a3b8";
+const MUTED_COLOR = "#64748b";
+const LEGEND_ROW_HEIGHT = 18;
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected error";
+
+export default function RadarChart({
+  axes,
+  series,
+  references = [],
+  maxValue,
+  size = 320,
+  exportName
+}: RadarChartProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [hoveredAxis, setHoveredAxis] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  if (axes.length < 3) {
+    return (
+      <p className="text-sm text-slate-400">
+        At least three radar axes are needed to draw the chart.
+      </p>
+    );
+  }
+
+  const layout = createRadarLayout(size, maxValue ?? resolveRadarScale([...series, ...references]));
+  const legend = [...series, ...references];
+  const showLegend = legend.length > 1;
+  const height = size + (showLegend ? legend.length * LEGEND_ROW_HEIGHT + 8 : 0);
+  const formatValue = (value: number | null | undefined) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? value.toFixed(layout.scale === 1 ? 2 : 1)
+      : "n/a";
+  const isAxisMissing = (axis: string) =>
+    series.length > 0 && series.every((entry) => entry.values[axis] == null);
+
+  const hoveredName = hoveredAxis !== null ? axes[hoveredAxis] : null;
+  const tooltipAnchor =
+    hoveredAxis !== null ? getRadarPoint(layout, axes.length, hoveredAxis, 1) : null;
+
+  const handleExport = async (format: "png" | "svg") => {
+    if (!svgRef.current || !exportName) {
+      return;
+    }
+    setExportError(null);
+    try {
+      if (format === "svg") {
+        exportSvg(svgRef.current, `${exportName}.svg`, "#020617");
+      } else {
+        await exportSvgAsPng(svgRef.current, `${exportName}.png`);
+      }
+    } catch (error) {
+      setExportError(toErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="flex w-full flex-col items-center gap-3">
+      <div className="relative w-full max-w-md">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${size} ${height}`}
+          className="h-auto w-full"
+          role="img"
+          aria-label="Radar chart"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+          onMouseLeave={() => setHoveredAxis(null)}
+        >
+          {RADAR_RINGS.map((ring) => (
+            <polygon
+              key={ring}
+              points={formatRadarPoints(
+                axes.map((_, index) => getRadarPoint(layout, axes.length, index, ring))
+              )}
+              fill="none"
+              stroke={GRID_COLOR}
+              strokeWidth={1}
+            />
+          ))}
+
+          {axes.map((axis, index) => {
+            const edge = getRadarPoint(layout, axes.length, index, 1);
+            const label = getRadarPoint(layout, axes.length, index, 1.18);
+            const missing = isAxisMissing(axis);
+            return (
+              <g key={axis}>
+                <line
+                  x1={layout.center}
+                  y1={layout.center}
+                  x2={edge.x}
+                  y2={edge.y}
+                  stroke={hoveredAxis === index ? "#475569" : GRID_COLOR}
+                  strokeDasharray={missing ? "3 3" : undefined}
+                />
+                <text
+                  x={label.x}
+                  y={label.y}
+                  textAnchor={getRadarLabelAnchor(layout, label)}
+                  dominantBaseline="middle"
+                  fontSize={10}
+                  fill={missing ? MUTED_COLOR : LABEL_COLOR}
+                  fontStyle={missing ? "italic" : undefined}
+                >
+                  {missing ? `${axis} (n/a)` : axis}
+                </text>
+              </g>
+            );
+          })}
+
+          {references.map((entry) => {
+            const vertices = buildRadarVertices(layout, axes, entry.values);
+            return (
+              <g key={entry.id}>
+                {buildRadarSegments(vertices).map((segment, index) => (
+                  <line
+                    key={index}
+                    x1={segment.from.x}
+                    y1={segment.from.y}
+                    x2={segment.to.x}
+                    y2={segment.to.y}
+                    stroke={entry.color}
+                    strokeWidth={1.5}
+                    strokeDasharray="6 4"
+                    strokeOpacity={segment.bridged ? 0.4 : 0.9}
+                  />
+                ))}
+              </g>
+            );
+          })}
+
+          {series.map((entry) => {
+            const vertices = buildRadarVertices(layout, axes, entry.values);
+            const present = vertices.filter((vertex) => vertex.value !== null);
+            return (
+              <g key={entry.id}>
+                {present.length >= 3 ? (
+                  <polygon
+                    points={formatRadarPoints(present)}
+                    fill={entry.color}
+                    fillOpacity={0.15}
+                    stroke="none"
+                  />
+                ) : null}
+                {buildRadarSegments(vertices).map((segment, index) => (
+                  <line
+                    key={index}
+                    x1={segment.from.x}
+                    y1={segment.from.y}
+                    x2={segment.to.x}
+                    y2={segment.to.y}
+                    stroke={entry.color}
+                    strokeWidth={2}
+                    strokeDasharray={segment.bridged ? "4 4" : undefined}
+                    strokeOpacity={segment.bridged ? 0.5 : 1}
+                  />
+                ))}
+                {vertices.map((vertex) =>
+                  vertex.value === null ? (
+                    <circle
+                      key={vertex.axis}
+                      cx={vertex.x}
+                      cy={vertex.y}
+                      r={4}
+                      fill="none"
+                      stroke={entry.color}
+                      strokeWidth={1.5}
+                      strokeDasharray="2 2"
+                    />
+                  ) : (
+                    <circle
+                      key={vertex.axis}
+                      cx={vertex.x}
+                      cy={vertex.y}
+                      r={3}
+                      fill={entry.color}
+                    />
+                  )
+                )}
+              </g>
+            );
+          })}
+
+          {axes.map((axis, index) => {
+            const edge = getRadarPoint(layout, axes.length, index, 1.1);
+            return (
+              <line
+                key={axis}
+                data-export-ignore=""
+                x1={layout.center}
+                y1={layout.center}
+                x2={edge.x}
+                y2={edge.y}
+                stroke="transparent"
+                strokeWidth={18}
+                onMouseEnter={() => setHoveredAxis(index)}
+              />
+            );
+          })}
+
+          {showLegend
+            ? legend.map((entry, index) => {
+                const y = size + index * LEGEND_ROW_HEIGHT + 8;
+                const isReference = references.includes(entry);
+                return (
+                  <g key={entry.id} transform={`translate(16, ${y})`}>
+                    <line
+                      x1={0}
+                      y1={6}
+                      x2={16}
+                      y2={6}
+                      stroke={entry.color}
+                      strokeWidth={2}
+                      strokeDasharray={isReference ? "4 3" : undefined}
+                    />
+                    <text x={24} y={6} dominantBaseline="middle" fontSize={10} fill={LABEL_COLOR}>
+                      {entry.label}
+                    </text>
+                  </g>
+                );
+              })
+            : null}
+        </svg>
+
+        {hoveredName && tooltipAnchor ? (
+          <div
+            className="pointer-events-none absolute z-10 min-w-[8rem] -translate-x-1/2 -translate-y-full rounded-lg border border-slate-700 bg-slate-950/95 px-3 py-2 text-xs shadow-lg"
+            style={{
+              left: `${(tooltipAnchor.x / size) * 100}%`,
+              top: `${(tooltipAnchor.y / height) * 100}%`
+            }}
+          >
+            <p className="font-semibold uppercase tracking-[0.2em] text-slate-400">
+              {hoveredName}
+            </p>
+            <ul className="mt-1 space-y-1">
+              {legend.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-3">
+                  <span className="flex items-center gap-2 text-slate-300">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: entry.color }}
+                    />
+                    {entry.label}
+                  </span>
+                  <span className="font-semibold text-slate-100">
+                    {formatValue(entry.values[hoveredName])}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+
+      {exportName ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => handleExport("png")}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+          >
+            Export PNG
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport("svg")}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+          >
+            Export SVG
+          </button>
+        </div>
+      ) : null}
+      {exportError ? <p className="text-xs text-rose-200">{exportError}</p> : null}
+    </div>
+  );
+}
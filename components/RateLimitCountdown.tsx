@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type RateLimitCountdownProps = {
+  // Epoch ms after which requests are allowed again.
+  until: number;
+  onExpire: () => void;
+};
+
+const formatRemaining = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}:${String(rest).padStart(2, "0")}` : `${rest}s`;
+};
+
+export default function RateLimitCountdown({ until, onExpire }: RateLimitCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remainingSec = Math.max(0, Math.ceil((until - now) / 1000));
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    if (remainingSec === 0) {
+      onExpire();
+    }
+  }, [remainingSec, onExpire]);
+
+  return (
+    <div
+      role="status"
+      className="mt-4 rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-200"
+    >
+      Too many requests in a short time. You can try again in{" "}
+      <span className="font-semibold tabular-nums">{formatRemaining(remainingSec)}</span>.
+    </div>
+  );
+}
@@ -1,76 +1,37 @@
 import type { JobResponse } from "@/lib/api";
+import { isComparableJobStatus } from "@/lib/jobs";
+import { resolveEvidenceMetrics } from "@/lib/metrics";
+import { resolveRadarAxes } from "@/lib/radar";
 import { extractWarnings } from "@/lib/warnings";
+import ClipPlayer from "@/components/ClipPlayer";
+import RadarChart from "@/components/RadarChart";
 
-const formatScore = (value?: number) => {
+const formatScore = (value?: number | null) => {
   if (value === undefined || value === null) {
     return "—";
   }
   return value.toFixed(1);
 };
 
-const resolveStringField = (...values: Array<unknown>) => {
-  for (const value of values) {
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value;
-    }
-  }
-  return null;
-};
-
-const resolveMetricValue = (source: Record<string, unknown> | null, keys: string[]) => {
-  if (!source) {
-    return null;
-  }
-  for (const key of keys) {
-    const value = source[key];
-    if (typeof value === "number" && Number.isFinite(value)) {
-      return value;
-    }
-    if (typeof value === "string" && value.trim().length > 0) {
-      const parsed = Number(value);
-      return Number.isFinite(parsed) ? parsed : value;
-    }
-  }
-  return null;
-};
-
 export default function ResultView({ job }: { job: JobResponse }) {
   const result = job.result ?? null;
-  const summary = result?.summary ?? null;
-  const summaryRecord = summary as Record<string, unknown> | null;
-  const overallScore = result?.overallScore ?? summary?.overallScore ?? null;
-  const roleScore =
-    result?.roleScore ??
-    (summaryRecord?.roleScore as number | null | undefined) ??
-    null;
-  const playerRole = result?.playerRole ?? summary?.playerRole ?? null;
-  const radarEntries = Object.entries(result?.radar ?? {});
-  const expectedRadarKeys = Array.isArray(result?.radarExpected)
-    ? result?.radarExpected
-    : Array.isArray(result?.radar_expected)
-      ? result?.radar_expected
-      : Array.isArray(result?.radarKeys)
-        ? result?.radarKeys
-        : Array.isArray(result?.radar_keys)
-          ? result?.radar_keys
-          : null;
+  const overallScore = result?.overallScore ?? null;
+  const roleScore = result?.roleScore ?? null;
+  const playerRole = result?.playerRole ?? null;
+  const radar = result?.radar ?? {};
+  const expectedRadarKeys = result?.radarExpected ?? null;
+  const radarAxes = resolveRadarAxes(expectedRadarKeys, Object.keys(radar));
+  const radarEntries = radarAxes.map((axis) => [axis, radar[axis] ?? null] as const);
+  const hasRadarValues = Object.keys(radar).length > 0;
   const isRadarPartial =
     Array.isArray(expectedRadarKeys) &&
     expectedRadarKeys.length > 0 &&
-    radarEntries.length > 0 &&
-    radarEntries.length < expectedRadarKeys.length;
-  const clips = result?.clips ?? result?.assets?.clips ?? [];
-  const inputVideoUrl =
-    result?.assets?.inputVideoUrl ??
-    result?.assets?.input_video_url ??
-    result?.assets?.inputVideo?.signedUrl ??
-    result?.assets?.input_video?.signedUrl ??
-    null;
-  const warningPayload =
-    result?.warnings ??
-    job.warnings ??
-    (job as { data?: { warnings?: unknown[] } }).data?.warnings ??
-    null;
+    hasRadarValues &&
+    expectedRadarKeys.some((axis) => radar[axis] == null);
+  const radarRoleAverage = result?.radarRoleAverage ?? null;
+  const clips = result?.clips ?? [];
+  const inputVideoUrl = result?.assets?.inputVideoUrl ?? null;
+  const warningPayload = result?.warnings ?? job.warnings ?? null;
   const { messages: warningMessages, codes: warningCodes } =
     extractWarnings(warningPayload);
   const overallScoreUnavailable = overallScore == null;
@@ -78,65 +39,40 @@ export default function ResultView({ job }: { job: JobResponse }) {
   const roleScoreUnavailable = roleScore == null;
   const clipExtractionFailed = warningCodes.includes("CLIP_EXTRACTION_FAILED");
   const scoreExplanation =
-    resolveStringField(
-      result?.scoreExplanation,
-      result?.score_explanation,
-      result?.score_detail,
-      result?.scoreDetail,
-      result?.explanation,
-      summaryRecord?.scoreExplanation,
-      summaryRecord?.score_explanation
-    ) ??
-    "Tracking + eventi + normalizzazione per ruolo + pesi.";
-  const metricsSource =
-    (result?.metrics as Record<string, unknown> | undefined) ??
-    (result?.raw_metrics as Record<string, unknown> | undefined) ??
-    (result?.rawMetrics as Record<string, unknown> | undefined) ??
-    (result?.evidence as Record<string, unknown> | undefined) ??
-    null;
-  const evidenceMetrics = [
-    {
-      label: "Distance covered",
-      value: resolveMetricValue(metricsSource, [
-        "distance_covered",
-        "distanceCovered",
-        "distance",
-        "distance_km",
-        "distanceKm"
-      ])
-    },
-    {
-      label: "Top speed",
-      value: resolveMetricValue(metricsSource, [
-        "top_speed",
-        "topSpeed",
-        "max_speed",
-        "maxSpeed"
-      ])
-    },
-    {
-      label: "Successful actions",
-      value: resolveMetricValue(metricsSource, [
-        "successful_actions",
-        "successfulActions",
-        "success_count",
-        "successCount"
-      ])
-    }
-  ].filter((metric) => metric.value !== null);
-  const trackingUrl =
-    resolveStringField(
-      result?.trackingJsonUrl,
-      result?.tracking_json_url,
-      (result?.assets as { trackingJsonUrl?: string })?.trackingJsonUrl,
-      (result?.assets as { tracking_json_url?: string })?.tracking_json_url,
-      (result?.assets as { tracking_url?: string })?.tracking_url
-    ) ?? null;
+    result?.scoreExplanation ?? "Tracking + eventi + normalizzazione per ruolo + pesi.";
+  const evidenceMetrics = resolveEvidenceMetrics(result).filter(
+    (metric) => metric.value !== null
+  );
+  const trackingUrl = result?.trackingJsonUrl ?? null;
+  const reportUrl =
+    job.jobId && result && isComparableJobStatus(job.status)
+      ? `/api/jobs/${encodeURIComponent(job.jobId)}/report`
+      : null;
 
   return (
     <div className="mt-6 space-y-6">
       <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
-        <h3 className="text-lg font-semibold text-white">Valutazione</h3>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-white">Valutazione</h3>
+          {reportUrl ? (
+            <div className="flex flex-wrap gap-3">
+              <a
+                href={reportUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+              >
+                Open report
+              </a>
+              <a
+                href={`${reportUrl}?format=pdf`}
+                className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500"
+              >
+                Download PDF
+              </a>
+            </div>
+          ) : null}
+        </div>
         <div className="mt-4 grid gap-4 sm:grid-cols-2">
           <div className="rounded-xl border border-slate-800 bg-slate-950 p-4">
             <p className="text-xs uppercase tracking-[0.25em] text-slate-500">
@@ -197,26 +133,56 @@ export default function ResultView({ job }: { job: JobResponse }) {
             </span>
           ) : null}
         </div>
-        {radarEntries.length === 0 ? (
+        {!hasRadarValues ? (
           <p className="mt-2 text-sm text-slate-400">
             Radar data not available.
           </p>
         ) : (
-          <dl className="mt-4 grid gap-3 sm:grid-cols-2">
-            {radarEntries.map(([label, value]) => (
-              <div
-                key={label}
-                className="rounded-lg border border-slate-800 bg-slate-950 p-3"
-              >
-                <dt className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                  {label}
-                </dt>
-                <dd className="mt-1 text-lg font-semibold text-slate-100">
-                  {value == null ? "Unavailable" : formatScore(value)}
-                </dd>
+          <>
+            {radarAxes.length >= 3 ? (
+              <div className="mt-4">
+                <RadarChart
+                  axes={radarAxes}
+                  series={[
+                    {
+                      id: "player",
+                      label: playerRole ? `Player · ${playerRole}` : "Player",
+                      color: "#34d399",
+                      values: radar
+                    }
+                  ]}
+                  references={
+                    radarRoleAverage
+                      ? [
+                          {
+                            id: "role-average",
+                            label: `${playerRole ?? "Role"} average`,
+                            color: "#94a3b8",
+                            values: radarRoleAverage
+                          }
+                        ]
+                      : []
+                  }
+                  exportName={`radar-${job.jobId ?? "job"}`}
+                />
               </div>
-            ))}
-          </dl>
+            ) : null}
+            <dl className="mt-4 grid gap-3 sm:grid-cols-2">
+              {radarEntries.map(([label, value]) => (
+                <div
+                  key={label}
+                  className="rounded-lg border border-slate-800 bg-slate-950 p-3"
+                >
+                  <dt className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                    {label}
+                  </dt>
+                  <dd className="mt-1 text-lg font-semibold text-slate-100">
+                    {value == null ? "Unavailable" : formatScore(value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </>
         )}
       </div>
 
@@ -317,14 +283,17 @@ export default function ResultView({ job }: { job: JobResponse }) {
               Input Video
             </p>
             {inputVideoUrl ? (
-              <a
-                href={inputVideoUrl}
-                className="mt-2 inline-flex items-center gap-2 text-emerald-400 hover:text-emerald-300"
-                target="_blank"
-                rel="noreferrer"
-              >
-                Open input video
-              </a>
+              <div className="mt-2 space-y-2">
+                <ClipPlayer videoUrl={inputVideoUrl} clips={clips} />
+                <a
+                  href={inputVideoUrl}
+                  className="inline-flex items-center gap-2 text-emerald-400 hover:text-emerald-300"
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Open input video
+                </a>
+              </div>
             ) : (
               <p className="mt-2 text-slate-400">
                 Input video not available for this job.
@@ -0,0 +1,150 @@
+"use client";
+
+import type { PreviewFrame, TargetSelection } from "@/lib/api";
+import { getSelectionFrameKey, getSelectionTimeSec } from "@/lib/selection";
+
+type TargetAnchorsEditorProps = {
+  anchors: TargetSelection[];
+  frames: PreviewFrame[];
+  editingIndex: number | null;
+  includesDraft: boolean;
+  getFrameSrc: (frame: PreviewFrame) => string;
+  onEdit: (index: number, frame: PreviewFrame | null) => void;
+  onRemove: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onClear: () => void;
+};
+
+const FRAME_TIME_TOLERANCE_SEC = 0.05;
+
+const formatTime = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}s`);
+
+export const findAnchorFrame = (frames: PreviewFrame[], anchor: TargetSelection) => {
+  const frameKey = getSelectionFrameKey(anchor);
+  const timeSec = getSelectionTimeSec(anchor);
+  return (
+    (frameKey ? frames.find((frame) => frame.key === frameKey) : undefined) ??
+    (timeSec !== null
+      ? frames.find(
+          (frame) =>
+            frame.timeSec !== null &&
+            Math.abs(frame.timeSec - timeSec) <= FRAME_TIME_TOLERANCE_SEC
+        )
+      : undefined) ??
+    null
+  );
+};
+
+export default function TargetAnchorsEditor({
+  anchors,
+  frames,
+  editingIndex,
+  includesDraft,
+  getFrameSrc,
+  onEdit,
+  onRemove,
+  onMove,
+  onClear
+}: TargetAnchorsEditorProps) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
+          Target anchors ({anchors.length})
+        </p>
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400 transition hover:text-slate-200"
+        >
+          Clear
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-slate-500">
+        Anchors are submitted in this order so the tracker can re-acquire the player after
+        occlusions or substitutions.
+        {includesDraft ? " The current box will be added as the last anchor." : null}
+      </p>
+      <ol className="mt-3 space-y-2">
+        {anchors.map((anchor, index) => {
+          const frame = findAnchorFrame(frames, anchor);
+          const src = frame ? getFrameSrc(frame) : "";
+          const trackId = anchor.trackId ?? anchor.track_id ?? null;
+          return (
+            <li
+              key={`${getSelectionTimeSec(anchor) ?? "t"}-${anchor.x}-${anchor.y}-${index}`}
+              className={`flex items-center gap-3 rounded-lg border p-2 ${
+                editingIndex === index
+                  ? "border-amber-300/70 bg-amber-300/5"
+                  : "border-slate-800 bg-slate-950"
+              }`}
+            >
+              <span className="w-5 text-center text-xs font-semibold text-slate-400">
+                {index + 1}
+              </span>
+              <button
+                type="button"
+                onClick={() => onEdit(index, frame)}
+                className="relative aspect-video w-24 shrink-0 overflow-hidden rounded bg-slate-900"
+                title="Edit this anchor"
+              >
+                {src ? (
+                  <img
+                    src={src}
+                    alt={`Anchor ${index + 1}`}
+                    className="h-full w-full object-cover"
+                    loading="lazy"
+                    draggable={false}
+                  />
+                ) : null}
+                <span
+                  className="pointer-events-none absolute border-2 border-amber-400"
+                  style={{
+                    left: `${anchor.x * 100}%`,
+                    top: `${anchor.y * 100}%`,
+                    width: `${anchor.w * 100}%`,
+                    height: `${anchor.h * 100}%`
+                  }}
+                />
+              </button>
+              <div className="min-w-0 flex-1 text-xs text-slate-300">
+                <p>{formatTime(getSelectionTimeSec(anchor))}</p>
+                <p className="text-slate-500">
+                  {trackId && trackId !== "0" ? `Track ${trackId}` : "Manual box"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => onMove(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={`Move anchor ${index + 1} up`}
+                  className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onMove(index, index + 1)}
+                  disabled={index === anchors.length - 1}
+                  aria-label={`Move anchor ${index + 1} down`}
+                  className="rounded border border-slate-700 px-2 py-1 text-xs text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(index)}
+                  aria-label={`Delete anchor ${index + 1}`}
+                  className="rounded border border-slate-700 px-2 py-1 text-xs text-rose-200 transition hover:border-rose-400/60"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
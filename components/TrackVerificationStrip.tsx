@@ -0,0 +1,140 @@
+"use client";
+
+import type { PreviewFrame } from "@/lib/api";
+import type { NormalizedBBox } from "@/lib/selection";
+import {
+  verifyTrackAcrossFrames,
+  type TrackFrameCheck,
+  type TrackFrameStatus
+} from "@/lib/trackVerification";
+
+type TrackVerificationStripProps = {
+  frames: PreviewFrame[];
+  trackId: string;
+  selection: unknown;
+  getFrameSrc: (frame: PreviewFrame) => string;
+  onFixFrame: (frame: PreviewFrame, bbox: NormalizedBBox | null) => void;
+};
+
+const statusStyles: Record<TrackFrameStatus, { label: string; badge: string; box: string }> = {
+  ok: {
+    label: "ok",
+    badge: "bg-emerald-500/20 text-emerald-200",
+    box: "border-emerald-400"
+  },
+  missing: {
+    label: "missing",
+    badge: "bg-slate-700 text-slate-200",
+    box: "border-slate-400"
+  },
+  jump: {
+    label: "jump",
+    badge: "bg-amber-500/20 text-amber-200",
+    box: "border-amber-400"
+  },
+  mismatch: {
+    label: "mismatch",
+    badge: "bg-rose-500/20 text-rose-200",
+    box: "border-rose-400"
+  }
+};
+
+const formatTime = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}s`);
+
+export default function TrackVerificationStrip({
+  frames,
+  trackId,
+  selection,
+  getFrameSrc,
+  onFixFrame
+}: TrackVerificationStripProps) {
+  const verification = verifyTrackAcrossFrames(frames, trackId, selection);
+  const issues = verification.missingCount + verification.jumpCount;
+
+  const renderFrame = (check: TrackFrameCheck) => {
+    const style = statusStyles[check.status];
+    const src = getFrameSrc(check.frame);
+    return (
+      <li key={check.frame.key} className="w-40 shrink-0">
+        <button
+          type="button"
+          onClick={() => onFixFrame(check.frame, check.bbox)}
+          className={`group block w-full overflow-hidden rounded-lg border bg-slate-950 text-left transition hover:border-slate-500 ${
+            check.isSelectionFrame ? "border-amber-300/70" : "border-slate-800"
+          }`}
+          title={check.bbox ? "Use this frame for the target" : "Draw the target on this frame"}
+        >
+          <div className="relative aspect-video bg-slate-900">
+            {src ? (
+              <img
+                src={src}
+                alt={`Frame at ${formatTime(check.timeSec)}`}
+                className="h-full w-full object-cover"
+                loading="lazy"
+                draggable={false}
+              />
+            ) : null}
+            {check.bbox ? (
+              <span
+                className={`pointer-events-none absolute border-2 ${style.box}`}
+                style={{
+                  left: `${check.bbox.x * 100}%`,
+                  top: `${check.bbox.y * 100}%`,
+                  width: `${check.bbox.w * 100}%`,
+                  height: `${check.bbox.h * 100}%`
+                }}
+              />
+            ) : null}
+          </div>
+          <div className="flex items-center justify-between gap-2 px-2 py-1 text-[11px]">
+            <span className="text-slate-400">
+              {formatTime(check.timeSec)}
+              {check.isSelectionFrame ? " · target" : null}
+            </span>
+            <span
+              className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-[0.15em] ${style.badge}`}
+            >
+              {style.label}
+            </span>
+          </div>
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs uppercase tracking-[0.2em] text-slate-400">
+          Track {trackId} verification
+        </p>
+        <span className="text-xs text-slate-500">
+          Visible in {verification.visibleCount}/{verification.frames.length} frames
+          {verification.jumpCount > 0 ? ` · ${verification.jumpCount} jumps` : null}
+        </span>
+      </div>
+      {verification.selectionMismatch ? (
+        <p className="mt-2 text-xs text-rose-200">
+          The target box does not match this track on its frame; the backend will likely
+          reject it with TARGET_MISMATCH. Pick a frame below to fix it.
+        </p>
+      ) : issues > 0 ? (
+        <p className="mt-2 text-xs text-amber-200">
+          The track disappears or jumps in some frames. Check them, and anchor the target on a
+          frame where the player is clearly tracked.
+        </p>
+      ) : (
+        <p className="mt-2 text-xs text-slate-500">
+          The track is consistent across the preview frames.
+        </p>
+      )}
+      {verification.frames.length > 0 ? (
+        <ul className="mt-3 flex gap-3 overflow-x-auto pb-2">
+          {verification.frames.map(renderFrame)}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-slate-500">No preview frames available yet.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useRef, useState, type DragEvent } from "react";
+import {
+  discardUpload,
+  hasResumableUpload,
+  isUploadAbortError,
+  uploadFileMultipart,
+  type UploadProgress
+} from "@/lib/upload";
+
+type UploadedVideo = {
+  key: string;
+  bucket: string;
+  uploadToken: string | null;
+};
+
+type VideoUploadProps = {
+  disabled?: boolean;
+  onUploaded: (video: UploadedVideo) => void | Promise<void>;
+};
+
+type UploadState = "idle" | "uploading" | "paused" | "completed" | "failed";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unexpected error";
+
+export default function VideoUpload({ disabled = false, onUploaded }: VideoUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [state, setState] = useState<UploadState>("idle");
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [resumable, setResumable] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const selectFile = (nextFile: File | null) => {
+    if (!nextFile || state === "uploading") {
+      return;
+    }
+    if (!nextFile.type.startsWith("video/")) {
+      setError("Select a video file.");
+      return;
+    }
+    setFile(nextFile);
+    setState("idle");
+    setProgress(null);
+    setError(null);
+    setResumable(hasResumableUpload(nextFile));
+  };
+
+  const startUpload = async () => {
+    if (!file) {
+      return;
+    }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setState("uploading");
+    setError(null);
+    try {
+      const uploaded = await uploadFileMultipart(file, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      setState("completed");
+      setResumable(false);
+      await onUploaded(uploaded);
+    } catch (uploadError) {
+      if (isUploadAbortError(uploadError)) {
+        setState("paused");
+        setResumable(true);
+        return;
+      }
+      setState("failed");
+      setResumable(hasResumableUpload(file));
+      setError(toErrorMessage(uploadError));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const handleCancel = async () => {
+    abortControllerRef.current?.abort();
+    if (file) {
+      await discardUpload(file);
+    }
+    setFile(null);
+    setState("idle");
+    setProgress(null);
+    setError(null);
+    setResumable(false);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    if (disabled) {
+      return;
+    }
+    selectFile(event.dataTransfer.files?.[0] ?? null);
+  };
+
+  const pct =
+    progress && progress.totalBytes > 0
+      ? Math.round((progress.uploadedBytes / progress.totalBytes) * 100)
+      : 0;
+
+  return (
+    <div className="space-y-3">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => {
+          if (!disabled && state !== "uploading") {
+            inputRef.current?.click();
+          }
+        }}
+        onKeyDown={(event) => {
+          if ((event.key === "Enter" || event.key === " ") && !disabled) {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={`rounded-lg border border-dashed px-4 py-5 text-center text-sm transition ${
+          dragActive
+            ? "border-emerald-400 bg-emerald-500/10 text-emerald-200"
+            : "border-slate-700 bg-slate-950 text-slate-400 hover:border-slate-500"
+        } ${disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"}`}
+      >
+        {file ? (
+          <span className="break-all text-slate-200">
+            {file.name} · {formatBytes(file.size)}
+          </span>
+        ) : (
+          <span>Drop a video here or click to upload</span>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(event) => {
+            selectFile(event.target.files?.[0] ?? null);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {file && state !== "idle" ? (
+        <div>
+          <div className="h-2 w-full rounded-full bg-slate-800">
+            <div
+              className="h-2 rounded-full bg-emerald-500 transition-all"
+              style={{ width: `${pct}%` }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-slate-500">
+            {progress
+              ? `${formatBytes(progress.uploadedBytes)} / ${formatBytes(progress.totalBytes)} · part ${progress.completedParts}/${progress.totalParts}`
+              : "Preparing upload..."}
+            {state === "completed" ? " · uploaded" : null}
+            {state === "paused" ? " · paused" : null}
+          </p>
+        </div>
+      ) : null}
+
+      {file && state !== "completed" ? (
+        <div className="flex flex-wrap gap-3">
+          {state === "uploading" ? (
+            <button
+              type="button"
+              onClick={() => abortControllerRef.current?.abort()}
+              className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 hover:border-slate-500"
+            >
+              Pause
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={startUpload}
+              disabled={disabled}
+              className="rounded-lg bg-emerald-500 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-950 hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {resumable ? "Resume upload" : "Upload & create job"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 hover:border-slate-500"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-xs text-rose-200">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { Fragment, useEffect, useRef, useState, type ReactNode } from "react";
+
+type VirtualCandidateGridProps<T> = {
+  items: T[];
+  // Scroll goes back to the top when this changes (new job or new filters),
+  // not when polling or re-ranking hands over a new `items` array.
+  resetKey: string;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  // Height of one row of cards before it has been measured, gap excluded.
+  estimatedRowHeight: number;
+};
+
+// Matches `gap-3`.
+const ROW_GAP_PX = 12;
+const OVERSCAN_ROWS = 2;
+
+// Same breakpoints as the `sm:grid-cols-2 xl:grid-cols-3` grids it replaces.
+const getColumnCount = (viewportWidth: number) =>
+  viewportWidth >= 1280 ? 3 : viewportWidth >= 640 ? 2 : 1;
+
+// Scrollable card grid that mounts only the rows in view (plus a few above and
+// below). Rows share one height, taken from the tallest row measured so far, so
+// the scroll offset maps straight to a row index.
+export default function VirtualCandidateGrid<T>({
+  items,
+  resetKey,
+  getKey,
+  renderItem,
+  estimatedRowHeight
+}: VirtualCandidateGridProps<T>) {
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const firstRowRef = useRef<HTMLDivElement | null>(null);
+  const [columns, setColumns] = useState(1);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+
+  const rowStride = rowHeight + ROW_GAP_PX;
+  const rowCount = Math.ceil(items.length / columns);
+  const startRow = Math.max(0, Math.floor(scrollTop / rowStride) - OVERSCAN_ROWS);
+  const endRow = Math.min(
+    rowCount,
+    Math.ceil((scrollTop + viewportHeight) / rowStride) + OVERSCAN_ROWS
+  );
+
+  useEffect(() => {
+    const updateSize = () => {
+      setColumns(getColumnCount(window.innerWidth));
+      setViewportHeight(viewportRef.current?.clientHeight ?? 0);
+    };
+
+    updateSize();
+    window.addEventListener("resize", updateSize);
+    return () => window.removeEventListener("resize", updateSize);
+  }, []);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport) {
+      viewport.scrollTop = 0;
+    }
+    setScrollTop(0);
+  }, [resetKey]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport) {
+      setViewportHeight(viewport.clientHeight);
+    }
+  }, [rowCount, rowHeight]);
+
+  useEffect(() => {
+    const row = firstRowRef.current;
+    if (!row || typeof ResizeObserver === "undefined") {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      const measured = row.offsetHeight;
+      setRowHeight((prev) => (measured > prev ? measured : prev));
+    });
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [startRow, columns, items]);
+
+  const rows: T[][] = [];
+  for (let row = startRow; row < endRow; row += 1) {
+    rows.push(items.slice(row * columns, (row + 1) * columns));
+  }
+
+  return (
+    <div
+      ref={viewportRef}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      className="max-h-[40rem] overflow-y-auto pr-1"
+    >
+      <div
+        className="relative"
+        style={{ height: Math.max(0, rowCount * rowStride - ROW_GAP_PX) }}
+      >
+        <div
+          className="absolute inset-x-0 flex flex-col gap-3"
+          style={{ top: startRow * rowStride }}
+        >
+          {rows.map((rowItems, index) => (
+            <div
+              key={startRow + index}
+              ref={index === 0 ? firstRowRef : undefined}
+              className="grid gap-3"
+              style={{
+                gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                minHeight: rowHeight
+              }}
+            >
+              {rowItems.map((item) => (
+                <Fragment key={getKey(item)}>{renderItem(item)}</Fragment>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useRef, type PointerEvent } from "react";
+import {
+  PREVIEW_ZOOM_MAX,
+  PREVIEW_ZOOM_MIN,
+  PREVIEW_ZOOM_STEP,
+  centerZoomOn,
+  defaultPreviewZoom,
+  getZoomViewport,
+  zoomAroundPoint,
+  type PreviewZoom
+} from "@/lib/previewZoom";
+
+type ZoomControlsProps = {
+  zoom: PreviewZoom;
+  width: number;
+  height: number;
+  imageSrc: string;
+  onChange: (zoom: PreviewZoom) => void;
+};
+
+const buttonClass =
+  "rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50";
+
+export default function ZoomControls({
+  zoom,
+  width,
+  height,
+  imageSrc,
+  onChange
+}: ZoomControlsProps) {
+  const draggingRef = useRef(false);
+  const viewport = getZoomViewport(zoom, width, height);
+  const isZoomed = zoom.scale > PREVIEW_ZOOM_MIN;
+
+  const zoomBy = (factor: number) =>
+    onChange(
+      zoomAroundPoint(zoom, zoom.scale * factor, { x: width / 2, y: height / 2 }, width, height)
+    );
+
+  const moveViewport = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (!rect.width || !rect.height) {
+      return;
+    }
+    onChange(
+      centerZoomOn(
+        zoom,
+        {
+          x: (event.clientX - rect.left) / rect.width,
+          y: (event.clientY - rect.top) / rect.height
+        },
+        width,
+        height
+      )
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => zoomBy(1 / PREVIEW_ZOOM_STEP)}
+          disabled={!isZoomed}
+          aria-label="Zoom out"
+          className={buttonClass}
+        >
+          −
+        </button>
+        <span className="w-12 text-center text-xs text-slate-400">
+          {Math.round(zoom.scale * 100)}%
+        </span>
+        <button
+          type="button"
+          onClick={() => zoomBy(PREVIEW_ZOOM_STEP)}
+          disabled={zoom.scale >= PREVIEW_ZOOM_MAX}
+          aria-label="Zoom in"
+          className={buttonClass}
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(defaultPreviewZoom)}
+          disabled={!isZoomed}
+          className={buttonClass}
+        >
+          Fit
+        </button>
+      </div>
+      {isZoomed && imageSrc ? (
+        <div
+          title="Drag to move the zoomed view"
+          className="relative w-32 cursor-crosshair touch-none overflow-hidden rounded border border-slate-700 bg-slate-950"
+          onPointerDown={(event) => {
+            draggingRef.current = true;
+            event.currentTarget.setPointerCapture(event.pointerId);
+            moveViewport(event);
+          }}
+          onPointerMove={(event) => {
+            if (draggingRef.current) {
+              moveViewport(event);
+            }
+          }}
+          onPointerUp={() => {
+            draggingRef.current = false;
+          }}
+          onPointerCancel={() => {
+            draggingRef.current = false;
+          }}
+        >
+          <img
+            src={imageSrc}
+            alt=""
+            className="h-auto w-full select-none opacity-70"
+            draggable={false}
+          />
+          <span
+            className="pointer-events-none absolute border border-amber-300 bg-amber-300/10"
+            style={{
+              left: `${viewport.x * 100}%`,
+              top: `${viewport.y * 100}%`,
+              width: `${viewport.w * 100}%`,
+              height: `${viewport.h * 100}%`
+            }}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
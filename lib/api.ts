@@ -1,4 +1,24 @@
-type CreateJobVideoPayload =
+import type { SessionUser } from "@/lib/auth";
+import { array, coerceNumber, parsePayload, type SchemaDiagnostic } from "@/lib/schema";
+import {
+  DEFAULT_RESULT_SCHEMA_VERSION,
+  jobSchema,
+  previewFrameSchema,
+  selectionSchema,
+  trackCandidateSchema,
+  trackCandidatesSchema,
+  type NormalizedJob,
+  type NormalizedJobClip,
+  type NormalizedJobResult,
+  type NormalizedPreviewFrame,
+  type NormalizedPreviewFrameTrack,
+  type NormalizedSelection,
+  type NormalizedTrackCandidate,
+  type NormalizedTrackCandidateSampleFrame
+} from "@/lib/schemas";
+import type { NormalizedBBox } from "@/lib/selection";
+
+export type CreateJobVideoPayload =
   | {
       video_url: string;
       video_key?: never;
@@ -28,36 +48,36 @@ export type JobStatus =
   | string;
 
 export type JobProgress = {
-  pct?: number;
-  step?: string;
-  message?: string;
-  updatedAt?: string;
-  autodetection_status?: string;
-  autodetectionStatus?: string;
-  totalTracks?: number;
-  total_tracks?: number;
-  error_detail?: string;
-  errorDetail?: string;
+  pct?: number | null;
+  step?: string | null;
+  message?: string | null;
+  updatedAt?: string | null;
+  autodetectionStatus?: string | null;
+  errorDetail?: string | null;
+  totalTracks?: number | null;
+  framesProcessed?: number | null;
 };
 
 export type JobResultSummary = {
-  playerRole?: string;
-  overallScore?: number;
+  playerRole?: string | null;
+  overallScore?: number | null;
+  roleScore?: number | null;
+  scoreExplanation?: string | null;
 };
 
 export type JobAssetVideo = {
-  s3Key?: string;
-  signedUrl?: string;
-  expiresIn?: number;
+  s3Key?: string | null;
+  signedUrl?: string | null;
+  expiresIn?: number | null;
 };
 
 export type JobClip = {
-  index?: number;
-  start?: number;
-  end?: number;
-  s3Key?: string;
-  signedUrl?: string;
-  expiresIn?: number;
+  index?: number | null;
+  start?: number | null;
+  end?: number | null;
+  s3Key?: string | null;
+  signedUrl?: string | null;
+  expiresIn?: number | null;
 };
 
 export type PreviewFrame = {
@@ -81,51 +101,93 @@ export type PreviewFrameTrack = {
   h?: number | null;
 };
 
-export type FrameItem = {
-  name: string;
-  url: string;
-  key: string;
-  width?: number | null;
-  height?: number | null;
-  time_sec?: number | null;
-};
-
 export type JobResult = {
-  schema_version?: string;
-  summary?: JobResultSummary;
+  schemaVersion: string;
+  summary?: JobResultSummary | null;
+  overallScore?: number | null;
+  roleScore?: number | null;
+  playerRole?: string | null;
   radar?: Record<string, number>;
+  radarExpected?: string[] | null;
+  radarRoleAverage?: Record<string, number> | null;
   assets?: {
-    inputVideo?: JobAssetVideo;
-    inputVideoUrl?: string;
-    input_video_url?: string;
-    input_video?: JobAssetVideo;
+    inputVideo?: JobAssetVideo | null;
+    inputVideoUrl?: string | null;
     clips?: JobClip[];
+    trackingJsonUrl?: string | null;
   };
   clips?: JobClip[];
   previewFrames?: PreviewFrame[];
   warnings?: unknown[];
-  [key: string]: any;
+  metrics?: Record<string, unknown> | null;
+  scoreExplanation?: string | null;
+  trackingJsonUrl?: string | null;
+  playerRef?: unknown;
 };
 
 export type JobResponse = {
   jobId?: string;
   status?: JobStatus;
+  ownerId?: string;
   progress?: JobProgress;
-  autodetection_status?: string;
-  autodetectionStatus?: string;
-  error_detail?: string;
-  errorDetail?: string;
+  autodetectionStatus?: string | null;
+  errorDetail?: string | null;
   previewFrames?: PreviewFrame[];
   result?: JobResult;
-  playerRef?: FrameSelection;
+  playerRef?: FrameSelection | null;
   playerRefRaw?: unknown;
   target?: JobTarget;
   error?: string;
   warnings?: unknown[];
-  createdAt?: string;
-  updatedAt?: string;
+  createdAt?: string | null;
+  updatedAt?: string | null;
   videoUrl?: string;
+  videoKey?: string;
+  videoBucket?: string;
   teamName?: string;
+  role?: string;
+  category?: string;
+  shirtNumber?: number | null;
+  schemaDiagnostics?: SchemaDiagnostic[];
+};
+
+export type JobListFilters = {
+  status?: string | null;
+  role?: string | null;
+  category?: string | null;
+  team?: string | null;
+  cursor?: string | null;
+  limit?: number | null;
+};
+
+export type JobListResponse = {
+  items: JobResponse[];
+  nextCursor: string | null;
+};
+
+export type UploadSession = {
+  uploadId: string;
+  key: string;
+  bucket: string;
+  partSize: number | null;
+  // Signed by /api/uploads; the upload routes answer 404 without it.
+  uploadToken: string | null;
+};
+
+export type UploadPartUrl = {
+  partNumber: number;
+  url: string;
+};
+
+export type UploadedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+export type CreateUploadPayload = {
+  filename: string;
+  contentType: string;
+  size: number;
 };
 
 export type JobFrame = {
@@ -165,7 +227,8 @@ export type TargetSelection = {
 
 export type JobTarget = {
   selections?: TargetSelection[];
-  [key: string]: any;
+  selection?: TargetSelection | null;
+  confirmed?: boolean;
 };
 
 export type TrackCandidateSampleFrame = {
@@ -190,6 +253,7 @@ export type TrackCandidate = {
   best_preview_frame_key?: string | null;
   thumbnailUrl?: string | null;
   tier?: string | null;
+  shirtNumber?: number | null;
   frameTimeSec?: number | null;
   frame_time_sec?: number | null;
   t?: number | null;
@@ -213,182 +277,70 @@ const jsonHeaders = {
 
 const DEFAULT_TIMEOUT_MS = 15000;
 
-const coerceNumber = (value: unknown): number | null => {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) {
-      return null;
-    }
-    const parsed = Number(trimmed);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
 const toJsonBody = (payload?: unknown) => JSON.stringify(payload ?? {});
 
-const unwrap = <T,>(payload: unknown): T => {
+// Backend responses may come wrapped as `{ ok, data }`.
+export const unwrap = <T,>(payload: unknown): T => {
   if (payload && typeof payload === "object" && "ok" in payload && "data" in payload) {
     return (payload as { data?: T }).data as T;
   }
   return payload as T;
 };
 
-const mapPreviewFrameTrack = (track: UnknownRecord): PreviewFrameTrack => {
-  const trackId =
-    String(
-      track.trackId ??
-        track.track_id ??
-        track.id ??
-        track.track ??
-        ""
-    ) || "unknown";
-  const tier =
-    track.tier ??
-    track.group ??
-    track.section ??
-    track.category ??
-    track.bucket ??
-    track.segment ??
-    null;
-  const scoreHint = coerceNumber(
-    track.score_hint ??
-      track.scoreHint ??
-      track.score ??
-      track.confidence ??
-      null
-  );
-  const bboxSource =
-    track.bbox_xywh ??
-    track.bbox ??
-    track.box ??
-    track.bounding_box ??
-    track.boundingBox ??
-    null;
-  const x = coerceNumber(bboxSource?.x ?? track.x);
-  const y = coerceNumber(bboxSource?.y ?? track.y);
-  const w = coerceNumber(bboxSource?.w ?? track.w);
-  const h = coerceNumber(bboxSource?.h ?? track.h);
-
-  return {
-    trackId,
-    tier,
-    scoreHint,
-    x,
-    y,
-    w,
-    h
-  };
-};
-
-const mapPreviewFrame = (frame: UnknownRecord): PreviewFrame => {
-  const timeSec = coerceNumber(
-    frame.timeSec ?? frame.time_sec ?? frame.timestamp ?? frame.t
-  );
-  const key =
-    frame.key ??
-    frame.frame_key ??
-    frame.s3_key ??
-    frame.s3Key ??
-    `frame-${timeSec}`;
-  const signedUrl = frame.signedUrl ?? frame.signed_url ?? null;
-  const imageUrl =
-    frame.imageUrl ??
-    frame.image_url ??
-    frame.url ??
-    frame.public_url ??
-    frame.publicUrl ??
-    null;
-  const bucket = frame.bucket ?? frame.s3_bucket ?? frame.s3Bucket ?? null;
-  const isPublic =
-    frame.is_public ??
-    frame.isPublic ??
-    frame.public ??
-    frame.publicly_accessible ??
-    frame.publiclyAccessible ??
-    false;
+const toBBoxFields = (bbox: NormalizedBBox | null) => ({
+  x: bbox?.x ?? null,
+  y: bbox?.y ?? null,
+  w: bbox?.w ?? null,
+  h: bbox?.h ?? null
+});
+
+const mapPreviewFrameTrack = (track: NormalizedPreviewFrameTrack): PreviewFrameTrack => ({
+  trackId: track.trackId ?? "unknown",
+  tier: track.tier,
+  scoreHint: track.scoreHint,
+  ...toBBoxFields(track.bbox)
+});
+
+const mapPreviewFrame = (frame: NormalizedPreviewFrame): PreviewFrame => {
+  const { timeSec, signedUrl, imageUrl, bucket } = frame;
+  const key = frame.key ?? `frame-${timeSec}`;
   const publicUrl =
-    !signedUrl && !imageUrl && isPublic && bucket && key
-      ? `https://${bucket}.s3.amazonaws.com/${key}`
+    !signedUrl && !imageUrl && frame.isPublic && bucket && frame.key
+      ? `https://${bucket}.s3.amazonaws.com/${frame.key}`
       : null;
-  const url = signedUrl ?? imageUrl ?? publicUrl ?? "";
-  const width = frame.width ?? frame.w ?? null;
-  const height = frame.height ?? frame.h ?? null;
-
-  const tracksSource =
-    frame.tracks ??
-    frame.track_overlays ??
-    frame.overlay_tracks ??
-    frame.overlayTracks ??
-    frame.trackOverlays ??
-    frame.track_candidates ??
-    frame.candidates ??
-    null;
-  const tracks = Array.isArray(tracksSource)
-    ? tracksSource.map((track) =>
-        track && typeof track === "object"
-          ? mapPreviewFrameTrack(track as UnknownRecord)
-          : null
-      )
-    : null;
-  const filteredTracks = tracks?.filter(Boolean) as PreviewFrameTrack[] | null;
 
   return {
-    ...frame,
     timeSec,
     key,
-    url,
+    url: signedUrl ?? imageUrl ?? publicUrl ?? "",
     signedUrl: signedUrl ?? undefined,
-    width,
-    height,
-    tracks: filteredTracks ?? undefined
-  };
-};
-
-const mapFrameListItem = (frame: UnknownRecord): FrameItem => {
-  const timeSec = coerceNumber(
-    frame.timeSec ?? frame.time_sec ?? frame.timestamp ?? frame.t
-  );
-  const key =
-    frame.key ?? frame.frame_key ?? frame.s3_key ?? `frame-${timeSec ?? 0}`;
-  const url =
-    frame.signedUrl ??
-    frame.signed_url ??
-    frame.imageUrl ??
-    frame.image_url ??
-    frame.url ??
-    "";
-  const width = frame.width ?? frame.w ?? null;
-  const height = frame.height ?? frame.h ?? null;
-  const name = frame.name ?? frame.filename ?? key;
-
-  return {
-    name,
-    url,
-    key,
-    width,
-    height,
-    time_sec: timeSec
+    width: frame.width,
+    height: frame.height,
+    tracks: frame.tracks?.map(mapPreviewFrameTrack),
+    targetCandidates: frame.targetCandidates?.map(mapPreviewFrameTrack)
   };
 };
 
 export const normalizePreviewFrames = (frames: unknown): PreviewFrame[] => {
-  if (!Array.isArray(frames)) {
-    return [];
-  }
-
-  return frames.map(mapPreviewFrame);
+  const { value } = parsePayload(array(previewFrameSchema), frames, "previewFrames");
+  return (value ?? []).map(mapPreviewFrame);
 };
 
-const normalizeFrameListItems = (frames: unknown): FrameItem[] => {
-  if (!Array.isArray(frames)) {
-    return [];
-  }
-
-  return frames.map(mapFrameListItem).filter((frame) => Boolean(frame.url));
+const mapTargetSelection = (selection: NormalizedSelection): TargetSelection => {
+  const { frameTimeSec, frameKey, trackId, bbox } = selection;
+  return {
+    frameTimeSec,
+    frame_time_sec: frameTimeSec,
+    frameKey,
+    frame_key: frameKey,
+    trackId,
+    track_id: trackId,
+    t: frameTimeSec,
+    x: bbox?.x ?? 0,
+    y: bbox?.y ?? 0,
+    w: bbox?.w ?? 0,
+    h: bbox?.h ?? 0
+  };
 };
 
 const normalizePlayerRef = (raw: unknown): FrameSelection | null => {
@@ -398,204 +350,58 @@ const normalizePlayerRef = (raw: unknown): FrameSelection | null => {
 
   if (typeof raw === "string") {
     try {
-      const parsed = JSON.parse(raw) as UnknownRecord;
-      return normalizePlayerRef(parsed);
+      return normalizePlayerRef(JSON.parse(raw) as unknown);
     } catch {
       return null;
     }
   }
 
-  if (typeof raw === "object" && "x" in raw && "y" in raw) {
-    const source = raw as UnknownRecord;
-    const frameTimeSec = coerceNumber(
-      source.frameTimeSec ??
-        source.frame_time_sec ??
-        source.t ??
-        source.time_sec ??
-        source.timeSec
-    );
-    return {
-      frameTimeSec,
-      t: coerceNumber(source.t ?? frameTimeSec) ?? undefined,
-      x: source.x ?? 0,
-      y: source.y ?? 0,
-      w: source.w ?? 0,
-      h: source.h ?? 0
-    };
+  const { value } = parsePayload(selectionSchema, raw, "playerRef");
+  if (!value?.bbox) {
+    return null;
   }
-
-  return null;
-};
-
-const mapTargetSelection = (selection: UnknownRecord): TargetSelection => {
-  const frameTimeSec = coerceNumber(
-    selection.frameTimeSec ??
-      selection.frame_time_sec ??
-      selection.t ??
-      selection.time_sec ??
-      selection.timeSec
-  );
-  const frameKey =
-    selection.frameKey ?? selection.frame_key ?? selection.key ?? null;
   return {
-    frameTimeSec,
-    frame_time_sec: frameTimeSec,
-    frameKey,
-    frame_key: frameKey,
-    t: frameTimeSec ?? selection.t ?? null,
-    x: selection.x ?? 0,
-    y: selection.y ?? 0,
-    w: selection.w ?? 0,
-    h: selection.h ?? 0
+    frameTimeSec: value.frameTimeSec,
+    t: value.frameTimeSec ?? undefined,
+    ...value.bbox
   };
 };
 
 const mapTrackCandidateSampleFrame = (
-  sample: UnknownRecord
-): TrackCandidateSampleFrame => {
-  const frameTimeSec = coerceNumber(
-    sample.frameTimeSec ??
-      sample.frame_time_sec ??
-      sample.t ??
-      sample.time_sec ??
-      sample.timeSec ??
-      sample.sample_time_sec ??
-      sample.sampleTimeSec
-  );
-  const frameKeyRaw =
-    sample.frameKey ??
-    sample.frame_key ??
-    sample.key ??
-    sample.filename ??
-    sample.file_name ??
-    null;
-  const frameKey = frameKeyRaw ?? null;
-  const bboxSource =
-    sample.bbox_xywh ??
-    sample.bbox ??
-    sample.box ??
-    sample.bounding_box ??
-    sample.boundingBox ??
-    null;
-  const x = coerceNumber(bboxSource?.x ?? sample.x);
-  const y = coerceNumber(bboxSource?.y ?? sample.y);
-  const w = coerceNumber(bboxSource?.w ?? sample.w);
-  const h = coerceNumber(bboxSource?.h ?? sample.h);
-  const imageUrl =
-    sample.imageUrl ??
-    sample.image_url ??
-    sample.frameUrl ??
-    sample.frame_url ??
-    sample.thumbnailUrl ??
-    sample.thumbnail_url ??
-    null;
-  const filename =
-    sample.filename ??
-    sample.file_name ??
-    sample.frame_key ??
-    sample.frameKey ??
-    sample.key ??
-    null;
-  return {
-    imageUrl,
-    frameTimeSec,
-    frame_time_sec: frameTimeSec,
-    frameKey,
-    frame_key: frameKey,
-    filename,
-    x,
-    y,
-    w,
-    h
-  };
-};
-
-const mapTrackCandidate = (candidate: UnknownRecord): TrackCandidate => {
-  const sampleFramesSource =
-    candidate.sampleFrames ??
-    candidate.sample_frames ??
-    candidate.samples ??
-    candidate.frames ??
-    [];
-  const sampleFrames = Array.isArray(sampleFramesSource) ? sampleFramesSource : [];
-  const sampleFramesNormalized = sampleFrames
-    .filter((sample) => sample && typeof sample === "object")
-    .map((sample) => mapTrackCandidateSampleFrame(sample as UnknownRecord));
-  const primarySample =
-    sampleFramesNormalized.length > 0 ? sampleFramesNormalized[0] ?? null : null;
-  const trackId =
-    String(
-      candidate.trackId ??
-        candidate.track_id ??
-        candidate.id ??
-        candidate.track ??
-        ""
-    ) || "unknown";
-  const coverage = coerceNumber(candidate.coverage ?? candidate.coverage_pct);
-  const stability = coerceNumber(candidate.stability ?? candidate.stability_score);
-  const avgBoxArea = coerceNumber(
-    candidate.avgBoxArea ??
-      candidate.avg_box_area ??
-      candidate.avg_box ??
-      candidate.avg_box_area_pct
-  );
-  const thumbnailUrl =
-    candidate.thumbnailUrl ??
-    candidate.thumbnail_url ??
-    candidate.sampleUrl ??
-    candidate.sample_url ??
-    candidate.frameUrl ??
-    candidate.frame_url ??
-    candidate.imageUrl ??
-    candidate.image_url ??
-    primarySample?.imageUrl ??
-    null;
-  const tier =
-    candidate.tier ??
-    candidate.group ??
-    candidate.section ??
-    candidate.category ??
-    candidate.bucket ??
-    candidate.segment ??
-    null;
-  const bboxSource =
-    candidate.bbox_xywh ??
-    candidate.bbox ??
-    candidate.box ??
-    candidate.bounding_box ??
-    candidate.boundingBox ??
-    primarySample ?? null;
-  const frameTimeSec = coerceNumber(
-    candidate.frameTimeSec ??
-      candidate.frame_time_sec ??
-      candidate.time_sec ??
-      candidate.timeSec ??
-      candidate.t ??
-      candidate.sample_time_sec ??
-      candidate.sampleTimeSec ??
-      primarySample?.frameTimeSec ??
-      primarySample?.frame_time_sec
-  );
-  const x = coerceNumber(bboxSource?.x ?? candidate.x ?? primarySample?.x);
-  const y = coerceNumber(bboxSource?.y ?? candidate.y ?? primarySample?.y);
-  const w = coerceNumber(bboxSource?.w ?? candidate.w ?? primarySample?.w);
-  const h = coerceNumber(bboxSource?.h ?? candidate.h ?? primarySample?.h);
+  sample: NormalizedTrackCandidateSampleFrame
+): TrackCandidateSampleFrame => ({
+  imageUrl: sample.imageUrl,
+  frameTimeSec: sample.frameTimeSec,
+  frame_time_sec: sample.frameTimeSec,
+  frameKey: sample.frameKey,
+  frame_key: sample.frameKey,
+  filename: sample.filename,
+  ...toBBoxFields(sample.bbox)
+});
+
+const mapTrackCandidate = (candidate: NormalizedTrackCandidate): TrackCandidate => {
+  const sampleFrames = (candidate.sampleFrames ?? []).map(mapTrackCandidateSampleFrame);
+  const primarySample = sampleFrames[0] ?? null;
+  const frameTimeSec = candidate.frameTimeSec ?? primarySample?.frameTimeSec ?? null;
 
   return {
-    trackId,
-    coverage,
-    stability,
-    avgBoxArea,
-    thumbnailUrl,
-    tier,
+    trackId: candidate.trackId ?? "unknown",
+    coverage: candidate.coverage,
+    stability: candidate.stability,
+    avgBoxArea: candidate.avgBoxArea,
+    bestPreviewFrameKey: candidate.bestPreviewFrameKey,
+    best_preview_frame_key: candidate.bestPreviewFrameKey,
+    thumbnailUrl: candidate.thumbnailUrl ?? primarySample?.imageUrl ?? null,
+    tier: candidate.tier,
+    shirtNumber: candidate.shirtNumber,
     frameTimeSec,
     frame_time_sec: frameTimeSec,
     t: frameTimeSec,
-    x,
-    y,
-    w,
-    h,
-    sampleFrames: sampleFramesNormalized
+    x: candidate.bbox?.x ?? primarySample?.x ?? null,
+    y: candidate.bbox?.y ?? primarySample?.y ?? null,
+    w: candidate.bbox?.w ?? primarySample?.w ?? null,
+    h: candidate.bbox?.h ?? primarySample?.h ?? null,
+    sampleFrames
   };
 };
 
@@ -603,31 +409,16 @@ const normalizeTrackCandidates = (payload: unknown): TrackCandidatesResponse =>
   if (!payload) {
     return { candidates: [], fallbackCandidates: [] };
   }
-  const source = Array.isArray(payload)
-    ? payload
-    : (payload as UnknownRecord).items ??
-      (payload as UnknownRecord).candidates ??
-      (payload as UnknownRecord).tracks ??
-      [];
-  const fallbackSource = Array.isArray(payload)
-    ? []
-    : (payload as UnknownRecord).fallback_candidates ??
-      (payload as UnknownRecord).fallbackCandidates ??
-      (payload as UnknownRecord).best_matches ??
-      (payload as UnknownRecord).bestMatches ??
-      (payload as UnknownRecord).fallback ??
-      [];
-
-  const candidates = Array.isArray(source)
-    ? source.map(mapTrackCandidate).filter((candidate) => Boolean(candidate.trackId))
-    : [];
-  const fallbackCandidates = Array.isArray(fallbackSource)
-    ? fallbackSource
-        .map(mapTrackCandidate)
-        .filter((candidate) => Boolean(candidate.trackId))
-    : [];
+  if (Array.isArray(payload)) {
+    const { value } = parsePayload(array(trackCandidateSchema), payload, "trackCandidates");
+    return { candidates: (value ?? []).map(mapTrackCandidate), fallbackCandidates: [] };
+  }
 
-  return { candidates, fallbackCandidates };
+  const { value } = parsePayload(trackCandidatesSchema, payload, "trackCandidates");
+  return {
+    candidates: (value?.candidates ?? []).map(mapTrackCandidate),
+    fallbackCandidates: (value?.fallbackCandidates ?? []).map(mapTrackCandidate)
+  };
 };
 
 const buildCandidatePreviewFrames = (
@@ -711,93 +502,191 @@ const buildCandidatePreviewFrames = (
     .filter((frame) => Boolean(frame.url));
 };
 
-const mapJobResponse = (job: UnknownRecord): JobResponse => {
-  const result = job.result as UnknownRecord | undefined;
-  const previewFramesSource =
-    result?.previewFrames ??
-    result?.preview_frames ??
-    job.previewFrames ??
-    job.preview_frames ??
-    [];
-  const previewFrames = normalizePreviewFrames(previewFramesSource);
+const mapJobClip = (clip: NormalizedJobClip): JobClip => ({ ...clip });
+
+const mapJobResult = (
+  result: NormalizedJobResult | null,
+  previewFrames: PreviewFrame[],
+  jobInputVideoUrl: string | null
+): JobResult => {
+  const summary = result?.summary ?? null;
+  const assets = result?.assets ?? null;
+  const clips = (result?.clips ?? assets?.clips ?? []).map(mapJobClip);
 
   return {
-    ...job,
+    schemaVersion: result?.schemaVersion ?? DEFAULT_RESULT_SCHEMA_VERSION,
+    summary,
+    overallScore: result?.overallScore ?? summary?.overallScore ?? null,
+    roleScore: result?.roleScore ?? summary?.roleScore ?? null,
+    playerRole: result?.playerRole ?? summary?.playerRole ?? null,
+    radar: result?.radar ?? undefined,
+    radarExpected: result?.radarExpected ?? null,
+    radarRoleAverage: result?.radarRoleAverage ?? null,
+    clips,
+    assets: {
+      inputVideo: assets?.inputVideo ?? null,
+      inputVideoUrl:
+        assets?.inputVideoUrl ?? assets?.inputVideo?.signedUrl ?? jobInputVideoUrl ?? null,
+      clips,
+      trackingJsonUrl: assets?.trackingJsonUrl ?? null
+    },
     previewFrames,
-    result: result
-      ? {
-          ...result,
-          previewFrames
-        }
-      : result
+    warnings: result?.warnings ?? undefined,
+    metrics: result?.metrics ?? null,
+    scoreExplanation: result?.scoreExplanation ?? summary?.scoreExplanation ?? null,
+    trackingJsonUrl: result?.trackingJsonUrl ?? assets?.trackingJsonUrl ?? null,
+    playerRef: result?.playerRef ?? null
+  };
+};
+
+const mapJobTarget = (target: NormalizedJob["target"]): JobTarget | undefined => {
+  if (!target) {
+    return undefined;
+  }
+  return {
+    selections: (target.selections ?? []).map(mapTargetSelection),
+    selection: target.selection?.bbox ? mapTargetSelection(target.selection) : null,
+    confirmed: target.confirmed === true
   };
 };
 
+const toErrorText = (value: unknown) => {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value && typeof value === "object" && typeof (value as UnknownRecord).message === "string") {
+    return (value as UnknownRecord).message as string;
+  }
+  return undefined;
+};
+
 export const normalizeJob = (payload: unknown): JobResponse => {
-  const normalized =
+  const source =
     payload && typeof payload === "object" && "data" in payload
       ? (payload as { data?: UnknownRecord }).data ?? {}
       : (payload as UnknownRecord);
-  const data = normalized ?? {};
-  const progressSource = data.progress as UnknownRecord | undefined;
-  const playerRef = data.player_ref ?? data.playerRef ?? null;
-  const inputVideoUrl = data.assets?.inputVideoUrl ?? data.video_url ?? null;
-  const previewFrames = data.preview_frames ?? data.previewFrames ?? [];
-  const normalizedPlayerRef = normalizePlayerRef(playerRef);
-  const rawTarget = data.target ?? data.data?.target ?? null;
-  const targetSelectionsSource = rawTarget?.selections ?? null;
-  const targetSelections = Array.isArray(targetSelectionsSource)
-    ? targetSelectionsSource.map(mapTargetSelection)
-    : [];
-  const target =
-    rawTarget && typeof rawTarget === "object"
-      ? {
-          ...rawTarget,
-          selections: targetSelections
-        }
-      : null;
-  const resultSource = data.result as UnknownRecord | undefined;
-  const assetsSource = resultSource?.assets ?? {};
-  const mergedAssets = {
-    ...data.assets,
-    ...assetsSource,
-    inputVideoUrl:
-      assetsSource.inputVideoUrl ??
-      assetsSource.input_video_url ??
-      data.assets?.inputVideoUrl ??
-      data.video_url ??
-      null,
-    input_video_url:
-      assetsSource.input_video_url ??
-      assetsSource.inputVideoUrl ??
-      data.assets?.inputVideoUrl ??
-      data.video_url ??
-      null
-  };
-  const shouldIncludeResultAssets = resultSource || data.assets || inputVideoUrl;
-  const result = shouldIncludeResultAssets
-    ? {
-        ...(resultSource ?? {}),
-        assets: mergedAssets
-      }
-    : resultSource;
-  const mapped: UnknownRecord = {
-    ...data,
-    createdAt: data.createdAt ?? data.created_at ?? null,
-    updatedAt: data.updatedAt ?? data.updated_at ?? null,
-    playerRef: normalizedPlayerRef,
-    playerRefRaw: playerRef,
-    target,
+  const { value: job, diagnostics } = parsePayload(jobSchema, source ?? {}, "job");
+  if (!job) {
+    return {};
+  }
+
+  const previewFrames = (job.result?.previewFrames ?? job.previewFrames ?? []).map(
+    mapPreviewFrame
+  );
+  const inputVideoUrl = job.assets?.inputVideoUrl ?? job.videoUrl ?? null;
+  const shouldIncludeResult = job.result || job.assets || inputVideoUrl;
+
+  return {
+    jobId: job.jobId ?? undefined,
+    status: job.status ?? undefined,
+    ownerId: job.ownerId ?? undefined,
+    progress: job.progress ?? undefined,
+    autodetectionStatus:
+      job.autodetectionStatus ?? job.progress?.autodetectionStatus ?? null,
+    errorDetail: job.errorDetail ?? job.progress?.errorDetail ?? null,
     previewFrames,
-    result,
-    progress: progressSource
-      ? {
-          ...progressSource,
-          updatedAt: progressSource.updatedAt ?? progressSource.updated_at ?? null
-        }
-      : data.progress
+    result: shouldIncludeResult
+      ? mapJobResult(job.result, previewFrames, inputVideoUrl)
+      : undefined,
+    playerRef: normalizePlayerRef(job.playerRef),
+    playerRefRaw: job.playerRef ?? null,
+    target: mapJobTarget(job.target ?? job.data?.target ?? null),
+    error: toErrorText(job.error),
+    warnings: job.warnings ?? job.data?.warnings ?? undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    videoUrl: job.videoUrl ?? undefined,
+    videoKey: job.videoKey ?? undefined,
+    videoBucket: job.videoBucket ?? undefined,
+    teamName: job.teamName ?? undefined,
+    role: job.role ?? undefined,
+    category: job.category ?? undefined,
+    shirtNumber: job.shirtNumber,
+    schemaDiagnostics: diagnostics.length > 0 ? diagnostics : undefined
   };
-  return mapJobResponse(mapped);
+};
+
+const normalizeJobList = (payload: unknown): JobListResponse => {
+  if (!payload) {
+    return { items: [], nextCursor: null };
+  }
+  const source = Array.isArray(payload)
+    ? payload
+    : (payload as UnknownRecord).items ??
+      (payload as UnknownRecord).jobs ??
+      (payload as UnknownRecord).results ??
+      [];
+  const nextCursorRaw = Array.isArray(payload)
+    ? null
+    : (payload as UnknownRecord).next_cursor ??
+      (payload as UnknownRecord).nextCursor ??
+      (payload as UnknownRecord).cursor ??
+      null;
+  const items = Array.isArray(source)
+    ? source
+        .filter((job) => job && typeof job === "object")
+        .map((job) => normalizeJob(job))
+        .filter((job) => Boolean(job.jobId))
+    : [];
+  const nextCursor =
+    typeof nextCursorRaw === "string" && nextCursorRaw.trim()
+      ? nextCursorRaw
+      : typeof nextCursorRaw === "number"
+        ? String(nextCursorRaw)
+        : null;
+
+  return { items, nextCursor };
+};
+
+const normalizeUploadSession = (payload: unknown): UploadSession => {
+  const record = (payload ?? {}) as UnknownRecord;
+  const uploadId = record.uploadId ?? record.upload_id ?? record.id ?? null;
+  const key = record.key ?? record.video_key ?? record.object_key ?? null;
+  const bucket = record.bucket ?? record.video_bucket ?? null;
+  if (!uploadId || !key || !bucket) {
+    throw new Error("Upload session is missing upload id, key or bucket.");
+  }
+  return {
+    uploadId: String(uploadId),
+    key: String(key),
+    bucket: String(bucket),
+    partSize: coerceNumber(record.partSize ?? record.part_size),
+    uploadToken:
+      typeof record.upload_token === "string" && record.upload_token
+        ? record.upload_token
+        : null
+  };
+};
+
+const uploadHeaders = (session: UploadSession, headers: Record<string, string> = {}) =>
+  session.uploadToken ? { ...headers, "x-upload-token": session.uploadToken } : headers;
+
+const normalizeUploadParts = <T,>(
+  payload: unknown,
+  mapPart: (part: UnknownRecord) => T | null
+): T[] => {
+  const record = payload as UnknownRecord | UnknownRecord[] | null;
+  const source = Array.isArray(record)
+    ? record
+    : record?.parts ?? record?.urls ?? record?.items ?? [];
+  if (!Array.isArray(source)) {
+    return [];
+  }
+  return source
+    .map((part) => (part && typeof part === "object" ? mapPart(part) : null))
+    .filter((part): part is T => part !== null);
+};
+
+const mapUploadPartUrl = (part: UnknownRecord): UploadPartUrl | null => {
+  const partNumber = coerceNumber(part.partNumber ?? part.part_number ?? part.PartNumber);
+  const url = part.url ?? part.signedUrl ?? part.signed_url ?? null;
+  return partNumber !== null && typeof url === "string" ? { partNumber, url } : null;
+};
+
+const mapUploadedPart = (part: UnknownRecord): UploadedPart | null => {
+  const partNumber = coerceNumber(part.partNumber ?? part.part_number ?? part.PartNumber);
+  const etag = part.etag ?? part.ETag ?? part.e_tag ?? null;
+  return partNumber !== null && typeof etag === "string" ? { partNumber, etag } : null;
 };
 
 async function fetchWithTimeout(
@@ -931,9 +820,27 @@ async function handleError(response: Response) {
     message = response.statusText || "Unexpected error";
   }
 
+  const retryAfterHeader = Number(response.headers.get("retry-after"));
+  const retryAfterSec =
+    response.status === 429 && Number.isFinite(retryAfterHeader) && retryAfterHeader > 0
+      ? Math.ceil(retryAfterHeader)
+      : null;
+  if (response.status === 429) {
+    errorCode = errorCode ?? "RATE_LIMITED";
+  }
+
   if (requestId) {
     console.warn("API request_id", requestId);
   }
+  // The session expired while the page was open.
+  if (
+    response.status === 401 &&
+    errorCode === "UNAUTHENTICATED" &&
+    typeof window !== "undefined"
+  ) {
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    window.location.assign(`/login?returnTo=${encodeURIComponent(returnTo)}`);
+  }
   const error = new Error(message);
   (error as Error & { status?: number }).status = response.status;
   if (errorCode) {
@@ -945,13 +852,38 @@ async function handleError(response: Response) {
   if (allowForce !== null) {
     (error as Error & { allowForce?: boolean }).allowForce = allowForce;
   }
+  if (retryAfterSec !== null) {
+    (error as Error & { retryAfterSec?: number }).retryAfterSec = retryAfterSec;
+  }
   throw error;
 }
 
-export async function createJob(payload: CreateJobPayload) {
+// Seconds until a rate-limited request may be retried, or null for other errors.
+export const getRetryAfterSec = (error: unknown) => {
+  const { code, retryAfterSec } = (error ?? {}) as { code?: string; retryAfterSec?: number };
+  return code === "RATE_LIMITED" && typeof retryAfterSec === "number" ? retryAfterSec : null;
+};
+
+export async function getSession(): Promise<SessionUser | null> {
+  const response = await fetchWithTimeout("/api/auth/session", {
+    method: "GET",
+    cache: "no-store"
+  });
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    await handleError(response);
+  }
+  const payload = await response.json().catch(() => null);
+  return payload?.user ?? null;
+}
+
+// Jobs on an uploaded video must send the token the upload was created with.
+export async function createJob(payload: CreateJobPayload, uploadToken: string | null = null) {
   const response = await fetchWithTimeout("/api/jobs", {
     method: "POST",
-    headers: jsonHeaders,
+    headers: uploadToken ? { ...jsonHeaders, "x-upload-token": uploadToken } : jsonHeaders,
     cache: "no-store",
     body: JSON.stringify(payload)
   });
@@ -981,6 +913,37 @@ export async function createJob(payload: CreateJobPayload) {
   return { jobId, status };
 }
 
+export async function listJobs(filters: JobListFilters = {}) {
+  const searchParams = new URLSearchParams();
+  const entries: Array<[string, string | number | null | undefined]> = [
+    ["status", filters.status],
+    ["role", filters.role],
+    ["category", filters.category],
+    ["team_name", filters.team],
+    ["cursor", filters.cursor],
+    ["limit", filters.limit]
+  ];
+  for (const [name, value] of entries) {
+    if (value !== null && value !== undefined && String(value).trim()) {
+      searchParams.set(name, String(value).trim());
+    }
+  }
+  const query = searchParams.toString();
+  const response = await fetchWithTimeout(`/api/jobs${query ? `?${query}` : ""}`, {
+    method: "GET",
+    cache: "no-store"
+  });
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const payload = unwrap<UnknownRecord | UnknownRecord[] | null>(
+    await response.json().catch(() => null)
+  );
+  return normalizeJobList(payload);
+}
+
 export async function enqueueJob(jobId: string) {
   const response = await fetchWithTimeout(`/api/jobs/${jobId}/enqueue`, {
     method: "POST",
@@ -1041,6 +1004,37 @@ export async function getJobFrames(jobId: string, count = TARGET_FRAMES_COUNT) {
   };
 }
 
+// Extracts a single frame at an arbitrary timestamp, e.g. from the video scrubber.
+export async function getJobFrameAt(jobId: string, timeSec: number) {
+  const params = new URLSearchParams({ time_sec: timeSec.toFixed(3), count: "1" });
+  const response = await fetchWithTimeout(`/api/jobs/${jobId}/frames?${params}`, {
+    method: "GET",
+    cache: "no-store"
+  });
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const payload = unwrap<UnknownRecord | UnknownRecord[] | null>(
+    await response.json().catch(() => null)
+  );
+  const frames = normalizePreviewFrames(
+    Array.isArray(payload) ? payload : payload?.items ?? payload?.frames ?? []
+  );
+  const frame = frames
+    .filter((item) => item.timeSec !== null)
+    .sort(
+      (a, b) => Math.abs((a.timeSec ?? 0) - timeSec) - Math.abs((b.timeSec ?? 0) - timeSec)
+    )[0];
+  if (!frame) {
+    const error = new Error(`No frame available at ${timeSec.toFixed(2)}s.`);
+    (error as Error & { code?: string }).code = "FRAME_NOT_AVAILABLE";
+    throw error;
+  }
+  return frame;
+}
+
 export async function saveJobPlayerRef(jobId: string, payload: FrameSelection) {
   const frameTimeSec = payload.frameTimeSec ?? payload.frame_time_sec ?? payload.t ?? null;
   if (frameTimeSec === null || frameTimeSec === undefined) {
@@ -1072,17 +1066,14 @@ export async function saveJobPlayerRef(jobId: string, payload: FrameSelection) {
   return responsePayload;
 }
 
-export async function saveJobTargetSelection(
-  jobId: string,
-  payload: {
-    frameKey: string | null;
-    timeSec: number | null;
-    trackId?: string | number | null;
-    bbox: { x: number; y: number; w: number; h: number };
-    force?: boolean;
-  }
-) {
-  const { frameKey, timeSec, trackId, bbox } = payload;
+export type TargetSelectionPayload = {
+  frameKey: string | null;
+  timeSec: number | null;
+  trackId?: string | number | null;
+  bbox: { x: number; y: number; w: number; h: number };
+};
+
+const toTargetSelectionRequest = ({ frameKey, timeSec, trackId, bbox }: TargetSelectionPayload) => {
   if (frameKey == null && (timeSec === null || timeSec === undefined)) {
     const error = new Error("Target selection payload missing time_sec.");
     (error as Error & { code?: string }).code = "INVALID_PAYLOAD";
@@ -1096,7 +1087,7 @@ export async function saveJobTargetSelection(
     (error as Error & { code?: string }).code = "INVALID_PAYLOAD";
     throw error;
   }
-  const requestPayload = {
+  return {
     ...(frameKey ? { frame_key: frameKey } : {}),
     ...(frameKey ? {} : { frame_time_sec: timeSec }),
     ...(trackId != null ? { track_id: trackId } : {}),
@@ -1105,9 +1096,11 @@ export async function saveJobTargetSelection(
       y: bbox.y,
       w: bbox.w,
       h: bbox.h
-    },
-    ...(payload.force ? { force: true } : {})
+    }
   };
+};
+
+const postJobTarget = async (jobId: string, requestPayload: UnknownRecord) => {
   console.info("[target] payload", requestPayload);
   const response = await fetchWithTimeout(`/api/jobs/${jobId}/target`, {
     method: "POST",
@@ -1124,6 +1117,34 @@ export async function saveJobTargetSelection(
     await response.json().catch(() => null)
   );
   return responsePayload;
+};
+
+export async function saveJobTargetSelection(
+  jobId: string,
+  payload: TargetSelectionPayload & { force?: boolean }
+) {
+  return postJobTarget(jobId, {
+    ...toTargetSelectionRequest(payload),
+    ...(payload.force ? { force: true } : {})
+  });
+}
+
+// Several anchors let the tracker re-acquire the player after occlusions or
+// substitutions; the backend stores them in order as `target.selections`.
+export async function saveJobTargetSelections(
+  jobId: string,
+  selections: TargetSelectionPayload[],
+  { force }: { force?: boolean } = {}
+) {
+  if (selections.length === 0) {
+    const error = new Error("Target selection payload has no selections.");
+    (error as Error & { code?: string }).code = "INVALID_PAYLOAD";
+    throw error;
+  }
+  return postJobTarget(jobId, {
+    selections: selections.map(toTargetSelectionRequest),
+    ...(force ? { force: true } : {})
+  });
 }
 
 export async function pickJobPlayer(
@@ -1159,12 +1180,16 @@ export async function analyzeJobPlayer(
     frame_key: payload.frameKey,
     track_id: payload.trackId
   };
-  const response = await fetchWithTimeout(`/api/jobs/${jobId}/analyze-player`, {
-    method: "POST",
-    headers: jsonHeaders,
-    cache: "no-store",
-    body: JSON.stringify(requestPayload)
-  });
+  const response = await fetchWithTimeout(
+    `/api/jobs/${jobId}/analyze-player`,
+    {
+      method: "POST",
+      headers: jsonHeaders,
+      cache: "no-store",
+      body: JSON.stringify(requestPayload)
+    },
+    60000
+  );
 
   if (!response.ok) {
     await handleError(response);
@@ -1238,3 +1263,109 @@ export async function selectJobTrack(jobId: string, candidate: TrackCandidate) {
   const payload = unwrap<UnknownRecord | null>(await response.json().catch(() => null));
   return payload;
 }
+
+export async function createUpload(payload: CreateUploadPayload) {
+  const response = await fetchWithTimeout("/api/uploads", {
+    method: "POST",
+    headers: jsonHeaders,
+    cache: "no-store",
+    body: JSON.stringify({
+      filename: payload.filename,
+      content_type: payload.contentType,
+      size: payload.size
+    })
+  });
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const responsePayload = unwrap<UnknownRecord | null>(await response.json().catch(() => null));
+  return normalizeUploadSession(responsePayload);
+}
+
+export async function presignUploadParts(
+  session: UploadSession,
+  partNumbers: number[]
+): Promise<UploadPartUrl[]> {
+  const response = await fetchWithTimeout(
+    `/api/uploads/${encodeURIComponent(session.uploadId)}/parts`,
+    {
+      method: "POST",
+      headers: uploadHeaders(session, jsonHeaders),
+      cache: "no-store",
+      body: JSON.stringify({ key: session.key, part_numbers: partNumbers })
+    }
+  );
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const responsePayload = unwrap<unknown>(await response.json().catch(() => null));
+  return normalizeUploadParts(responsePayload, mapUploadPartUrl);
+}
+
+export async function listUploadedParts(session: UploadSession): Promise<UploadedPart[]> {
+  const searchParams = new URLSearchParams({ key: session.key });
+  const response = await fetchWithTimeout(
+    `/api/uploads/${encodeURIComponent(session.uploadId)}/parts?${searchParams.toString()}`,
+    {
+      method: "GET",
+      headers: uploadHeaders(session),
+      cache: "no-store"
+    }
+  );
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const responsePayload = unwrap<unknown>(await response.json().catch(() => null));
+  return normalizeUploadParts(responsePayload, mapUploadedPart);
+}
+
+export async function completeUpload(session: UploadSession, parts: UploadedPart[]) {
+  const response = await fetchWithTimeout(
+    `/api/uploads/${encodeURIComponent(session.uploadId)}/complete`,
+    {
+      method: "POST",
+      headers: uploadHeaders(session, jsonHeaders),
+      cache: "no-store",
+      body: JSON.stringify({
+        key: session.key,
+        parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ part_number: part.partNumber, etag: part.etag }))
+      })
+    },
+    60000
+  );
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+
+  const responsePayload = unwrap<UnknownRecord | null>(await response.json().catch(() => null));
+  return {
+    key: String(responsePayload?.key ?? responsePayload?.video_key ?? session.key),
+    bucket: String(responsePayload?.bucket ?? responsePayload?.video_bucket ?? session.bucket),
+    uploadToken: session.uploadToken
+  };
+}
+
+export async function abortUpload(session: UploadSession) {
+  const searchParams = new URLSearchParams({ key: session.key });
+  const response = await fetchWithTimeout(
+    `/api/uploads/${encodeURIComponent(session.uploadId)}?${searchParams.toString()}`,
+    {
+      method: "DELETE",
+      headers: uploadHeaders(session),
+      cache: "no-store"
+    }
+  );
+
+  if (!response.ok) {
+    await handleError(response);
+  }
+}
@@ -0,0 +1,232 @@
+// Shared by the middleware (edge runtime) and the route handlers, so only Web
+// APIs are used here.
+
+export type SessionUser = {
+  sub: string;
+  email: string | null;
+  name: string | null;
+};
+
+type SessionPayload = SessionUser & {
+  exp: number;
+};
+
+// Kept in a signed cookie between the redirect to the provider and the callback.
+export type LoginState = {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+  exp: number;
+};
+
+export type AuthProvider = "oidc" | "mock";
+
+export type AuthConfig = {
+  provider: AuthProvider;
+  secret: string;
+  oidc: {
+    issuer: string;
+    clientId: string;
+    clientSecret: string | null;
+    scopes: string;
+  } | null;
+};
+
+export const SESSION_COOKIE = "algonext_session";
+export const LOGIN_STATE_COOKIE = "algonext_login";
+export const SESSION_TTL_SEC = 8 * 60 * 60;
+export const LOGIN_STATE_TTL_SEC = 10 * 60;
+
+const MIN_SECRET_LENGTH = 32;
+// Only ever used outside production, so `npm run dev` works without setup.
+const DEV_SECRET = "algonext-dev-session-secret-not-for-production";
+
+const isProduction = () => process.env.NODE_ENV === "production";
+
+export const getAuthConfig = (): AuthConfig => {
+  const provider = (process.env.AUTH_PROVIDER || (isProduction() ? "oidc" : "mock")).trim();
+  if (provider !== "oidc" && provider !== "mock") {
+    throw new Error(`Unknown AUTH_PROVIDER "${provider}". Use "oidc" or "mock".`);
+  }
+  if (provider === "mock" && isProduction()) {
+    throw new Error("AUTH_PROVIDER=mock is only available outside production.");
+  }
+
+  const secret = process.env.AUTH_SECRET || (isProduction() ? "" : DEV_SECRET);
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`AUTH_SECRET must be at least ${MIN_SECRET_LENGTH} characters.`);
+  }
+
+  if (provider === "mock") {
+    return { provider, secret, oidc: null };
+  }
+
+  const issuer = (process.env.AUTH_OIDC_ISSUER || "").replace(/\/+$/, "");
+  const clientId = process.env.AUTH_OIDC_CLIENT_ID || "";
+  if (!/^https?:\/\//.test(issuer) || !clientId) {
+    throw new Error(
+      "AUTH_OIDC_ISSUER and AUTH_OIDC_CLIENT_ID are required for AUTH_PROVIDER=oidc."
+    );
+  }
+  return {
+    provider,
+    secret,
+    oidc: {
+      issuer,
+      clientId,
+      clientSecret: process.env.AUTH_OIDC_CLIENT_SECRET || null,
+      scopes: process.env.AUTH_OIDC_SCOPES || "openid email profile"
+    }
+  };
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export const randomToken = (byteLength = 32) =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const hmacKeys = new Map<string, Promise<CryptoKey>>();
+
+const getHmacKey = (secret: string) => {
+  let key = hmacKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+    hmacKeys.set(secret, key);
+  }
+  return key;
+};
+
+// "<base64url json>.<base64url hmac>"; the payload is signed, not encrypted.
+export const signValue = async (value: unknown, secret: string) => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getHmacKey(secret),
+    encoder.encode(body)
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+export const verifyValue = async <T>(token: string, secret: string): Promise<T | null> => {
+  const [body, signature, extra] = token.split(".");
+  if (!body || !signature || extra !== undefined) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getHmacKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    return valid ? (JSON.parse(decoder.decode(fromBase64Url(body))) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const readCookie = (request: Request, name: string) => {
+  const header = request.headers.get("cookie");
+  if (!header) {
+    return null;
+  }
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return null;
+};
+
+export const serializeCookie = (name: string, value: string, maxAgeSec: number) =>
+  [
+    `${name}=${value}`,
+    "Path=/",
+    `Max-Age=${maxAgeSec}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(isProduction() ? ["Secure"] : [])
+  ].join("; ");
+
+export const createSessionCookie = async (user: SessionUser, secret: string) => {
+  const payload: SessionPayload = {
+    sub: user.sub,
+    email: user.email,
+    name: user.name,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SEC
+  };
+  return serializeCookie(SESSION_COOKIE, await signValue(payload, secret), SESSION_TTL_SEC);
+};
+
+export const clearSessionCookie = () => serializeCookie(SESSION_COOKIE, "", 0);
+
+export const getSessionUser = async (request: Request): Promise<SessionUser | null> => {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (!token) {
+    return null;
+  }
+  let secret: string;
+  try {
+    secret = getAuthConfig().secret;
+  } catch {
+    return null;
+  }
+  const payload = await verifyValue<SessionPayload>(token, secret);
+  if (!payload || typeof payload.sub !== "string" || !payload.sub) {
+    return null;
+  }
+  if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+    return null;
+  }
+  return { sub: payload.sub, email: payload.email ?? null, name: payload.name ?? null };
+};
+
+// Only same-origin paths, so the login flow cannot be used as an open redirect.
+export const sanitizeReturnTo = (value: string | null | undefined) => {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+  return value;
+};
+
+// Behind a proxy the request URL can carry an internal host; AUTH_URL pins the
+// public one used for the OIDC redirect URI.
+export const getAppOrigin = (request: Request) =>
+  (process.env.AUTH_URL || new URL(request.url).origin).replace(/\/+$/, "");
+
+export const getLoginUrl = (
+  request: Request,
+  params: { returnTo?: string; error?: string } = {}
+) => {
+  const url = new URL("/login", getAppOrigin(request));
+  if (params.returnTo && params.returnTo !== "/") {
+    url.searchParams.set("returnTo", params.returnTo);
+  }
+  if (params.error) {
+    url.searchParams.set("error", params.error);
+  }
+  return url.toString();
+};
@@ -0,0 +1,241 @@
+import type { CreateJobPayload } from "@/lib/api";
+import { roles } from "@/lib/jobs";
+
+export type ManifestRow = Record<string, unknown>;
+
+export type ValidatedManifestRow = {
+  index: number;
+  raw: ManifestRow;
+  payload: CreateJobPayload | null;
+  errors: string[];
+};
+
+type UnknownRecord = Record<string, any>;
+
+const MANIFEST_FIELDS = [
+  "video_url",
+  "video_key",
+  "video_bucket",
+  "role",
+  "category",
+  "shirt_number",
+  "team_name"
+];
+
+// Spreadsheets in some locales export with ";". The header row decides, so a
+// comma inside an unquoted value of a ";" file stays part of the value.
+const detectCsvDelimiter = (text: string) => {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      break;
+    } else if (!inQuotes && char === ",") {
+      commas += 1;
+    } else if (!inQuotes && char === ";") {
+      semicolons += 1;
+    }
+  }
+  return semicolons > commas ? ";" : ",";
+};
+
+const parseCsvRecords = (text: string): string[][] => {
+  const delimiter = detectCsvDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i += 1;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim()));
+};
+
+const parseCsvManifest = (text: string): ManifestRow[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const unknownColumns = columns.filter((name) => !MANIFEST_FIELDS.includes(name));
+  if (unknownColumns.length === columns.length) {
+    throw new Error(
+      `CSV header not recognised. Expected columns: ${MANIFEST_FIELDS.join(", ")}.`
+    );
+  }
+  return records.map((values) =>
+    columns.reduce<ManifestRow>((row, column, index) => {
+      row[column] = values[index]?.trim() ?? "";
+      return row;
+    }, {})
+  );
+};
+
+const parseJsonManifest = (text: string): ManifestRow[] => {
+  const parsed = JSON.parse(text) as unknown;
+  const source = Array.isArray(parsed)
+    ? parsed
+    : (parsed as UnknownRecord | null)?.jobs ??
+      (parsed as UnknownRecord | null)?.items ??
+      (parsed as UnknownRecord | null)?.rows ??
+      null;
+  if (!Array.isArray(source)) {
+    throw new Error("JSON manifest must be an array of jobs (or { jobs: [...] }).");
+  }
+  return source.map((row) =>
+    row && typeof row === "object" && !Array.isArray(row) ? (row as ManifestRow) : {}
+  );
+};
+
+export const parseManifest = (text: string, fileName = ""): ManifestRow[] => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const isJson =
+    fileName.toLowerCase().endsWith(".json") ||
+    trimmed.startsWith("[") ||
+    trimmed.startsWith("{");
+  return isJson ? parseJsonManifest(trimmed) : parseCsvManifest(text);
+};
+
+const readString = (row: ManifestRow, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = row[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+};
+
+export const validateManifestRow = (
+  raw: ManifestRow,
+  index: number
+): ValidatedManifestRow => {
+  const errors: string[] = [];
+  const videoUrl = readString(raw, "video_url", "videoUrl");
+  const videoKey = readString(raw, "video_key", "videoKey");
+  const videoBucket = readString(raw, "video_bucket", "videoBucket");
+  const roleInput = readString(raw, "role");
+  const category = readString(raw, "category");
+  const shirtNumberInput = readString(raw, "shirt_number", "shirtNumber");
+  const teamName = readString(raw, "team_name", "teamName");
+
+  if (videoUrl && videoKey) {
+    errors.push("Use either video_url or video_key, not both.");
+  } else if (videoUrl) {
+    if (!/^https?:\/\//i.test(videoUrl)) {
+      errors.push("video_url must start with http:// or https://.");
+    }
+  } else if (videoKey) {
+    if (!videoBucket) {
+      errors.push("video_bucket is required with video_key.");
+    }
+  } else {
+    errors.push("video_url or video_key is required.");
+  }
+
+  const role = roleInput
+    ? roles.find((option) => option.toLowerCase() === roleInput.toLowerCase()) ?? null
+    : null;
+  if (!roleInput) {
+    errors.push("role is required.");
+  } else if (!role) {
+    errors.push(`role must be one of ${roles.join(", ")}.`);
+  }
+
+  if (!category) {
+    errors.push("category is required.");
+  }
+
+  let shirtNumber: number | null = null;
+  if (shirtNumberInput) {
+    const parsed = Number(shirtNumberInput);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > 99) {
+      errors.push("shirt_number must be an integer between 0 and 99.");
+    } else {
+      shirtNumber = parsed;
+    }
+  }
+
+  if (errors.length > 0 || !role || !category) {
+    return { index, raw, payload: null, errors };
+  }
+
+  const payload: CreateJobPayload = {
+    ...(videoUrl
+      ? { video_url: videoUrl }
+      : { video_key: videoKey as string, video_bucket: videoBucket as string }),
+    role,
+    category,
+    ...(teamName ? { team_name: teamName } : {}),
+    ...(shirtNumber !== null ? { shirt_number: shirtNumber } : {})
+  };
+
+  return { index, raw, payload, errors };
+};
+
+// Rejects with the first worker error. No new items are started after it;
+// workers already running are left to finish.
+export const runWithConcurrency = async <T,>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+) => {
+  const queue = [...items];
+  let failed = false;
+  const runnerCount = Math.max(1, Math.min(limit, queue.length));
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (queue.length > 0 && !failed) {
+      const item = queue.shift() as T;
+      try {
+        await worker(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  });
+  await Promise.all(runners);
+};
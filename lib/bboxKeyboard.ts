@@ -0,0 +1,47 @@
+import { clampNormalized, type NormalizedBBox } from "@/lib/selection";
+
+export type BBoxKeyboardMode = "move" | "resize";
+
+// Same floor as the mouse resize handles in the preview modal.
+const MIN_BBOX_SIZE = 0.02;
+export const BBOX_PERCENT_STEP = 0.01;
+
+const arrowDeltas: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1]
+};
+
+export const getArrowDelta = (key: string) => arrowDeltas[key] ?? null;
+
+// Resizing keeps the top-left corner fixed: right/down grow the box, left/up shrink it.
+export const nudgeBBox = (
+  bbox: NormalizedBBox,
+  mode: BBoxKeyboardMode,
+  dx: number,
+  dy: number
+): NormalizedBBox => {
+  if (mode === "move") {
+    return {
+      x: clampNormalized(bbox.x + dx, 0, 1 - bbox.w),
+      y: clampNormalized(bbox.y + dy, 0, 1 - bbox.h),
+      w: bbox.w,
+      h: bbox.h
+    };
+  }
+  return {
+    x: bbox.x,
+    y: bbox.y,
+    w: clampNormalized(bbox.w + dx, MIN_BBOX_SIZE, 1 - bbox.x),
+    h: clampNormalized(bbox.h + dy, MIN_BBOX_SIZE, 1 - bbox.y)
+  };
+};
+
+// Roughly the size of a standing player in a broadcast wide shot.
+export const createCenteredBBox = (): NormalizedBBox => ({
+  x: 0.46,
+  y: 0.4,
+  w: 0.08,
+  h: 0.2
+});
@@ -0,0 +1,87 @@
+import type { TrackCandidate, TrackCandidateSampleFrame } from "@/lib/api";
+import { toRatio } from "@/lib/candidateRanking";
+import { getSelectionTimeSec } from "@/lib/selection";
+
+export const MAX_COMPARE_CANDIDATES = 3;
+
+// Sample frames closer than this are treated as the same moment.
+const ALIGN_TOLERANCE_SEC = 0.05;
+
+export type AlignedSampleRow = {
+  timeSec: number | null;
+  frames: (TrackCandidateSampleFrame | null)[];
+};
+
+export type CompareMetric = {
+  key: "coverage" | "stability" | "avgBoxArea";
+  label: string;
+  values: (number | null)[];
+  bestIndex: number | null;
+};
+
+export const toggleCompareTrackId = (trackIds: string[], trackId: string) =>
+  trackIds.includes(trackId)
+    ? trackIds.filter((value) => value !== trackId)
+    : [...trackIds, trackId].slice(-MAX_COMPARE_CANDIDATES);
+
+// Builds one row per distinct frame time across the candidates, so frames taken
+// at the same moment line up. Frames without a time are appended as their own rows.
+export const alignSampleFrames = (candidates: TrackCandidate[]): AlignedSampleRow[] => {
+  const rows: AlignedSampleRow[] = [];
+  const untimed: AlignedSampleRow[] = [];
+  candidates.forEach((candidate, column) => {
+    (candidate.sampleFrames ?? [])
+      .filter((frame) => frame.imageUrl)
+      .forEach((frame) => {
+        const timeSec = getSelectionTimeSec(frame);
+        if (timeSec === null) {
+          let row = untimed.find((entry) => !entry.frames[column]);
+          if (!row) {
+            row = { timeSec: null, frames: candidates.map(() => null) };
+            untimed.push(row);
+          }
+          row.frames[column] = frame;
+          return;
+        }
+        let row = rows.find(
+          (entry) =>
+            entry.timeSec !== null &&
+            !entry.frames[column] &&
+            Math.abs(entry.timeSec - timeSec) <= ALIGN_TOLERANCE_SEC
+        );
+        if (!row) {
+          row = { timeSec, frames: candidates.map(() => null) };
+          rows.push(row);
+        }
+        row.frames[column] = frame;
+      });
+  });
+  rows.sort((a, b) => (a.timeSec ?? 0) - (b.timeSec ?? 0));
+  return [...rows, ...untimed];
+};
+
+const pickBestIndex = (values: (number | null)[]) => {
+  let bestIndex: number | null = null;
+  values.forEach((value, index) => {
+    if (value !== null && (bestIndex === null || value > (values[bestIndex] ?? 0))) {
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+};
+
+export const getCompareMetrics = (candidates: TrackCandidate[]): CompareMetric[] =>
+  (
+    [
+      { key: "coverage", label: "Coverage", read: (c) => toRatio(c.coverage) },
+      { key: "stability", label: "Stability", read: (c) => toRatio(c.stability) },
+      { key: "avgBoxArea", label: "Avg area", read: (c) => c.avgBoxArea ?? null }
+    ] as {
+      key: CompareMetric["key"];
+      label: string;
+      read: (candidate: TrackCandidate) => number | null;
+    }[]
+  ).map(({ key, label, read }) => {
+    const values = candidates.map(read);
+    return { key, label, values, bestIndex: pickBestIndex(values) };
+  });
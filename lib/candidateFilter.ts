@@ -0,0 +1,83 @@
+import type { TrackCandidate } from "@/lib/api";
+import {
+  normalizeCandidateTier,
+  toRatio,
+  type CandidateTier
+} from "@/lib/candidateRanking";
+
+export type CandidateSortKey = "rank" | "coverage" | "stability" | "boxArea";
+
+export type CandidateFilters = {
+  sortBy: CandidateSortKey;
+  tiers: CandidateTier[];
+  // Ratio between 0 and 1.
+  minCoverage: number;
+  query: string;
+};
+
+export const CANDIDATE_TIERS: CandidateTier[] = ["PRIMARY", "SECONDARY", "OTHER"];
+
+export const candidateSortOptions: { value: CandidateSortKey; label: string }[] = [
+  { value: "rank", label: "Ranking" },
+  { value: "coverage", label: "Coverage" },
+  { value: "stability", label: "Stability" },
+  { value: "boxArea", label: "Box area" }
+];
+
+export const defaultCandidateFilters: CandidateFilters = {
+  sortBy: "rank",
+  tiers: [...CANDIDATE_TIERS],
+  minCoverage: 0,
+  query: ""
+};
+
+const getSortValue = (candidate: TrackCandidate, sortBy: CandidateSortKey) => {
+  if (sortBy === "coverage") {
+    return toRatio(candidate.coverage);
+  }
+  if (sortBy === "stability") {
+    return toRatio(candidate.stability);
+  }
+  if (sortBy === "boxArea") {
+    return candidate.avgBoxArea ?? null;
+  }
+  return null;
+};
+
+export const countCandidatesByTier = (candidates: TrackCandidate[]) =>
+  candidates.reduce(
+    (acc, candidate) => {
+      acc[normalizeCandidateTier(candidate)] += 1;
+      return acc;
+    },
+    { PRIMARY: 0, SECONDARY: 0, OTHER: 0 } as Record<CandidateTier, number>
+  );
+
+// Candidates are expected in ranking order already. The sort is stable, so ties
+// keep their ranking position and missing metrics go last.
+export const applyCandidateFilters = (
+  candidates: TrackCandidate[],
+  { sortBy, tiers, minCoverage, query }: CandidateFilters
+) => {
+  const search = query.trim().toLowerCase();
+  const filtered = candidates.filter((candidate) => {
+    if (!tiers.includes(normalizeCandidateTier(candidate))) {
+      return false;
+    }
+    if (minCoverage > 0 && (toRatio(candidate.coverage) ?? 0) < minCoverage) {
+      return false;
+    }
+    return !search || candidate.trackId.toLowerCase().includes(search);
+  });
+  if (sortBy === "rank") {
+    return filtered;
+  }
+  return filtered.sort((a, b) => {
+    const left = getSortValue(a, sortBy);
+    const right = getSortValue(b, sortBy);
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    return right - left;
+  });
+};
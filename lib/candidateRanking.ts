@@ -0,0 +1,177 @@
+import type { TrackCandidate } from "@/lib/api";
+import { colorDistance, type Rgb } from "@/lib/kitColor";
+
+export type CandidateTier = "PRIMARY" | "SECONDARY" | "OTHER";
+
+export type RankingFactor = {
+  key: "tier" | "coverage" | "stability" | "size" | "kit" | "shirt";
+  label: string;
+  weight: number;
+  value: number;
+  detail: string;
+};
+
+export type RankedCandidate = {
+  candidate: TrackCandidate;
+  rank: number;
+  score: number;
+  factors: RankingFactor[];
+};
+
+export type CandidateRankingHints = {
+  kitColor?: Rgb | null;
+  candidateColors?: Record<string, Rgb | null>;
+  shirtNumber?: number | null;
+};
+
+const tierScores: Record<CandidateTier, number> = {
+  PRIMARY: 1,
+  SECONDARY: 0.5,
+  OTHER: 0.2
+};
+
+// Beyond this normalized RGB distance a shirt is treated as a different kit.
+const KIT_DISTANCE_CUTOFF = 0.35;
+
+export const normalizeCandidateTier = (candidate: TrackCandidate): CandidateTier => {
+  if (!candidate.tier) {
+    return "PRIMARY";
+  }
+  const normalized = candidate.tier.trim().toUpperCase();
+  if (normalized.includes("PRIMARY")) {
+    return "PRIMARY";
+  }
+  if (normalized.includes("SECONDARY")) {
+    return "SECONDARY";
+  }
+  if (normalized.includes("OTHER")) {
+    return "OTHER";
+  }
+  return "PRIMARY";
+};
+
+// Some backends send percentages (0-100), others ratios (0-1).
+export const toRatio = (value: number | null | undefined) =>
+  value === null || value === undefined || !Number.isFinite(value)
+    ? null
+    : Math.min(Math.max(value > 1 ? value / 100 : value, 0), 1);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const buildFactors = (
+  candidate: TrackCandidate,
+  maxBoxArea: number,
+  { kitColor, candidateColors, shirtNumber }: CandidateRankingHints
+): RankingFactor[] => {
+  const factors: RankingFactor[] = [];
+  const tier = normalizeCandidateTier(candidate);
+  factors.push({
+    key: "tier",
+    label: "Tier",
+    weight: 0.25,
+    value: tierScores[tier],
+    detail: `Detector tier ${tier.toLowerCase()}`
+  });
+
+  const coverage = toRatio(candidate.coverage);
+  if (coverage !== null) {
+    factors.push({
+      key: "coverage",
+      label: "Coverage",
+      weight: 0.25,
+      value: coverage,
+      detail: `Visible in ${formatPercent(coverage)} of the sampled frames`
+    });
+  }
+
+  const stability = toRatio(candidate.stability);
+  if (stability !== null) {
+    factors.push({
+      key: "stability",
+      label: "Stability",
+      weight: 0.2,
+      value: stability,
+      detail: `Track stability ${stability.toFixed(2)}`
+    });
+  }
+
+  if (candidate.avgBoxArea && maxBoxArea > 0) {
+    const size = candidate.avgBoxArea / maxBoxArea;
+    factors.push({
+      key: "size",
+      label: "Box size",
+      weight: 0.1,
+      value: size,
+      detail: `Average box ${formatPercent(size)} of the largest candidate`
+    });
+  }
+
+  const candidateColor = candidateColors?.[candidate.trackId] ?? null;
+  if (kitColor && candidateColor) {
+    const distance = colorDistance(kitColor, candidateColor);
+    const similarity = Math.max(0, 1 - distance / KIT_DISTANCE_CUTOFF);
+    factors.push({
+      key: "kit",
+      label: "Kit colour",
+      weight: 0.3,
+      value: similarity,
+      detail:
+        similarity > 0
+          ? `Shirt colour ${formatPercent(similarity)} similar to the team kit`
+          : "Shirt colour does not match the team kit"
+    });
+  }
+
+  if (shirtNumber !== null && shirtNumber !== undefined && candidate.shirtNumber != null) {
+    const matches = candidate.shirtNumber === shirtNumber;
+    factors.push({
+      key: "shirt",
+      label: "Shirt number",
+      weight: 0.4,
+      value: matches ? 1 : 0,
+      detail: matches
+        ? `Detected shirt #${candidate.shirtNumber} matches`
+        : `Detected shirt #${candidate.shirtNumber}, expected #${shirtNumber}`
+    });
+  }
+
+  return factors;
+};
+
+// Weights are renormalized over the factors that are known for each candidate,
+// so a missing metric neither helps nor hurts.
+export const rankTrackCandidates = (
+  candidates: TrackCandidate[],
+  hints: CandidateRankingHints = {}
+): RankedCandidate[] => {
+  const maxBoxArea = candidates.reduce(
+    (max, candidate) => Math.max(max, candidate.avgBoxArea ?? 0),
+    0
+  );
+  return candidates
+    .map((candidate, index) => {
+      const factors = buildFactors(candidate, maxBoxArea, hints);
+      const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+      const score =
+        totalWeight > 0
+          ? factors.reduce((sum, factor) => sum + factor.weight * factor.value, 0) / totalWeight
+          : 0;
+      return { candidate, index, score, factors };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ candidate, score, factors }, position) => ({
+      candidate,
+      rank: position + 1,
+      score,
+      factors
+    }));
+};
+
+export const sortByRanking = (candidates: TrackCandidate[], ranking: RankedCandidate[]) => {
+  const ranks = new Map(ranking.map((entry) => [entry.candidate.trackId, entry.rank]));
+  return [...candidates].sort(
+    (a, b) =>
+      (ranks.get(a.trackId) ?? Number.POSITIVE_INFINITY) -
+      (ranks.get(b.trackId) ?? Number.POSITIVE_INFINITY)
+  );
+};
@@ -0,0 +1,72 @@
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Charts draw on a transparent background inside dark cards; exported files get an
+// explicit one so they stay readable in documents.
+export const serializeSvg = (svg: SVGSVGElement, background: string | null = null) => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.querySelectorAll("[data-export-ignore]").forEach((node) => node.remove());
+  if (background) {
+    const rect = document.createElementNS(SVG_NS, "rect");
+    rect.setAttribute("width", "100%");
+    rect.setAttribute("height", "100%");
+    rect.setAttribute("fill", background);
+    clone.insertBefore(rect, clone.firstChild);
+  }
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const exportSvg = (svg: SVGSVGElement, filename: string, background?: string) => {
+  downloadBlob(
+    new Blob([serializeSvg(svg, background ?? null)], { type: "image/svg+xml;charset=utf-8" }),
+    filename
+  );
+};
+
+export const exportSvgAsPng = async (
+  svg: SVGSVGElement,
+  filename: string,
+  { background = "#020617", pixelRatio = 2 }: { background?: string; pixelRatio?: number } = {}
+) => {
+  const { width, height } = svg.viewBox.baseVal;
+  const source = new Blob([serializeSvg(svg, background)], {
+    type: "image/svg+xml;charset=utf-8"
+  });
+  const url = URL.createObjectURL(source);
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Unable to render chart image."));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas is not supported in this browser.");
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const png = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Unable to export PNG."))),
+        "image/png"
+      );
+    });
+    downloadBlob(png, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
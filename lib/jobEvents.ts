@@ -0,0 +1,127 @@
+import { normalizeJob, type JobResponse } from "@/lib/api";
+
+type UnknownRecord = Record<string, any>;
+
+type JobEventHandlers = {
+  onJob: (job: JobResponse) => void;
+  onEnd?: (job: JobResponse | null) => void;
+  onError: (error: Error & { status?: number }) => void;
+  onUnavailable: () => void;
+};
+
+const MAX_RECONNECTS = 3;
+
+const parseEventData = (event: Event): UnknownRecord => {
+  try {
+    const parsed = JSON.parse((event as MessageEvent<string>).data) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as UnknownRecord) : {};
+  } catch {
+    return {};
+  }
+};
+
+const mergeJobDelta = (current: UnknownRecord, delta: UnknownRecord): UnknownRecord => {
+  const merged = { ...current, ...delta };
+  if (
+    delta.progress &&
+    typeof delta.progress === "object" &&
+    current.progress &&
+    typeof current.progress === "object"
+  ) {
+    merged.progress = { ...current.progress, ...delta.progress };
+  }
+  return merged;
+};
+
+export const supportsJobEvents = () =>
+  typeof window !== "undefined" && typeof window.EventSource !== "undefined";
+
+export const subscribeToJobEvents = (
+  jobId: string,
+  trackId: string | null,
+  handlers: JobEventHandlers
+) => {
+  const searchParams = new URLSearchParams();
+  if (trackId) {
+    searchParams.set("track_id", trackId);
+  }
+  const query = searchParams.toString();
+  const source = new EventSource(
+    `/api/jobs/${encodeURIComponent(jobId)}/events${query ? `?${query}` : ""}`
+  );
+
+  let raw: UnknownRecord | null = null;
+  let receivedSnapshot = false;
+  let failures = 0;
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    source.close();
+  };
+
+  const emitJob = (next: UnknownRecord) => {
+    raw = next;
+    try {
+      handlers.onJob(normalizeJob(raw));
+    } catch (error) {
+      close();
+      handlers.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  source.addEventListener("snapshot", (event) => {
+    receivedSnapshot = true;
+    failures = 0;
+    emitJob(parseEventData(event));
+  });
+
+  source.addEventListener("delta", (event) => {
+    emitJob(mergeJobDelta(raw ?? {}, parseEventData(event)));
+  });
+
+  source.addEventListener("end", () => {
+    close();
+    let finalJob: JobResponse | null = null;
+    try {
+      finalJob = raw ? normalizeJob(raw) : null;
+    } catch (error) {
+      handlers.onError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    handlers.onEnd?.(finalJob);
+  });
+
+  source.addEventListener("upstream-error", (event) => {
+    close();
+    const data = parseEventData(event);
+    const error = new Error(
+      typeof data.message === "string" && data.message ? data.message : "Job events failed."
+    ) as Error & { status?: number; code?: string; requestId?: string };
+    if (typeof data.status === "number") {
+      error.status = data.status;
+    }
+    if (typeof data.code === "string") {
+      error.code = data.code;
+    }
+    if (typeof data.request_id === "string") {
+      error.requestId = data.request_id;
+    }
+    handlers.onError(error);
+  });
+
+  // EventSource reconnects on its own; give up only if the stream never worked
+  // or keeps dropping, and let the caller fall back to polling.
+  source.onerror = () => {
+    if (closed) {
+      return;
+    }
+    failures += 1;
+    if (!receivedSnapshot || failures > MAX_RECONNECTS) {
+      close();
+      handlers.onUnavailable();
+    }
+  };
+
+  return close;
+};
@@ -0,0 +1,55 @@
+export const roles = ["Striker", "Winger", "Midfielder", "Defender", "Goalkeeper"];
+
+export const jobStatuses = [
+  "QUEUED",
+  "WAITING_FOR_PLAYER",
+  "WAITING_FOR_SELECTION",
+  "RUNNING",
+  "COMPLETED",
+  "PARTIAL",
+  "FAILED"
+];
+
+export const MAX_COMPARE_JOBS = 6;
+
+export const comparableJobStatuses = ["COMPLETED", "PARTIAL"];
+
+export const isComparableJobStatus = (status: string | null | undefined) =>
+  Boolean(status) && comparableJobStatuses.includes(String(status).toUpperCase());
+
+export const DEFAULT_STATUS_CLASS = "bg-slate-800 text-slate-200";
+
+export const statusStyles: Record<string, string> = {
+  QUEUED: "bg-slate-800 text-slate-200",
+  WAITING_FOR_SELECTION: "bg-amber-500/20 text-amber-200",
+  WAITING_FOR_PLAYER: "bg-amber-500/20 text-amber-200",
+  RUNNING: "bg-blue-500/20 text-blue-200",
+  COMPLETED: "bg-emerald-500/20 text-emerald-200",
+  PARTIAL: "bg-amber-400/20 text-amber-200",
+  FAILED: "bg-rose-500/20 text-rose-200"
+};
+
+export const getStatusClass = (status: string | null | undefined) => {
+  if (!status) {
+    return DEFAULT_STATUS_CLASS;
+  }
+  return statusStyles[status.toUpperCase()] ?? DEFAULT_STATUS_CLASS;
+};
+
+export const terminalJobStatuses = ["COMPLETED", "PARTIAL", "FAILED"];
+
+export const isTerminalJobStatus = (status: string | null | undefined) =>
+  Boolean(status) && terminalJobStatuses.includes(String(status).toUpperCase());
+
+export const getPollInterval = (step?: string | null) => {
+  if (!step) {
+    return 3000;
+  }
+  if (step.toUpperCase().includes("TRACKING")) {
+    return 4000;
+  }
+  if (step.toUpperCase().includes("SCORING")) {
+    return 2000;
+  }
+  return 3000;
+};
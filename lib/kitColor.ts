@@ -0,0 +1,101 @@
+import type { TrackCandidate } from "@/lib/api";
+import { getSelectionBBox, type NormalizedBBox } from "@/lib/selection";
+
+export type Rgb = {
+  r: number;
+  g: number;
+  b: number;
+};
+
+const MAX_RGB_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+export const colorDistance = (a: Rgb, b: Rgb) =>
+  Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2) / MAX_RGB_DISTANCE;
+
+export const toHexColor = ({ r, g, b }: Rgb) =>
+  `#${[r, g, b].map((value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`;
+
+export const fromHexColor = (value: string): Rgb | null => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(value.trim());
+  return match
+    ? {
+        r: parseInt(match[1], 16),
+        g: parseInt(match[2], 16),
+        b: parseInt(match[3], 16)
+      }
+    : null;
+};
+
+// The shirt sits roughly in the middle of the upper half of a player box; this
+// leaves out the head, the shorts and most of the background.
+export const getShirtRegion = (bbox: NormalizedBBox): NormalizedBBox => ({
+  x: bbox.x + bbox.w * 0.25,
+  y: bbox.y + bbox.h * 0.2,
+  w: bbox.w * 0.5,
+  h: bbox.h * 0.3
+});
+
+// Frames are served from another origin; going through the frame proxy keeps
+// the canvas readable.
+export const loadFrameForSampling = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load the frame for colour sampling."));
+    image.src = `/api/frame-proxy?url=${encodeURIComponent(url)}`;
+  });
+
+export const sampleAverageColor = (
+  image: HTMLImageElement,
+  region: NormalizedBBox
+): Rgb | null => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const sx = Math.floor(region.x * width);
+  const sy = Math.floor(region.y * height);
+  const sw = Math.max(1, Math.floor(region.w * width));
+  const sh = Math.max(1, Math.floor(region.h * height));
+  if (!width || !height || sx >= width || sy >= height) {
+    return null;
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = sw;
+  canvas.height = sh;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+  try {
+    context.drawImage(image, sx, sy, sw, sh, 0, 0, sw, sh);
+    const { data } = context.getImageData(0, 0, sw, sh);
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    const pixels = data.length / 4;
+    for (let index = 0; index < data.length; index += 4) {
+      r += data[index];
+      g += data[index + 1];
+      b += data[index + 2];
+    }
+    return { r: r / pixels, g: g / pixels, b: b / pixels };
+  } catch {
+    // A tainted canvas throws here when the proxy is bypassed.
+    return null;
+  }
+};
+
+export const sampleCandidateKitColor = async (candidate: TrackCandidate) => {
+  const sample =
+    candidate.sampleFrames?.find((frame) => frame.imageUrl && getSelectionBBox(frame)) ?? null;
+  const url = sample?.imageUrl ?? candidate.thumbnailUrl ?? null;
+  const bbox = (sample ? getSelectionBBox(sample) : null) ?? getSelectionBBox(candidate);
+  if (!url || !bbox) {
+    return null;
+  }
+  try {
+    const image = await loadFrameForSampling(url);
+    return sampleAverageColor(image, getShirtRegion(bbox));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,58 @@
+import type { JobResult } from "@/lib/api";
+
+export type EvidenceMetricValue = number | string | null;
+
+export type EvidenceMetric = {
+  key: string;
+  label: string;
+  value: EvidenceMetricValue;
+};
+
+export const evidenceMetricDefinitions = [
+  {
+    key: "distanceCovered",
+    label: "Distance covered",
+    aliases: ["distance_covered", "distanceCovered", "distance", "distance_km", "distanceKm"]
+  },
+  {
+    key: "topSpeed",
+    label: "Top speed",
+    aliases: ["top_speed", "topSpeed", "max_speed", "maxSpeed"]
+  },
+  {
+    key: "successfulActions",
+    label: "Successful actions",
+    aliases: ["successful_actions", "successfulActions", "success_count", "successCount"]
+  }
+];
+
+export const resolveMetricValue = (
+  source: Record<string, unknown> | null | undefined,
+  keys: string[]
+): EvidenceMetricValue => {
+  if (!source) {
+    return null;
+  }
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === "string" && value.trim().length > 0) {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : value;
+    }
+  }
+  return null;
+};
+
+// Always returns one entry per definition so that results can be aligned row by row;
+// callers that only show available metrics filter on `value`.
+export const resolveEvidenceMetrics = (
+  result: JobResult | null | undefined
+): EvidenceMetric[] =>
+  evidenceMetricDefinitions.map(({ key, label, aliases }) => ({
+    key,
+    label,
+    value: resolveMetricValue(result?.metrics, aliases)
+  }));
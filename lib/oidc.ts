@@ -0,0 +1,219 @@
+import { fromBase64Url, toBase64Url, type AuthConfig, type SessionUser } from "@/lib/auth";
+
+type OidcSettings = NonNullable<AuthConfig["oidc"]>;
+
+type OidcMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type Jwk = JsonWebKey & { kid?: string };
+
+type IdTokenClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+  email?: string;
+  name?: string;
+  preferred_username?: string;
+};
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const OIDC_TIMEOUT_MS = 8000;
+// Tolerated clock difference with the identity provider.
+const CLOCK_SKEW_SEC = 60;
+
+type SigningAlgorithm = {
+  import: RsaHashedImportParams | EcKeyImportParams;
+  verify: AlgorithmIdentifier | EcdsaParams;
+};
+
+const algorithms: Record<string, SigningAlgorithm> = {
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: { name: "RSASSA-PKCS1-v1_5" }
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" }
+  }
+};
+
+const metadataCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, Jwk[]>();
+
+const oidcError = (code: string, message: string) => {
+  const error = new Error(message);
+  (error as Error & { code?: string }).code = code;
+  return error;
+};
+
+const fetchJson = async (url: string, init: RequestInit = {}) => {
+  const response = await fetch(url, {
+    ...init,
+    cache: "no-store",
+    signal: AbortSignal.timeout(OIDC_TIMEOUT_MS)
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload || typeof payload !== "object") {
+    const detail = payload?.error_description ?? payload?.error ?? response.statusText;
+    throw oidcError("OIDC_PROVIDER_ERROR", `${url} answered ${response.status}: ${detail}`);
+  }
+  return payload;
+};
+
+export const getOidcMetadata = async ({ issuer }: OidcSettings) => {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.metadata;
+  }
+  const metadata = (await fetchJson(`${issuer}/.well-known/openid-configuration`)) as OidcMetadata;
+  if (metadata.issuer?.replace(/\/+$/, "") !== issuer) {
+    throw oidcError(
+      "OIDC_PROVIDER_ERROR",
+      `Discovery document is for ${metadata.issuer}, not ${issuer}.`
+    );
+  }
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+export const createCodeChallenge = async (verifier: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+export const buildAuthorizationUrl = async (
+  settings: OidcSettings,
+  {
+    redirectUri,
+    state,
+    nonce,
+    verifier
+  }: { redirectUri: string; state: string; nonce: string; verifier: string }
+) => {
+  const metadata = await getOidcMetadata(settings);
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", settings.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", settings.scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", await createCodeChallenge(verifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+};
+
+const getSigningKey = async (metadata: OidcMetadata, kid: string | undefined) => {
+  const findKey = (keys: Jwk[] | undefined) =>
+    keys?.find((key) => (kid ? key.kid === kid : key.use !== "enc"));
+  // Refetched once on an unknown kid, which is how key rotation shows up.
+  let key = findKey(jwksCache.get(metadata.jwks_uri));
+  if (!key) {
+    const jwks = await fetchJson(metadata.jwks_uri);
+    const keys: Jwk[] = Array.isArray(jwks.keys) ? jwks.keys : [];
+    jwksCache.set(metadata.jwks_uri, keys);
+    key = findKey(keys);
+  }
+  if (!key) {
+    throw oidcError("OIDC_INVALID_TOKEN", "No signing key matches the ID token.");
+  }
+  return key;
+};
+
+const verifyIdToken = async (
+  idToken: string,
+  settings: OidcSettings,
+  metadata: OidcMetadata,
+  nonce: string
+): Promise<IdTokenClaims> => {
+  const [rawHeader, rawClaims, rawSignature] = idToken.split(".");
+  if (!rawHeader || !rawClaims || !rawSignature) {
+    throw oidcError("OIDC_INVALID_TOKEN", "Malformed ID token.");
+  }
+  const decoder = new TextDecoder();
+  const header = JSON.parse(decoder.decode(fromBase64Url(rawHeader))) as {
+    alg?: string;
+    kid?: string;
+  };
+  const algorithm = header.alg ? algorithms[header.alg] : undefined;
+  if (!algorithm) {
+    throw oidcError("OIDC_INVALID_TOKEN", `Unsupported ID token algorithm ${header.alg}.`);
+  }
+
+  const jwk = await getSigningKey(metadata, header.kid);
+  const key = await crypto.subtle.importKey("jwk", jwk, algorithm.import, false, ["verify"]);
+  const valid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    fromBase64Url(rawSignature),
+    new TextEncoder().encode(`${rawHeader}.${rawClaims}`)
+  );
+  if (!valid) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token signature is invalid.");
+  }
+
+  const claims = JSON.parse(decoder.decode(fromBase64Url(rawClaims))) as IdTokenClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.iss?.replace(/\/+$/, "") !== settings.issuer) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token issuer does not match.");
+  }
+  if (!audiences.includes(settings.clientId)) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token audience does not match.");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SEC < now) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token has expired.");
+  }
+  if (claims.nonce !== nonce) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token nonce does not match.");
+  }
+  if (!claims.sub) {
+    throw oidcError("OIDC_INVALID_TOKEN", "ID token has no subject.");
+  }
+  return claims;
+};
+
+export const exchangeCode = async (
+  settings: OidcSettings,
+  {
+    code,
+    redirectUri,
+    verifier,
+    nonce
+  }: { code: string; redirectUri: string; verifier: string; nonce: string }
+): Promise<SessionUser> => {
+  const metadata = await getOidcMetadata(settings);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier,
+    client_id: settings.clientId
+  });
+  const headers: Record<string, string> = {
+    "content-type": "application/x-www-form-urlencoded",
+    accept: "application/json"
+  };
+  if (settings.clientSecret) {
+    headers.authorization = `Basic ${btoa(
+      `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`
+    )}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: "POST", headers, body });
+  if (typeof tokens.id_token !== "string") {
+    throw oidcError("OIDC_INVALID_TOKEN", "Token response has no id_token.");
+  }
+  const claims = await verifyIdToken(tokens.id_token, settings, metadata, nonce);
+  return {
+    sub: claims.sub as string,
+    email: claims.email ?? null,
+    name: claims.name ?? claims.preferred_username ?? null
+  };
+};
@@ -0,0 +1,300 @@
+// Minimal PDF 1.4 writer for server-side reports: standard Helvetica fonts, vector
+// shapes, JPEG images (embedded as-is) and URI links. No external dependencies.
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfImage = {
+  name: string;
+  data: Buffer;
+  width: number;
+  height: number;
+  colorSpace: "DeviceGray" | "DeviceRGB" | "DeviceCMYK";
+};
+
+export type PdfLink = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  url: string;
+};
+
+export type PdfPage = {
+  ops: string[];
+  links: PdfLink[];
+};
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const fontResources: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" }
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const winAnsiExtras: Record<string, number> = {
+  "—": 0x97,
+  "–": 0x96,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "…": 0x85,
+  "€": 0x80
+};
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+};
+
+const toPdfColor = (hex: string) => {
+  const value = hex.replace("#", "");
+  const full =
+    value.length === 3
+      ? value
+          .split("")
+          .map((char) => char + char)
+          .join("")
+      : value;
+  return [0, 2, 4]
+    .map((offset) => formatNumber(parseInt(full.slice(offset, offset + 2), 16) / 255))
+    .join(" ");
+};
+
+const encodeText = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = winAnsiExtras[char] ?? char.charCodeAt(0);
+      if (code > 255) {
+        return "?";
+      }
+      const encoded = String.fromCharCode(code);
+      return encoded === "\\" || encoded === "(" || encoded === ")" ? `\\${encoded}` : encoded;
+    })
+    .join("");
+
+// Helvetica averages ~0.5em per glyph; good enough for wrapping report text.
+export const estimateTextWidth = (text: string, size: number, font: PdfFont = "regular") =>
+  text.length * size * (font === "bold" ? 0.55 : 0.5);
+
+export const wrapText = (text: string, size: number, maxWidth: number) => {
+  const lines: string[] = [];
+  text.split(/\n/).forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/\s+/).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && estimateTextWidth(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+export const pdfText = (
+  x: number,
+  y: number,
+  text: string,
+  { size = 10, font = "regular", color = "#0f172a" }: { size?: number; font?: PdfFont; color?: string } = {}
+) =>
+  `BT /${fontResources[font].name} ${formatNumber(size)} Tf ${toPdfColor(color)} rg ${formatNumber(
+    x
+  )} ${formatNumber(y)} Td (${encodeText(text)}) Tj ET`;
+
+export const pdfLine = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  { color = "#cbd5e1", width = 1, dash }: { color?: string; width?: number; dash?: number[] } = {}
+) =>
+  `q ${toPdfColor(color)} RG ${formatNumber(width)} w [${(dash ?? []).join(" ")}] 0 d ${formatNumber(
+    x1
+  )} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S Q`;
+
+export const pdfPolygon = (
+  points: Array<{ x: number; y: number }>,
+  {
+    fill,
+    stroke,
+    width = 1,
+    dash
+  }: { fill?: string; stroke?: string; width?: number; dash?: number[] } = {}
+) => {
+  if (points.length === 0) {
+    return "";
+  }
+  const path = points
+    .map(({ x, y }, index) => `${formatNumber(x)} ${formatNumber(y)} ${index === 0 ? "m" : "l"}`)
+    .join(" ");
+  const paint = fill && stroke ? "b" : fill ? "f" : "s";
+  return `q ${fill ? `${toPdfColor(fill)} rg ` : ""}${
+    stroke ? `${toPdfColor(stroke)} RG ` : ""
+  }${formatNumber(width)} w [${(dash ?? []).join(" ")}] 0 d ${path} ${paint} Q`;
+};
+
+export const pdfRect = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  options: { fill?: string; stroke?: string; width?: number; dash?: number[] } = {}
+) =>
+  pdfPolygon(
+    [
+      { x, y },
+      { x: x + w, y },
+      { x: x + w, y: y + h },
+      { x, y: y + h }
+    ],
+    options
+  );
+
+export const pdfImage = (image: PdfImage, x: number, y: number, w: number, h: number) =>
+  `q ${formatNumber(w)} 0 0 ${formatNumber(h)} ${formatNumber(x)} ${formatNumber(y)} cm /${
+    image.name
+  } Do Q`;
+
+const jpegColorSpaces: Record<number, PdfImage["colorSpace"]> = {
+  1: "DeviceGray",
+  3: "DeviceRGB",
+  4: "DeviceCMYK"
+};
+
+// Reads dimensions from the SOF marker; returns null for anything that is not a JPEG.
+export const readJpegImage = (name: string, data: Buffer): PdfImage | null => {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      const colorSpace = jpegColorSpaces[data[offset + 9]];
+      if (!colorSpace) {
+        return null;
+      }
+      return {
+        name,
+        data,
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        colorSpace
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const escapeLiteral = (value: string) => value.replace(/[\\()]/g, (char) => `\\${char}`);
+
+export const buildPdf = (pages: PdfPage[], images: PdfImage[] = []) => {
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+    return objects.length;
+  };
+  const reserveObject = () => addObject("");
+
+  const catalogId = reserveObject();
+  const pagesId = reserveObject();
+  const fontIds = (Object.keys(fontResources) as PdfFont[]).map((font) =>
+    addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${fontResources[font].baseFont} /Encoding /WinAnsiEncoding >>`
+    )
+  );
+  const imageIds = images.map((image) =>
+    addObject(
+      Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${
+            image.colorSpace === "DeviceCMYK" ? " /Decode [1 0 1 0 1 0 1 0]" : ""
+          } /Length ${image.data.length} >>\nstream\n`,
+          "latin1"
+        ),
+        image.data,
+        Buffer.from("\nendstream", "latin1")
+      ])
+    )
+  );
+
+  const fontEntries = (Object.keys(fontResources) as PdfFont[])
+    .map((font, index) => `/${fontResources[font].name} ${fontIds[index]} 0 R`)
+    .join(" ");
+  const imageEntries = images.map((image, index) => `/${image.name} ${imageIds[index]} 0 R`).join(" ");
+  const resources = `<< /Font << ${fontEntries} >>${
+    images.length > 0 ? ` /XObject << ${imageEntries} >>` : ""
+  } >>`;
+
+  const pageIds = pages.map((page) => {
+    const content = Buffer.from(page.ops.join("\n"), "latin1");
+    const contentId = addObject(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n`, "latin1"),
+        content,
+        Buffer.from("\nendstream", "latin1")
+      ])
+    );
+    const annotIds = page.links.map((link) =>
+      addObject(
+        `<< /Type /Annot /Subtype /Link /Rect [${[link.x, link.y, link.x + link.w, link.y + link.h]
+          .map(formatNumber)
+          .join(" ")}] /Border [0 0 0] /A << /S /URI /URI (${escapeLiteral(link.url)}) >> >>`
+      )
+    );
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R${
+        annotIds.length > 0 ? ` /Annots [${annotIds.map((id) => `${id} 0 R`).join(" ")}]` : ""
+      } >>`
+    );
+  });
+
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    "latin1"
+  );
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets = objects.map((body, index) => {
+    const offset = length;
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1")
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+    return offset;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF"
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+  return Buffer.concat(chunks);
+};
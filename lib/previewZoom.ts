@@ -0,0 +1,113 @@
+// Zoom state of the preview frame: the image is drawn at `scale` and shifted by
+// (`x`, `y`) CSS pixels from the top-left corner of its container.
+export type PreviewZoom = {
+  scale: number;
+  x: number;
+  y: number;
+};
+
+export type ZoomPoint = {
+  x: number;
+  y: number;
+};
+
+export const PREVIEW_ZOOM_MIN = 1;
+export const PREVIEW_ZOOM_MAX = 6;
+export const defaultPreviewZoom: PreviewZoom = { scale: 1, x: 0, y: 0 };
+
+const clampValue = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Keeps the zoomed image covering the whole container.
+export const clampPreviewZoom = (
+  zoom: PreviewZoom,
+  width: number,
+  height: number
+): PreviewZoom => {
+  const scale = clampValue(zoom.scale, PREVIEW_ZOOM_MIN, PREVIEW_ZOOM_MAX);
+  return {
+    scale,
+    x: clampValue(zoom.x, width - width * scale, 0),
+    y: clampValue(zoom.y, height - height * scale, 0)
+  };
+};
+
+// Each zoom button press or wheel notch multiplies the scale by this factor.
+export const PREVIEW_ZOOM_STEP = 1.25;
+
+export const zoomAroundPoint = (
+  zoom: PreviewZoom,
+  scale: number,
+  point: ZoomPoint,
+  width: number,
+  height: number
+) => {
+  const contentX = (point.x - zoom.x) / zoom.scale;
+  const contentY = (point.y - zoom.y) / zoom.scale;
+  return clampPreviewZoom(
+    { scale, x: point.x - contentX * scale, y: point.y - contentY * scale },
+    width,
+    height
+  );
+};
+
+// Trackpads send many small deltas, mouse wheels a few large ones.
+export const getWheelZoomScale = (scale: number, deltaY: number) =>
+  scale * Math.pow(PREVIEW_ZOOM_STEP, -Math.max(-1, Math.min(1, deltaY / 100)));
+
+// Visible part of the frame, in normalized 0-1 coordinates.
+export const getZoomViewport = (zoom: PreviewZoom, width: number, height: number) => ({
+  x: width ? -zoom.x / (width * zoom.scale) : 0,
+  y: height ? -zoom.y / (height * zoom.scale) : 0,
+  w: 1 / zoom.scale,
+  h: 1 / zoom.scale
+});
+
+export const centerZoomOn = (
+  zoom: PreviewZoom,
+  target: ZoomPoint,
+  width: number,
+  height: number
+) =>
+  clampPreviewZoom(
+    {
+      scale: zoom.scale,
+      x: width / 2 - target.x * width * zoom.scale,
+      y: height / 2 - target.y * height * zoom.scale
+    },
+    width,
+    height
+  );
+
+export const getPointerDistance = (a: ZoomPoint, b: ZoomPoint) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+export const getPointerMidpoint = (a: ZoomPoint, b: ZoomPoint): ZoomPoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2
+});
+
+// Two-finger gesture: the content under the starting midpoint follows the
+// fingers while the distance between them drives the scale.
+export const getPinchZoom = (
+  start: PreviewZoom,
+  startMidpoint: ZoomPoint,
+  startDistance: number,
+  midpoint: ZoomPoint,
+  distance: number,
+  width: number,
+  height: number
+) => {
+  const scale = clampValue(
+    startDistance > 0 ? (start.scale * distance) / startDistance : start.scale,
+    PREVIEW_ZOOM_MIN,
+    PREVIEW_ZOOM_MAX
+  );
+  const contentX = (startMidpoint.x - start.x) / start.scale;
+  const contentY = (startMidpoint.y - start.y) / start.scale;
+  return clampPreviewZoom(
+    { scale, x: midpoint.x - contentX * scale, y: midpoint.y - contentY * scale },
+    width,
+    height
+  );
+};
@@ -0,0 +1,124 @@
+export type RadarSeries = {
+  id: string;
+  label: string;
+  color: string;
+  values: Record<string, number | null | undefined>;
+};
+
+export type RadarPoint = {
+  x: number;
+  y: number;
+};
+
+export type RadarVertex = RadarPoint & {
+  axis: string;
+  value: number | null;
+};
+
+export type RadarSegment = {
+  from: RadarPoint;
+  to: RadarPoint;
+  // True when the segment bridges one or more missing axes.
+  bridged: boolean;
+};
+
+export type RadarLayout = {
+  size: number;
+  center: number;
+  radius: number;
+  scale: number;
+};
+
+export const RADAR_RINGS = [0.25, 0.5, 0.75, 1];
+
+const LABEL_MARGIN = 48;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Expected axes first (in backend order), then any extra axis found in the values.
+export const resolveRadarAxes = (...lists: Array<string[] | null | undefined>) => {
+  const axes: string[] = [];
+  lists.forEach((list) => {
+    (list ?? []).forEach((axis) => {
+      if (axis && !axes.includes(axis)) {
+        axes.push(axis);
+      }
+    });
+  });
+  return axes;
+};
+
+// Radar payloads come as 0-1, 0-10 or 0-100 depending on the scorer.
+export const resolveRadarScale = (series: RadarSeries[]) => {
+  const peak = series.reduce(
+    (max, entry) => Math.max(max, ...Object.values(entry.values).filter(isFiniteNumber)),
+    0
+  );
+  if (peak <= 1) {
+    return 1;
+  }
+  if (peak <= 10) {
+    return 10;
+  }
+  return Math.max(100, Math.ceil(peak / 10) * 10);
+};
+
+export const createRadarLayout = (size: number, scale: number): RadarLayout => ({
+  size,
+  center: size / 2,
+  radius: size / 2 - LABEL_MARGIN,
+  scale
+});
+
+export const getRadarPoint = (
+  layout: RadarLayout,
+  axisCount: number,
+  index: number,
+  ratio: number
+): RadarPoint => {
+  const angle = (Math.PI * 2 * index) / axisCount - Math.PI / 2;
+  return {
+    x: layout.center + Math.cos(angle) * layout.radius * ratio,
+    y: layout.center + Math.sin(angle) * layout.radius * ratio
+  };
+};
+
+export const formatRadarPoints = (points: RadarPoint[]) =>
+  points.map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`).join(" ");
+
+export const getRadarLabelAnchor = (layout: RadarLayout, point: RadarPoint) => {
+  if (Math.abs(point.x - layout.center) < 4) {
+    return "middle";
+  }
+  return point.x > layout.center ? "start" : "end";
+};
+
+// Missing axes keep their slot on the outer ring so they can be drawn as hollow markers.
+export const buildRadarVertices = (
+  layout: RadarLayout,
+  axes: string[],
+  values: RadarSeries["values"]
+): RadarVertex[] =>
+  axes.map((axis, index) => {
+    const value = values[axis];
+    if (!isFiniteNumber(value)) {
+      return { axis, value: null, ...getRadarPoint(layout, axes.length, index, 1) };
+    }
+    const ratio = Math.min(Math.max(value / layout.scale, 0), 1);
+    return { axis, value, ...getRadarPoint(layout, axes.length, index, ratio) };
+  });
+
+export const buildRadarSegments = (vertices: RadarVertex[]): RadarSegment[] => {
+  const present = vertices
+    .map((vertex, index) => ({ vertex, index }))
+    .filter(({ vertex }) => vertex.value !== null);
+  if (present.length < 2) {
+    return [];
+  }
+  return present.map(({ vertex, index }, position) => {
+    const next = present[(position + 1) % present.length];
+    const gap = (next.index - index + vertices.length) % vertices.length;
+    return { from: vertex, to: next.vertex, bridged: gap > 1 };
+  });
+};
@@ -0,0 +1,364 @@
+import type { JobResponse, PreviewFrame } from "@/lib/api";
+import { normalizeFrameUrl } from "@/lib/frameUrl";
+import { resolveEvidenceMetrics, type EvidenceMetric } from "@/lib/metrics";
+import {
+  RADAR_RINGS,
+  buildRadarSegments,
+  buildRadarVertices,
+  createRadarLayout,
+  formatRadarPoints,
+  getRadarLabelAnchor,
+  getRadarPoint,
+  resolveRadarAxes,
+  resolveRadarScale,
+  type RadarSeries
+} from "@/lib/radar";
+import { getBestPreviewFrameKey, type NormalizedBBox } from "@/lib/selection";
+import { extractWarnings } from "@/lib/warnings";
+
+export type ReportReferenceFrame = {
+  imageUrl: string;
+  timeSec: number | null;
+  bbox: NormalizedBBox | null;
+};
+
+export type ReportClip = {
+  label: string;
+  url: string;
+};
+
+export type ScoutingReport = {
+  jobId: string;
+  generatedAt: string;
+  status: string | null;
+  teamName: string | null;
+  shirtNumber: number | null;
+  category: string | null;
+  playerRole: string | null;
+  overallScore: number | null;
+  roleScore: number | null;
+  radarAxes: string[];
+  radarSeries: RadarSeries[];
+  radarReferences: RadarSeries[];
+  radarScale: number;
+  radarPartial: boolean;
+  metrics: EvidenceMetric[];
+  scoreExplanation: string | null;
+  warnings: string[];
+  referenceFrame: ReportReferenceFrame | null;
+  clips: ReportClip[];
+  trackingJsonUrl: string | null;
+  inputVideoUrl: string | null;
+};
+
+export const REPORT_COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  grid: "#cbd5e1",
+  player: "#059669",
+  reference: "#64748b",
+  bbox: "#f43f5e"
+};
+
+const REFERENCE_FRAME_TOLERANCE_SEC = 0.5;
+
+export const formatReportScore = (value: number | null | undefined) =>
+  typeof value === "number" && Number.isFinite(value) ? value.toFixed(1) : "—";
+
+export const formatReportMetric = (metric: EvidenceMetric) =>
+  typeof metric.value === "number" ? formatReportScore(metric.value) : metric.value ?? "—";
+
+export const formatReportTimestamp = (value: string) => {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime())
+    ? value
+    : `${parsed.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+};
+
+export const getReportSubtitle = (report: ScoutingReport) =>
+  [
+    report.teamName,
+    report.shirtNumber != null ? `#${report.shirtNumber}` : null,
+    report.playerRole,
+    report.category
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const resolveReferenceFrame = (job: JobResponse): ReportReferenceFrame | null => {
+  const playerRef = job.playerRef ?? null;
+  if (!playerRef) {
+    return null;
+  }
+  const frames: PreviewFrame[] = [...(job.result?.previewFrames ?? []), ...(job.previewFrames ?? [])];
+  const frameKey = getBestPreviewFrameKey(job.playerRefRaw);
+  const timeSec = playerRef.frameTimeSec ?? playerRef.t ?? null;
+  const byKey = frameKey ? frames.find((frame) => frame.key === frameKey) : undefined;
+  const byTime =
+    timeSec !== null
+      ? frames
+          .filter(
+            (frame) =>
+              frame.timeSec !== null &&
+              Math.abs(frame.timeSec - timeSec) <= REFERENCE_FRAME_TOLERANCE_SEC
+          )
+          .sort(
+            (a, b) => Math.abs((a.timeSec ?? 0) - timeSec) - Math.abs((b.timeSec ?? 0) - timeSec)
+          )[0]
+      : undefined;
+  const frame = byKey ?? byTime;
+  const imageUrl = frame?.signedUrl ?? frame?.url ?? null;
+  if (!frame || !imageUrl) {
+    return null;
+  }
+  return {
+    imageUrl: normalizeFrameUrl(imageUrl),
+    timeSec: frame.timeSec ?? timeSec,
+    bbox: { x: playerRef.x, y: playerRef.y, w: playerRef.w, h: playerRef.h }
+  };
+};
+
+export const buildScoutingReport = (job: JobResponse): ScoutingReport => {
+  const result = job.result ?? null;
+  const radar = result?.radar ?? {};
+  const playerRole = result?.playerRole ?? job.role ?? null;
+  const radarSeries: RadarSeries[] =
+    Object.keys(radar).length > 0
+      ? [{ id: "player", label: "Player", color: REPORT_COLORS.player, values: radar }]
+      : [];
+  const radarReferences: RadarSeries[] = result?.radarRoleAverage
+    ? [
+        {
+          id: "role-average",
+          label: `${playerRole ?? "Role"} average`,
+          color: REPORT_COLORS.reference,
+          values: result.radarRoleAverage
+        }
+      ]
+    : [];
+  const expected = result?.radarExpected ?? null;
+
+  return {
+    jobId: job.jobId ?? "",
+    generatedAt: new Date().toISOString(),
+    status: job.status ?? null,
+    teamName: job.teamName ?? null,
+    shirtNumber: job.shirtNumber ?? null,
+    category: job.category ?? null,
+    playerRole,
+    overallScore: result?.overallScore ?? null,
+    roleScore: result?.roleScore ?? null,
+    radarAxes: resolveRadarAxes(expected, Object.keys(radar)),
+    radarSeries,
+    radarReferences,
+    radarScale: resolveRadarScale([...radarSeries, ...radarReferences]),
+    radarPartial: Boolean(expected?.some((axis) => radar[axis] == null)),
+    metrics: resolveEvidenceMetrics(result).filter((metric) => metric.value !== null),
+    scoreExplanation: result?.scoreExplanation ?? null,
+    warnings: extractWarnings(result?.warnings ?? job.warnings ?? null).messages,
+    referenceFrame: resolveReferenceFrame(job),
+    clips: (result?.clips ?? [])
+      .filter((clip) => Boolean(clip.signedUrl))
+      .map((clip, index) => ({
+        label: `Clip ${index + 1} (${clip.start ?? "?"}s-${clip.end ?? "?"}s)`,
+        url: clip.signedUrl as string
+      })),
+    trackingJsonUrl: result?.trackingJsonUrl ?? null,
+    inputVideoUrl: result?.assets?.inputVideoUrl ?? null
+  };
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderRadarSvg = (report: ScoutingReport, size = 320) => {
+  const { radarAxes: axes } = report;
+  const layout = createRadarLayout(size, report.radarScale);
+  const rings = RADAR_RINGS.map(
+    (ring) =>
+      `<polygon points="${formatRadarPoints(
+        axes.map((_, index) => getRadarPoint(layout, axes.length, index, ring))
+      )}" fill="none" stroke="${REPORT_COLORS.grid}" />`
+  ).join("");
+  const spokes = axes
+    .map((axis, index) => {
+      const edge = getRadarPoint(layout, axes.length, index, 1);
+      const label = getRadarPoint(layout, axes.length, index, 1.18);
+      const missing = report.radarSeries.every((entry) => entry.values[axis] == null);
+      return `<line x1="${layout.center}" y1="${layout.center}" x2="${edge.x}" y2="${edge.y}" stroke="${
+        REPORT_COLORS.grid
+      }"${missing ? ' stroke-dasharray="3 3"' : ""} /><text x="${label.x}" y="${
+        label.y
+      }" text-anchor="${getRadarLabelAnchor(layout, label)}" dominant-baseline="middle" font-size="10" fill="${
+        missing ? REPORT_COLORS.muted : REPORT_COLORS.text
+      }">${escapeHtml(missing ? `${axis} (n/a)` : axis)}</text>`;
+    })
+    .join("");
+  const renderSeries = (entry: RadarSeries, reference: boolean) => {
+    const vertices = buildRadarVertices(layout, axes, entry.values);
+    const present = vertices.filter((vertex) => vertex.value !== null);
+    const fill =
+      !reference && present.length >= 3
+        ? `<polygon points="${formatRadarPoints(present)}" fill="${entry.color}" fill-opacity="0.15" />`
+        : "";
+    const segments = buildRadarSegments(vertices)
+      .map(
+        (segment) =>
+          `<line x1="${segment.from.x}" y1="${segment.from.y}" x2="${segment.to.x}" y2="${
+            segment.to.y
+          }" stroke="${entry.color}" stroke-width="${reference ? 1.5 : 2}"${
+            reference || segment.bridged ? ' stroke-dasharray="5 4"' : ""
+          } />`
+      )
+      .join("");
+    const markers = reference
+      ? ""
+      : vertices
+          .map((vertex) =>
+            vertex.value === null
+              ? `<circle cx="${vertex.x}" cy="${vertex.y}" r="4" fill="#ffffff" stroke="${entry.color}" stroke-dasharray="2 2" />`
+              : `<circle cx="${vertex.x}" cy="${vertex.y}" r="3" fill="${entry.color}" />`
+          )
+          .join("");
+    return `${fill}${segments}${markers}`;
+  };
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size}" height="${size}" font-family="Helvetica, Arial, sans-serif">${rings}${spokes}${report.radarReferences
+    .map((entry) => renderSeries(entry, true))
+    .join("")}${report.radarSeries.map((entry) => renderSeries(entry, false)).join("")}</svg>`;
+};
+
+const reportStyles = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Helvetica, Arial, sans-serif; color: ${REPORT_COLORS.text}; font-size: 12px; line-height: 1.5; }
+  main { max-width: 780px; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 24px; margin: 0; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.15em; color: ${REPORT_COLORS.muted}; margin: 24px 0 8px; }
+  .subtitle, .muted { color: ${REPORT_COLORS.muted}; }
+  .scores { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .card { border: 1px solid ${REPORT_COLORS.grid}; border-radius: 8px; padding: 12px; break-inside: avoid; }
+  .score { font-size: 28px; font-weight: bold; color: ${REPORT_COLORS.player}; }
+  .radar { display: flex; gap: 24px; align-items: flex-start; break-inside: avoid; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 4px 8px; border-bottom: 1px solid #e2e8f0; }
+  td.value { text-align: right; font-weight: bold; }
+  .frame { position: relative; display: inline-block; max-width: 100%; break-inside: avoid; }
+  .frame img { display: block; max-width: 100%; }
+  .bbox { position: absolute; border: 2px solid ${REPORT_COLORS.bbox}; }
+  .warnings li { color: #b45309; }
+  .toolbar { display: flex; gap: 12px; margin-bottom: 16px; }
+  .toolbar a, .toolbar button { font: inherit; padding: 6px 12px; border: 1px solid ${REPORT_COLORS.grid}; border-radius: 6px; background: #fff; color: ${REPORT_COLORS.text}; text-decoration: none; cursor: pointer; }
+  @media print { .toolbar { display: none; } main { padding: 0; } }
+`;
+
+export const renderReportHtml = (report: ScoutingReport, { pdfUrl }: { pdfUrl: string }) => {
+  const subtitle = getReportSubtitle(report);
+  const radarRows = report.radarAxes
+    .map((axis) => {
+      const value = report.radarSeries[0]?.values[axis];
+      const reference = report.radarReferences[0]?.values[axis];
+      return `<tr><td>${escapeHtml(axis)}</td><td class="value">${formatReportScore(value)}</td>${
+        report.radarReferences.length > 0
+          ? `<td class="value muted">${formatReportScore(reference)}</td>`
+          : ""
+      }</tr>`;
+    })
+    .join("");
+  const frame = report.referenceFrame;
+
+  const sections = [
+    `<section class="scores">
+      <div class="card"><div class="muted">Overall score</div><div class="score">${formatReportScore(
+        report.overallScore
+      )}</div></div>
+      <div class="card"><div class="muted">Role score${
+        report.playerRole ? ` · ${escapeHtml(report.playerRole)}` : ""
+      }</div><div class="score">${formatReportScore(report.roleScore)}</div></div>
+    </section>`,
+    report.radarAxes.length > 0
+      ? `<h2>Radar${report.radarPartial ? " (partial)" : ""}</h2>
+    <section class="radar">
+      ${report.radarAxes.length >= 3 ? renderRadarSvg(report) : ""}
+      <table>${
+        report.radarReferences.length > 0
+          ? `<tr><td></td><td class="value muted">Player</td><td class="value muted">${escapeHtml(
+              report.radarReferences[0].label
+            )}</td></tr>`
+          : ""
+      }${radarRows}</table>
+    </section>`
+      : "",
+    report.metrics.length > 0
+      ? `<h2>Evidence metrics</h2><table>${report.metrics
+          .map(
+            (metric) =>
+              `<tr><td>${escapeHtml(metric.label)}</td><td class="value">${escapeHtml(
+                formatReportMetric(metric)
+              )}</td></tr>`
+          )
+          .join("")}</table>`
+      : "",
+    report.scoreExplanation
+      ? `<h2>How this score is computed</h2><p>${escapeHtml(report.scoreExplanation)}</p>`
+      : "",
+    report.warnings.length > 0
+      ? `<h2>Warnings</h2><ul class="warnings">${report.warnings
+          .map((warning) => `<li>${escapeHtml(warning)}</li>`)
+          .join("")}</ul>`
+      : "",
+    frame
+      ? `<h2>Player reference${
+          frame.timeSec !== null ? ` · ${frame.timeSec.toFixed(1)}s` : ""
+        }</h2><div class="frame"><img src="${escapeHtml(frame.imageUrl)}" alt="Player reference frame" />${
+          frame.bbox
+            ? `<div class="bbox" style="left:${frame.bbox.x * 100}%;top:${frame.bbox.y * 100}%;width:${
+                frame.bbox.w * 100
+              }%;height:${frame.bbox.h * 100}%"></div>`
+            : ""
+        }</div>`
+      : "",
+    report.clips.length > 0 || report.trackingJsonUrl || report.inputVideoUrl
+      ? `<h2>Clips & assets</h2><ul>${[
+          ...report.clips,
+          ...(report.inputVideoUrl ? [{ label: "Input video", url: report.inputVideoUrl }] : []),
+          ...(report.trackingJsonUrl
+            ? [{ label: "tracking.json", url: report.trackingJsonUrl }]
+            : [])
+        ]
+          .map(
+            (link) =>
+              `<li><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></li>`
+          )
+          .join("")}</ul>`
+      : ""
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Scouting report · ${escapeHtml(report.jobId)}</title>
+<style>${reportStyles}</style>
+</head>
+<body>
+<main>
+  <div class="toolbar">
+    <button type="button" onclick="window.print()">Print</button>
+    <a href="${escapeHtml(pdfUrl)}">Download PDF</a>
+  </div>
+  <h1>Scouting report</h1>
+  <p class="subtitle">${escapeHtml(subtitle || report.jobId)}</p>
+  <p class="muted">Job ${escapeHtml(report.jobId)} · generated ${escapeHtml(
+    formatReportTimestamp(report.generatedAt)
+  )}</p>
+  ${sections.filter(Boolean).join("\n  ")}
+</main>
+</body>
+</html>`;
+};
@@ -0,0 +1,293 @@
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  buildPdf,
+  estimateTextWidth,
+  pdfImage,
+  pdfLine,
+  pdfPolygon,
+  pdfRect,
+  pdfText,
+  wrapText,
+  type PdfFont,
+  type PdfImage,
+  type PdfPage
+} from "@/lib/pdf";
+import {
+  RADAR_RINGS,
+  buildRadarSegments,
+  buildRadarVertices,
+  createRadarLayout,
+  getRadarLabelAnchor,
+  getRadarPoint,
+  type RadarPoint
+} from "@/lib/radar";
+import {
+  REPORT_COLORS,
+  formatReportMetric,
+  formatReportScore,
+  formatReportTimestamp,
+  getReportSubtitle,
+  type ScoutingReport
+} from "@/lib/report";
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const RADAR_SIZE = 220;
+const MAX_FRAME_HEIGHT = 300;
+
+type TextOptions = {
+  size?: number;
+  font?: PdfFont;
+  color?: string;
+  indent?: number;
+};
+
+export const renderReportPdf = (report: ScoutingReport, referenceImage: PdfImage | null) => {
+  let page: PdfPage = { ops: [], links: [] };
+  const pages: PdfPage[] = [page];
+  // Distance from the top of the page; PDF coordinates start at the bottom.
+  let cursor = MARGIN;
+
+  const toY = (top: number) => PDF_PAGE_HEIGHT - top;
+  const newPage = () => {
+    page = { ops: [], links: [] };
+    pages.push(page);
+    cursor = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (cursor + height > PDF_PAGE_HEIGHT - MARGIN) {
+      newPage();
+    }
+  };
+
+  const writeLine = (text: string, { size = 10, font, color, indent = 0 }: TextOptions = {}) => {
+    ensureSpace(size * 1.5);
+    cursor += size * 1.2;
+    page.ops.push(pdfText(MARGIN + indent, toY(cursor), text, { size, font, color }));
+    cursor += size * 0.3;
+  };
+
+  const writeParagraph = (text: string, options: TextOptions = {}) => {
+    wrapText(text, options.size ?? 10, CONTENT_WIDTH - (options.indent ?? 0)).forEach((line) =>
+      writeLine(line, options)
+    );
+  };
+
+  const writeHeading = (text: string) => {
+    ensureSpace(48);
+    cursor += 14;
+    writeLine(text.toUpperCase(), { size: 9, font: "bold", color: REPORT_COLORS.muted });
+    page.ops.push(
+      pdfLine(MARGIN, toY(cursor), MARGIN + CONTENT_WIDTH, toY(cursor), {
+        color: REPORT_COLORS.grid
+      })
+    );
+    cursor += 4;
+  };
+
+  const writeRow = (label: string, values: string[], left = MARGIN, width = CONTENT_WIDTH) => {
+    ensureSpace(16);
+    cursor += 12;
+    page.ops.push(pdfText(left, toY(cursor), label, { size: 10 }));
+    values.forEach((value, index) => {
+      const right = left + width - index * 64;
+      page.ops.push(
+        pdfText(right - estimateTextWidth(value, 10, "bold"), toY(cursor), value, {
+          size: 10,
+          font: index === 0 ? "bold" : "regular",
+          color: index === 0 ? REPORT_COLORS.text : REPORT_COLORS.muted
+        })
+      );
+    });
+    cursor += 4;
+  };
+
+  const writeLink = (label: string, url: string) => {
+    ensureSpace(16);
+    cursor += 12;
+    page.ops.push(pdfText(MARGIN, toY(cursor), label, { size: 10, color: REPORT_COLORS.player }));
+    page.links.push({
+      x: MARGIN,
+      y: toY(cursor) - 3,
+      w: estimateTextWidth(label, 10),
+      h: 14,
+      url
+    });
+    cursor += 4;
+  };
+
+  const drawRadar = (top: number) => {
+    const { radarAxes: axes } = report;
+    const layout = createRadarLayout(RADAR_SIZE, report.radarScale);
+    const at = ({ x, y }: RadarPoint) => ({ x: MARGIN + x, y: toY(top + y) });
+    const center = at({ x: layout.center, y: layout.center });
+
+    RADAR_RINGS.forEach((ring) => {
+      page.ops.push(
+        pdfPolygon(
+          axes.map((_, index) => at(getRadarPoint(layout, axes.length, index, ring))),
+          { stroke: REPORT_COLORS.grid, width: 0.5 }
+        )
+      );
+    });
+    axes.forEach((axis, index) => {
+      const edge = at(getRadarPoint(layout, axes.length, index, 1));
+      const labelPoint = getRadarPoint(layout, axes.length, index, 1.18);
+      const missing = report.radarSeries.every((entry) => entry.values[axis] == null);
+      const text = missing ? `${axis} (n/a)` : axis;
+      const anchor = getRadarLabelAnchor(layout, labelPoint);
+      const width = estimateTextWidth(text, 7);
+      const label = at(labelPoint);
+      page.ops.push(
+        pdfLine(center.x, center.y, edge.x, edge.y, {
+          color: REPORT_COLORS.grid,
+          width: 0.5,
+          dash: missing ? [3, 3] : undefined
+        }),
+        pdfText(
+          anchor === "middle" ? label.x - width / 2 : anchor === "end" ? label.x - width : label.x,
+          label.y - 2.5,
+          text,
+          { size: 7, color: missing ? REPORT_COLORS.muted : REPORT_COLORS.text }
+        )
+      );
+    });
+
+    const drawSeries = (reference: boolean) => (entry: ScoutingReport["radarSeries"][number]) => {
+      const vertices = buildRadarVertices(layout, axes, entry.values);
+      buildRadarSegments(vertices).forEach((segment) => {
+        const from = at(segment.from);
+        const to = at(segment.to);
+        page.ops.push(
+          pdfLine(from.x, from.y, to.x, to.y, {
+            color: entry.color,
+            width: reference ? 1 : 1.5,
+            dash: reference || segment.bridged ? [4, 3] : undefined
+          })
+        );
+      });
+      if (reference) {
+        return;
+      }
+      vertices.forEach((vertex) => {
+        const point = at(vertex);
+        page.ops.push(
+          vertex.value === null
+            ? pdfRect(point.x - 3, point.y - 3, 6, 6, { stroke: entry.color, dash: [1, 1] })
+            : pdfRect(point.x - 2, point.y - 2, 4, 4, { fill: entry.color })
+        );
+      });
+    };
+    report.radarReferences.forEach(drawSeries(true));
+    report.radarSeries.forEach(drawSeries(false));
+  };
+
+  writeLine("Scouting report", { size: 22, font: "bold" });
+  const subtitle = getReportSubtitle(report);
+  if (subtitle) {
+    writeLine(subtitle, { size: 12, color: REPORT_COLORS.muted });
+  }
+  writeLine(`Job ${report.jobId} · generated ${formatReportTimestamp(report.generatedAt)}`, {
+    size: 9,
+    color: REPORT_COLORS.muted
+  });
+
+  writeHeading("Scores");
+  writeRow("Overall score", [formatReportScore(report.overallScore)]);
+  writeRow(
+    report.playerRole ? `Role score · ${report.playerRole}` : "Role score",
+    [formatReportScore(report.roleScore)]
+  );
+
+  if (report.radarAxes.length > 0) {
+    writeHeading(report.radarPartial ? "Radar (partial)" : "Radar");
+    const reference = report.radarReferences[0] ?? null;
+    const rowsHeight = (report.radarAxes.length + (reference ? 1 : 0)) * 16;
+    const drawChart = report.radarAxes.length >= 3;
+    ensureSpace(Math.max(drawChart ? RADAR_SIZE : 0, rowsHeight));
+    const top = cursor;
+    if (drawChart) {
+      drawRadar(top);
+    }
+    const tableLeft = drawChart ? MARGIN + RADAR_SIZE + 24 : MARGIN;
+    const tableWidth = MARGIN + CONTENT_WIDTH - tableLeft;
+    if (reference) {
+      writeRow("", ["Player", "Role avg"], tableLeft, tableWidth);
+    }
+    report.radarAxes.forEach((axis) => {
+      const values = [formatReportScore(report.radarSeries[0]?.values[axis])];
+      if (reference) {
+        values.push(formatReportScore(reference.values[axis]));
+      }
+      writeRow(axis, values, tableLeft, tableWidth);
+    });
+    cursor = Math.max(cursor, top + (drawChart ? RADAR_SIZE : 0));
+  }
+
+  if (report.metrics.length > 0) {
+    writeHeading("Evidence metrics");
+    report.metrics.forEach((metric) => writeRow(metric.label, [formatReportMetric(metric)]));
+  }
+
+  if (report.scoreExplanation) {
+    writeHeading("How this score is computed");
+    writeParagraph(report.scoreExplanation);
+  }
+
+  if (report.warnings.length > 0) {
+    writeHeading("Warnings");
+    report.warnings.forEach((warning) =>
+      writeParagraph(`• ${warning}`, { color: "#b45309" })
+    );
+  }
+
+  const frame = report.referenceFrame;
+  if (frame) {
+    writeHeading(
+      frame.timeSec !== null
+        ? `Player reference · ${frame.timeSec.toFixed(1)}s`
+        : "Player reference"
+    );
+    if (referenceImage) {
+      const ratio = Math.min(
+        CONTENT_WIDTH / referenceImage.width,
+        MAX_FRAME_HEIGHT / referenceImage.height
+      );
+      const width = referenceImage.width * ratio;
+      const height = referenceImage.height * ratio;
+      ensureSpace(height + 8);
+      const top = cursor + 4;
+      page.ops.push(pdfImage(referenceImage, MARGIN, toY(top + height), width, height));
+      if (frame.bbox) {
+        page.ops.push(
+          pdfRect(
+            MARGIN + frame.bbox.x * width,
+            toY(top + (frame.bbox.y + frame.bbox.h) * height),
+            frame.bbox.w * width,
+            frame.bbox.h * height,
+            { stroke: REPORT_COLORS.bbox, width: 2 }
+          )
+        );
+      }
+      cursor = top + height + 4;
+    } else {
+      writeParagraph("The reference frame could not be embedded; open it from the link below.", {
+        color: REPORT_COLORS.muted
+      });
+      writeLink("Reference frame", frame.imageUrl);
+    }
+  }
+
+  const links = [
+    ...report.clips,
+    ...(report.inputVideoUrl ? [{ label: "Input video", url: report.inputVideoUrl }] : []),
+    ...(report.trackingJsonUrl ? [{ label: "tracking.json", url: report.trackingJsonUrl }] : [])
+  ];
+  if (links.length > 0) {
+    writeHeading("Clips & assets");
+    links.forEach((link) => writeLink(link.label, link.url));
+  }
+
+  return buildPdf(pages, referenceImage ? [referenceImage] : []);
+};
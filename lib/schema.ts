@@ -0,0 +1,330 @@
+export type SchemaDiagnosticKind =
+  | "unknown_field"
+  | "missing_field"
+  | "invalid_type"
+  | "unknown_version";
+
+export type SchemaDiagnostic = {
+  kind: SchemaDiagnosticKind;
+  schema: string;
+  path: string;
+  message: string;
+};
+
+type ParseContext = {
+  schema: string;
+  diagnostics: SchemaDiagnostic[];
+};
+
+export type Schema<T> = {
+  (value: unknown, context: ParseContext, path: string): T | null;
+  keys?: string[];
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type UnknownRecord = Record<string, any>;
+
+export const coerceNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Alias meaning "read the nested schema from the parent record itself", e.g. a bbox
+// sent as top-level x/y/w/h instead of under `bbox`.
+export const SELF = ".";
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describeType = (value: unknown) =>
+  Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+const report = (
+  context: ParseContext,
+  kind: SchemaDiagnosticKind,
+  path: string,
+  message: string
+) => {
+  context.diagnostics.push({ kind, schema: context.schema, path: path || "(root)", message });
+};
+
+const invalidType = (context: ParseContext, path: string, expected: string, value: unknown) => {
+  report(context, "invalid_type", path, `Expected ${expected}, received ${describeType(value)}.`);
+  return null;
+};
+
+export const string = (): Schema<string> => (value, context, path) => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "string") {
+    return value.trim() ? value : null;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return invalidType(context, path, "string", value);
+};
+
+export const number = (): Schema<number> => (value, context, path) => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const parsed = coerceNumber(value);
+  return parsed === null ? invalidType(context, path, "number", value) : parsed;
+};
+
+export const boolean = (): Schema<boolean> => (value, context, path) => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return invalidType(context, path, "boolean", value);
+};
+
+export const unknownValue = (): Schema<unknown> => (value) => value ?? null;
+
+export const map = <T, U>(schema: Schema<T>, transform: (value: T) => U | null): Schema<U> => {
+  const parse: Schema<U> = (value, context, path) => {
+    const parsed = schema(value, context, path);
+    return parsed === null ? null : transform(parsed);
+  };
+  parse.keys = schema.keys;
+  return parse;
+};
+
+// True when the entry at `path` is itself missing a required field; deeper
+// misses belong to nested arrays, which drop their own entries.
+const isMissingOwnField = (diagnostic: SchemaDiagnostic, path: string) =>
+  diagnostic.kind === "missing_field" &&
+  diagnostic.path.startsWith(`${path}.`) &&
+  !/[.[]/.test(diagnostic.path.slice(path.length + 1));
+
+// Entries that fail to parse or miss a required field are dropped (and
+// reported), so one bad item does not take the whole list down.
+export const array =
+  <T,>(item: Schema<T>): Schema<T[]> =>
+  (value, context, path) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (!Array.isArray(value)) {
+      return invalidType(context, path, "array", value);
+    }
+    return value.reduce<T[]>((acc, entry, index) => {
+      const entryPath = joinPath(path, index);
+      const reportedBefore = context.diagnostics.length;
+      const parsed = item(entry, context, entryPath);
+      const incomplete = context.diagnostics
+        .slice(reportedBefore)
+        .some((diagnostic) => isMissingOwnField(diagnostic, entryPath));
+      if (parsed !== null && !incomplete) {
+        acc.push(parsed);
+      }
+      return acc;
+    }, []);
+  };
+
+export const record =
+  <T,>(item: Schema<T>): Schema<Record<string, T>> =>
+  (value, context, path) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (!isRecord(value)) {
+      return invalidType(context, path, "object", value);
+    }
+    return Object.entries(value).reduce<Record<string, T>>((acc, [key, entry]) => {
+      const parsed = item(entry, context, joinPath(path, key));
+      if (parsed !== null) {
+        acc[key] = parsed;
+      }
+      return acc;
+    }, {});
+  };
+
+type Field<T> = {
+  schema: Schema<T>;
+  aliases: string[];
+  required: boolean;
+};
+
+export const field = <T,>(schema: Schema<T>, ...aliases: string[]): Field<T> => ({
+  schema,
+  aliases,
+  required: false
+});
+
+export const requiredField = <T,>(schema: Schema<T>, ...aliases: string[]): Field<T> => ({
+  schema,
+  aliases,
+  required: true
+});
+
+type ObjectOptions = {
+  // Keys the frontend knowingly ignores; they are not reported as unknown.
+  ignore?: string[];
+  // Accept any extra key silently (free-form payloads such as metrics).
+  open?: boolean;
+};
+
+type ObjectOutput<F extends Record<string, Field<any>>> = {
+  [K in keyof F]: F[K] extends Field<infer T> ? T | null : never;
+};
+
+export const object = <F extends Record<string, Field<any>>>(
+  fields: F,
+  { ignore = [], open = false }: ObjectOptions = {}
+): Schema<ObjectOutput<F>> => {
+  const knownKeys = new Set(ignore);
+  Object.values(fields).forEach(({ schema, aliases }) => {
+    aliases.forEach((alias) => {
+      if (alias === SELF) {
+        schema.keys?.forEach((key) => knownKeys.add(key));
+      } else {
+        knownKeys.add(alias);
+      }
+    });
+  });
+
+  const parse: Schema<ObjectOutput<F>> = (value, context, path) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (!isRecord(value)) {
+      return invalidType(context, path, "object", value);
+    }
+
+    const output = {} as UnknownRecord;
+    Object.entries(fields).forEach(([name, { schema, aliases, required }]) => {
+      let parsed: unknown = null;
+      for (const alias of aliases) {
+        if (alias === SELF) {
+          // Nested diagnostics would duplicate the parent's, so parse quietly.
+          parsed = schema(value, { schema: context.schema, diagnostics: [] }, path);
+        } else if (value[alias] !== undefined && value[alias] !== null) {
+          parsed = schema(value[alias], context, joinPath(path, alias));
+        }
+        if (parsed !== null) {
+          break;
+        }
+      }
+      if (parsed === null && required) {
+        report(
+          context,
+          "missing_field",
+          joinPath(path, name),
+          `Missing required field (looked for ${aliases.join(", ")}).`
+        );
+      }
+      output[name] = parsed;
+    });
+
+    if (!open) {
+      Object.keys(value).forEach((key) => {
+        if (!knownKeys.has(key)) {
+          report(context, "unknown_field", joinPath(path, key), "Field is not part of the schema.");
+        }
+      });
+    }
+
+    return output as ObjectOutput<F>;
+  };
+  parse.keys = Array.from(knownKeys);
+  return parse;
+};
+
+export const versioned = <T,>(
+  versionAliases: string[],
+  schemas: Record<string, Schema<T>>,
+  defaultVersion: string
+): Schema<T> => {
+  const parse: Schema<T> = (value, context, path) => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (!isRecord(value)) {
+      return invalidType(context, path, "object", value);
+    }
+    const versionKey = versionAliases.find((alias) => value[alias] != null);
+    const version = versionKey ? String(value[versionKey]) : defaultVersion;
+    const schema = schemas[version];
+    if (schema) {
+      return schema(value, context, path);
+    }
+    report(
+      context,
+      "unknown_version",
+      joinPath(path, versionKey ?? versionAliases[0]),
+      `Unsupported schema version "${version}", parsing as "${defaultVersion}".`
+    );
+    return schemas[defaultVersion](value, context, path);
+  };
+  parse.keys = schemas[defaultVersion].keys;
+  return parse;
+};
+
+const reportedDiagnostics = new Set<string>();
+
+// Opt-in only: a strict build turns any drift into an error, which is useful
+// against a new backend but breaks whole pages over a single bad item.
+const shouldFailOnDrift = () => process.env.NEXT_PUBLIC_SCHEMA_STRICT === "true";
+
+const reportDiagnostics = (label: string, diagnostics: SchemaDiagnostic[]) => {
+  const fresh = diagnostics.filter((diagnostic) => {
+    const key = `${diagnostic.schema}|${diagnostic.kind}|${diagnostic.path.replace(
+      /\[\d+\]/g,
+      "[]"
+    )}`;
+    if (reportedDiagnostics.has(key)) {
+      return false;
+    }
+    reportedDiagnostics.add(key);
+    return true;
+  });
+  if (fresh.length > 0 && process.env.NODE_ENV !== "production") {
+    console.warn(`[schema] ${label}`, fresh);
+  }
+
+  const drift = diagnostics.filter((diagnostic) => diagnostic.kind !== "unknown_field");
+  if (drift.length > 0 && shouldFailOnDrift()) {
+    const error = new Error(
+      `Backend payload does not match the ${label} schema: ${drift
+        .map((diagnostic) => `${diagnostic.path} (${diagnostic.kind})`)
+        .join(", ")}`
+    );
+    (error as Error & { diagnostics?: SchemaDiagnostic[] }).diagnostics = drift;
+    throw error;
+  }
+};
+
+export const parsePayload = <T,>(schema: Schema<T>, value: unknown, label: string) => {
+  const context: ParseContext = { schema: label, diagnostics: [] };
+  const parsed = schema(value, context, "");
+  reportDiagnostics(label, context.diagnostics);
+  return { value: parsed, diagnostics: context.diagnostics };
+};
+
+// For values that were already normalized once (UI state, drafts): read through a
+// schema's aliases without reporting or throwing.
+export const parseQuietly = <T,>(schema: Schema<T>, value: unknown) =>
+  schema(value, { schema: "quiet", diagnostics: [] }, "");
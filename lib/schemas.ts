@@ -0,0 +1,335 @@
+import {
+  SELF,
+  array,
+  boolean,
+  field,
+  map,
+  number,
+  object,
+  record,
+  requiredField,
+  string,
+  unknownValue,
+  versioned,
+  type Infer,
+  type Schema
+} from "@/lib/schema";
+
+export const frameTimeAliases = [
+  "frameTimeSec",
+  "frame_time_sec",
+  "timeSec",
+  "time_sec",
+  "t",
+  "sample_time_sec",
+  "sampleTimeSec"
+];
+export const frameKeyAliases = ["frameKey", "frame_key", "key", "s3_key", "s3Key"];
+export const bboxAliases = ["bbox_xywh", "bbox", "box", "bounding_box", "boundingBox"];
+const trackIdAliases = ["trackId", "track_id", "id", "track"];
+const tierAliases = ["tier", "group", "section", "category", "bucket", "segment"];
+
+const bboxFields = object({
+  x: requiredField(number(), "x"),
+  y: requiredField(number(), "y"),
+  w: requiredField(number(), "w"),
+  h: requiredField(number(), "h")
+});
+
+export const bboxSchema = map(bboxFields, ({ x, y, w, h }) =>
+  x !== null && y !== null && w !== null && h !== null ? { x, y, w, h } : null
+);
+
+export const selectionSchema = object(
+  {
+    frameTimeSec: field(number(), ...frameTimeAliases),
+    frameKey: field(string(), ...frameKeyAliases),
+    trackId: field(string(), "trackId", "track_id"),
+    bbox: field(bboxSchema, ...bboxAliases, "selection", "target", SELF),
+    bestPreviewFrameKey: field(string(), "bestPreviewFrameKey", "best_preview_frame_key")
+  },
+  { ignore: ["confirmed", "source", "created_at", "updated_at", "createdAt", "updatedAt"] }
+);
+
+export const previewFrameTrackSchema = object({
+  trackId: requiredField(string(), ...trackIdAliases),
+  tier: field(string(), ...tierAliases),
+  scoreHint: field(number(), "score_hint", "scoreHint", "score", "confidence"),
+  bbox: field(bboxSchema, ...bboxAliases, SELF)
+});
+
+export const previewFrameSchema = object({
+  timeSec: field(number(), "timeSec", "time_sec", "timestamp", "t"),
+  key: field(string(), "key", "frame_key", "s3_key", "s3Key"),
+  name: field(string(), "name", "filename"),
+  signedUrl: field(string(), "signedUrl", "signed_url"),
+  imageUrl: field(string(), "imageUrl", "image_url", "url", "public_url", "publicUrl"),
+  bucket: field(string(), "bucket", "s3_bucket", "s3Bucket"),
+  isPublic: field(
+    boolean(),
+    "is_public",
+    "isPublic",
+    "public",
+    "publicly_accessible",
+    "publiclyAccessible"
+  ),
+  width: field(number(), "width", "w"),
+  height: field(number(), "height", "h"),
+  tracks: field(
+    array(previewFrameTrackSchema),
+    "tracks",
+    "track_overlays",
+    "overlay_tracks",
+    "overlayTracks",
+    "trackOverlays",
+    "track_candidates",
+    "candidates"
+  ),
+  targetCandidates: field(array(previewFrameTrackSchema), "targetCandidates", "target_candidates")
+});
+
+export const trackCandidateSampleFrameSchema = object({
+  frameTimeSec: field(number(), ...frameTimeAliases),
+  frameKey: field(string(), "frameKey", "frame_key", "key", "filename", "file_name"),
+  filename: field(string(), "filename", "file_name", "frame_key", "frameKey", "key"),
+  imageUrl: field(
+    string(),
+    "imageUrl",
+    "image_url",
+    "frameUrl",
+    "frame_url",
+    "thumbnailUrl",
+    "thumbnail_url"
+  ),
+  bbox: field(bboxSchema, ...bboxAliases, SELF)
+});
+
+export const trackCandidateSchema = object({
+  trackId: requiredField(string(), ...trackIdAliases),
+  coverage: field(number(), "coverage", "coverage_pct"),
+  stability: field(number(), "stability", "stability_score"),
+  avgBoxArea: field(number(), "avgBoxArea", "avg_box_area", "avg_box", "avg_box_area_pct"),
+  bestPreviewFrameKey: field(string(), "bestPreviewFrameKey", "best_preview_frame_key"),
+  thumbnailUrl: field(
+    string(),
+    "thumbnailUrl",
+    "thumbnail_url",
+    "sampleUrl",
+    "sample_url",
+    "frameUrl",
+    "frame_url",
+    "imageUrl",
+    "image_url"
+  ),
+  tier: field(string(), ...tierAliases),
+  shirtNumber: field(
+    number(),
+    "shirtNumber",
+    "shirt_number",
+    "jerseyNumber",
+    "jersey_number",
+    "detectedNumber",
+    "detected_number"
+  ),
+  frameTimeSec: field(number(), ...frameTimeAliases),
+  bbox: field(bboxSchema, ...bboxAliases, SELF),
+  sampleFrames: field(
+    array(trackCandidateSampleFrameSchema),
+    "sampleFrames",
+    "sample_frames",
+    "samples",
+    "frames"
+  )
+});
+
+export const trackCandidatesSchema = object(
+  {
+    candidates: field(array(trackCandidateSchema), "items", "candidates", "tracks"),
+    fallbackCandidates: field(
+      array(trackCandidateSchema),
+      "fallback_candidates",
+      "fallbackCandidates",
+      "best_matches",
+      "bestMatches",
+      "fallback"
+    )
+  },
+  { ignore: ["ok", "job_id", "jobId", "status", "count", "total"] }
+);
+
+export const jobProgressSchema = object({
+  pct: field(number(), "pct", "percent"),
+  step: field(string(), "step"),
+  message: field(string(), "message"),
+  updatedAt: field(string(), "updatedAt", "updated_at"),
+  autodetectionStatus: field(string(), "autodetectionStatus", "autodetection_status"),
+  errorDetail: field(string(), "errorDetail", "error_detail"),
+  totalTracks: field(number(), "totalTracks", "total_tracks", "tracksTotal", "tracks_total"),
+  framesProcessed: field(
+    number(),
+    "framesProcessed",
+    "frames_processed",
+    "processedFrames",
+    "processed_frames"
+  )
+});
+
+const jobAssetVideoSchema = object({
+  s3Key: field(string(), "s3Key", "s3_key", "key"),
+  signedUrl: field(string(), "signedUrl", "signed_url", "url"),
+  expiresIn: field(number(), "expiresIn", "expires_in")
+});
+
+const jobClipSchema = object({
+  index: field(number(), "index"),
+  start: field(number(), "start", "start_sec"),
+  end: field(number(), "end", "end_sec"),
+  s3Key: field(string(), "s3Key", "s3_key", "key"),
+  signedUrl: field(string(), "signedUrl", "signed_url", "url"),
+  expiresIn: field(number(), "expiresIn", "expires_in")
+});
+
+const jobResultSummaryV1Schema = object({
+  playerRole: field(string(), "playerRole", "player_role"),
+  overallScore: field(number(), "overallScore", "overall_score"),
+  roleScore: field(number(), "roleScore", "role_score"),
+  scoreExplanation: field(string(), "scoreExplanation", "score_explanation")
+});
+
+const jobResultV1Schema = object(
+  {
+    schemaVersion: field(string(), "schema_version", "schemaVersion"),
+    summary: field(jobResultSummaryV1Schema, "summary"),
+    overallScore: field(number(), "overallScore", "overall_score"),
+    roleScore: field(number(), "roleScore", "role_score"),
+    playerRole: field(string(), "playerRole", "player_role"),
+    radar: field(record(number()), "radar"),
+    radarExpected: field(
+      array(string()),
+      "radarExpected",
+      "radar_expected",
+      "radarKeys",
+      "radar_keys"
+    ),
+    radarRoleAverage: field(
+      record(number()),
+      "radarRoleAverage",
+      "radar_role_average",
+      "roleAverageRadar",
+      "role_average_radar"
+    ),
+    clips: field(array(jobClipSchema), "clips"),
+    assets: field(
+      object(
+        {
+          inputVideo: field(jobAssetVideoSchema, "inputVideo", "input_video"),
+          inputVideoUrl: field(string(), "inputVideoUrl", "input_video_url"),
+          clips: field(array(jobClipSchema), "clips"),
+          trackingJsonUrl: field(
+            string(),
+            "trackingJsonUrl",
+            "tracking_json_url",
+            "tracking_url"
+          )
+        },
+        { open: true }
+      ),
+      "assets"
+    ),
+    previewFrames: field(array(previewFrameSchema), "previewFrames", "preview_frames"),
+    warnings: field(array(unknownValue()), "warnings"),
+    metrics: field(
+      record(unknownValue()),
+      "metrics",
+      "raw_metrics",
+      "rawMetrics",
+      "evidence"
+    ),
+    scoreExplanation: field(
+      string(),
+      "scoreExplanation",
+      "score_explanation",
+      "score_detail",
+      "scoreDetail",
+      "explanation"
+    ),
+    trackingJsonUrl: field(string(), "trackingJsonUrl", "tracking_json_url"),
+    playerRef: field(unknownValue(), "playerRef", "player_ref")
+  }
+);
+
+export const DEFAULT_RESULT_SCHEMA_VERSION = "1";
+
+// Keyed on `result.schema_version`. Add a new entry (and keep the old one) when the
+// backend bumps the version so that stored jobs keep rendering.
+export const jobResultSchemas: Record<string, Schema<Infer<typeof jobResultV1Schema>>> = {
+  "1": jobResultV1Schema,
+  "1.0": jobResultV1Schema
+};
+
+export const jobResultSchema = versioned(
+  ["schema_version", "schemaVersion"],
+  jobResultSchemas,
+  DEFAULT_RESULT_SCHEMA_VERSION
+);
+
+const jobTargetSchema = object(
+  {
+    selections: field(array(selectionSchema), "selections"),
+    selection: field(selectionSchema, "selection", "draft"),
+    confirmed: field(boolean(), "confirmed")
+  },
+  { open: true }
+);
+
+export const jobSchema = object(
+  {
+    jobId: field(string(), "jobId", "job_id", "id"),
+    status: requiredField(string(), "status"),
+    ownerId: field(string(), "ownerId", "owner_id"),
+    progress: field(jobProgressSchema, "progress"),
+    autodetectionStatus: field(string(), "autodetectionStatus", "autodetection_status"),
+    errorDetail: field(string(), "errorDetail", "error_detail"),
+    error: field(unknownValue(), "error"),
+    warnings: field(array(unknownValue()), "warnings"),
+    createdAt: field(string(), "createdAt", "created_at"),
+    updatedAt: field(string(), "updatedAt", "updated_at"),
+    videoUrl: field(string(), "videoUrl", "video_url"),
+    videoKey: field(string(), "videoKey", "video_key"),
+    videoBucket: field(string(), "videoBucket", "video_bucket"),
+    teamName: field(string(), "teamName", "team_name"),
+    role: field(string(), "role"),
+    category: field(string(), "category"),
+    shirtNumber: field(number(), "shirtNumber", "shirt_number"),
+    previewFrames: field(array(previewFrameSchema), "previewFrames", "preview_frames"),
+    result: field(jobResultSchema, "result"),
+    playerRef: field(unknownValue(), "playerRef", "player_ref"),
+    target: field(jobTargetSchema, "target"),
+    assets: field(
+      object({ inputVideoUrl: field(string(), "inputVideoUrl", "input_video_url") }, { open: true }),
+      "assets"
+    ),
+    data: field(
+      object(
+        {
+          target: field(jobTargetSchema, "target"),
+          warnings: field(array(unknownValue()), "warnings")
+        },
+        { open: true }
+      ),
+      "data"
+    )
+  },
+  { ignore: ["ok", "request_id", "requestId"] }
+);
+
+export type NormalizedSelection = Infer<typeof selectionSchema>;
+export type NormalizedPreviewFrame = Infer<typeof previewFrameSchema>;
+export type NormalizedPreviewFrameTrack = Infer<typeof previewFrameTrackSchema>;
+export type NormalizedTrackCandidate = Infer<typeof trackCandidateSchema>;
+export type NormalizedTrackCandidateSampleFrame = Infer<typeof trackCandidateSampleFrameSchema>;
+export type NormalizedJobProgress = Infer<typeof jobProgressSchema>;
+export type NormalizedJobResult = Infer<typeof jobResultV1Schema>;
+export type NormalizedJob = Infer<typeof jobSchema>;
+export type NormalizedJobClip = Infer<typeof jobClipSchema>;
+export type NormalizedJobAssetVideo = Infer<typeof jobAssetVideoSchema>;
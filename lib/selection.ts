@@ -1,3 +1,8 @@
+import { parseQuietly } from "@/lib/schema";
+import { selectionSchema } from "@/lib/schemas";
+
+export { coerceNumber } from "@/lib/schema";
+
 export type NormalizedBBox = {
   x: number;
   y: number;
@@ -5,79 +10,25 @@ export type NormalizedBBox = {
   h: number;
 };
 
-type UnknownRecord = Record<string, any>;
-
-export const coerceNumber = (value: unknown): number | null => {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    if (!trimmed) {
-      return null;
-    }
-    const parsed = Number(trimmed);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
-export const getSelectionTimeSec = (source: unknown): number | null => {
+const readSelection = (source: unknown) => {
   if (!source || typeof source !== "object") {
     return null;
   }
-  const record = source as UnknownRecord;
-  return coerceNumber(
-    record.timeSec ??
-      record.time_sec ??
-      record.frameTimeSec ??
-      record.frame_time_sec ??
-      record.t ??
-      record.sample_time_sec ??
-      record.sampleTimeSec
-  );
+  return parseQuietly(selectionSchema, source);
 };
 
-export const getSelectionFrameKey = (source: unknown): string | null => {
-  if (!source || typeof source !== "object") {
-    return null;
-  }
-  const record = source as UnknownRecord;
-  const key =
-    record.frameKey ??
-    record.frame_key ??
-    record.key ??
-    record.s3_key ??
-    record.s3Key ??
-    null;
-  if (typeof key === "string" && key.trim()) {
-    return key;
-  }
-  return null;
-};
+export const getSelectionTimeSec = (source: unknown): number | null =>
+  readSelection(source)?.frameTimeSec ?? null;
 
-export const getSelectionBBox = (source: unknown): NormalizedBBox | null => {
-  if (!source || typeof source !== "object") {
-    return null;
-  }
-  const record = source as UnknownRecord;
-  const bboxSource =
-    record.bbox_xywh ??
-    record.bbox ??
-    record.box ??
-    record.bounding_box ??
-    record.boundingBox ??
-    record.selection ??
-    record.target ??
-    null;
-  const x = coerceNumber(record.x ?? bboxSource?.x);
-  const y = coerceNumber(record.y ?? bboxSource?.y);
-  const w = coerceNumber(record.w ?? bboxSource?.w);
-  const h = coerceNumber(record.h ?? bboxSource?.h);
-  if (x === null || y === null || w === null || h === null) {
-    return null;
-  }
-  return { x, y, w, h };
+export const getSelectionFrameKey = (source: unknown): string | null =>
+  readSelection(source)?.frameKey ?? null;
+
+export const getSelectionBBox = (source: unknown): NormalizedBBox | null =>
+  readSelection(source)?.bbox ?? null;
+
+export const getBestPreviewFrameKey = (source: unknown): string | null => {
+  const selection = readSelection(source);
+  return selection?.bestPreviewFrameKey ?? selection?.frameKey ?? null;
 };
 
 export const normalizeSelectionInput = (source: unknown) => {
@@ -90,3 +41,22 @@ export const normalizeSelectionInput = (source: unknown) => {
 
 export const clampNormalized = (value: number, min = 0, max = 1) =>
   Math.min(max, Math.max(min, value));
+
+const SAME_TIME_TOLERANCE_SEC = 0.05;
+const SAME_BBOX_TOLERANCE = 0.005;
+
+export const isSameSelection = (a: unknown, b: unknown) => {
+  const timeA = getSelectionTimeSec(a);
+  const timeB = getSelectionTimeSec(b);
+  const bboxA = getSelectionBBox(a);
+  const bboxB = getSelectionBBox(b);
+  if (timeA === null || timeB === null || !bboxA || !bboxB) {
+    return false;
+  }
+  return (
+    Math.abs(timeA - timeB) <= SAME_TIME_TOLERANCE_SEC &&
+    (["x", "y", "w", "h"] as const).every(
+      (key) => Math.abs(bboxA[key] - bboxB[key]) <= SAME_BBOX_TOLERANCE
+    )
+  );
+};
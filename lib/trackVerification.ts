@@ -0,0 +1,122 @@
+import type { PreviewFrame } from "@/lib/api";
+import { getSelectionBBox, getSelectionTimeSec, type NormalizedBBox } from "@/lib/selection";
+
+export type TrackFrameStatus = "ok" | "missing" | "jump" | "mismatch";
+
+export type TrackFrameCheck = {
+  frame: PreviewFrame;
+  timeSec: number | null;
+  bbox: NormalizedBBox | null;
+  status: TrackFrameStatus;
+  isSelectionFrame: boolean;
+};
+
+export type TrackVerification = {
+  frames: TrackFrameCheck[];
+  visibleCount: number;
+  missingCount: number;
+  jumpCount: number;
+  selectionMismatch: boolean;
+};
+
+// Center displacement (in normalized frame units) allowed between two consecutive
+// preview frames: a base tolerance plus what a sprinting player covers per second.
+const JUMP_BASE_DISTANCE = 0.08;
+const JUMP_DISTANCE_PER_SEC = 0.05;
+const JUMP_MAX_DISTANCE = 0.5;
+const JUMP_AREA_RATIO = 2.5;
+// Below this overlap the backend usually answers TARGET_MISMATCH.
+const SELECTION_MIN_IOU = 0.3;
+const SELECTION_TIME_TOLERANCE_SEC = 0.05;
+
+const getCenter = (bbox: NormalizedBBox) => ({ x: bbox.x + bbox.w / 2, y: bbox.y + bbox.h / 2 });
+
+export const getBBoxIoU = (a: NormalizedBBox, b: NormalizedBBox) => {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.w, b.x + b.w);
+  const bottom = Math.min(a.y + a.h, b.y + b.h);
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.w * a.h + b.w * b.h - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const isJump = (
+  previous: { bbox: NormalizedBBox; timeSec: number | null },
+  next: { bbox: NormalizedBBox; timeSec: number | null }
+) => {
+  const from = getCenter(previous.bbox);
+  const to = getCenter(next.bbox);
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const elapsed =
+    previous.timeSec !== null && next.timeSec !== null
+      ? Math.abs(next.timeSec - previous.timeSec)
+      : null;
+  const allowed =
+    elapsed === null
+      ? JUMP_MAX_DISTANCE / 2
+      : Math.min(JUMP_MAX_DISTANCE, JUMP_BASE_DISTANCE + JUMP_DISTANCE_PER_SEC * elapsed);
+  const previousArea = previous.bbox.w * previous.bbox.h;
+  const nextArea = next.bbox.w * next.bbox.h;
+  const areaRatio =
+    previousArea > 0 && nextArea > 0
+      ? Math.max(previousArea, nextArea) / Math.min(previousArea, nextArea)
+      : 1;
+  return distance > allowed || areaRatio > JUMP_AREA_RATIO;
+};
+
+const findTrackBBox = (frame: PreviewFrame, trackId: string) => {
+  const track = [...(frame.tracks ?? []), ...(frame.targetCandidates ?? [])].find(
+    (entry) => String(entry.trackId) === trackId
+  );
+  return track ? getSelectionBBox(track) : null;
+};
+
+export const verifyTrackAcrossFrames = (
+  frames: PreviewFrame[],
+  trackId: string,
+  selection: unknown = null
+): TrackVerification => {
+  const selectionTimeSec = selection ? getSelectionTimeSec(selection) : null;
+  const selectionBBox = selection ? getSelectionBBox(selection) : null;
+  const sorted = [...frames].sort(
+    (a, b) => (a.timeSec ?? Number.POSITIVE_INFINITY) - (b.timeSec ?? Number.POSITIVE_INFINITY)
+  );
+
+  let previous: { bbox: NormalizedBBox; timeSec: number | null } | null = null;
+  let selectionMismatch = false;
+  const checks = sorted.map((frame): TrackFrameCheck => {
+    const bbox = findTrackBBox(frame, trackId);
+    const timeSec = frame.timeSec ?? null;
+    const isSelectionFrame =
+      selectionTimeSec !== null &&
+      timeSec !== null &&
+      Math.abs(timeSec - selectionTimeSec) <= SELECTION_TIME_TOLERANCE_SEC;
+
+    let status: TrackFrameStatus = "ok";
+    if (!bbox) {
+      status = "missing";
+    } else if (previous && isJump(previous, { bbox, timeSec })) {
+      status = "jump";
+    }
+    if (isSelectionFrame && selectionBBox) {
+      const mismatch = !bbox || getBBoxIoU(bbox, selectionBBox) < SELECTION_MIN_IOU;
+      if (mismatch) {
+        status = "mismatch";
+        selectionMismatch = true;
+      }
+    }
+    if (bbox) {
+      previous = { bbox, timeSec };
+    }
+    return { frame, timeSec, bbox, status, isSelectionFrame };
+  });
+
+  return {
+    frames: checks,
+    visibleCount: checks.filter((check) => check.bbox !== null).length,
+    missingCount: checks.filter((check) => check.bbox === null).length,
+    jumpCount: checks.filter((check) => check.status === "jump").length,
+    selectionMismatch
+  };
+};
@@ -0,0 +1,36 @@
+export type UndoHistory<T> = {
+  past: T[];
+  future: T[];
+};
+
+export const MAX_UNDO_STEPS = 50;
+
+export const emptyUndoHistory = <T>(): UndoHistory<T> => ({ past: [], future: [] });
+
+// Recording a new step drops the redo branch, like most editors do.
+export const pushUndoStep = <T>(history: UndoHistory<T>, snapshot: T): UndoHistory<T> => ({
+  past: [...history.past, snapshot].slice(-MAX_UNDO_STEPS),
+  future: []
+});
+
+export const undoStep = <T>(history: UndoHistory<T>, current: T) => {
+  const snapshot = history.past[history.past.length - 1];
+  if (snapshot === undefined) {
+    return null;
+  }
+  return {
+    snapshot,
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] }
+  };
+};
+
+export const redoStep = <T>(history: UndoHistory<T>, current: T) => {
+  const [snapshot, ...future] = history.future;
+  if (snapshot === undefined) {
+    return null;
+  }
+  return {
+    snapshot,
+    history: { past: [...history.past, current].slice(-MAX_UNDO_STEPS), future }
+  };
+};
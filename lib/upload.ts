@@ -0,0 +1,220 @@
+import {
+  abortUpload,
+  completeUpload,
+  createUpload,
+  listUploadedParts,
+  presignUploadParts,
+  type UploadSession,
+  type UploadedPart
+} from "@/lib/api";
+import { runWithConcurrency } from "@/lib/batch";
+
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+const PART_CONCURRENCY = 3;
+const PRESIGN_BATCH_SIZE = 12;
+const STORAGE_PREFIX = "algonext:upload:";
+
+type StoredUpload = {
+  session: UploadSession;
+  partSize: number;
+  parts: UploadedPart[];
+};
+
+export type UploadProgress = {
+  uploadedBytes: number;
+  totalBytes: number;
+  completedParts: number;
+  totalParts: number;
+};
+
+type UploadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+};
+
+const getUploadFingerprint = (file: File) =>
+  `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const loadStoredUpload = (file: File): StoredUpload | null => {
+  try {
+    const raw = window.localStorage.getItem(getUploadFingerprint(file));
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as StoredUpload;
+    return parsed?.session?.uploadId && parsed.partSize > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveStoredUpload = (file: File, stored: StoredUpload) => {
+  try {
+    window.localStorage.setItem(getUploadFingerprint(file), JSON.stringify(stored));
+  } catch {
+    // ignore storage quota errors: the upload still works, it just can't resume
+  }
+};
+
+const clearStoredUpload = (file: File) => {
+  try {
+    window.localStorage.removeItem(getUploadFingerprint(file));
+  } catch {
+    // ignore storage errors
+  }
+};
+
+export const hasResumableUpload = (file: File) => loadStoredUpload(file) !== null;
+
+const createAbortError = () => {
+  const error = new Error("Upload paused.");
+  error.name = "AbortError";
+  return error;
+};
+
+export const isUploadAbortError = (error: unknown) =>
+  error instanceof Error && error.name === "AbortError";
+
+const putPart = (
+  url: string,
+  blob: Blob,
+  signal: AbortSignal | undefined,
+  onProgress: (loaded: number) => void
+) =>
+  new Promise<string>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener("abort", handleAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener("abort", handleAbort);
+
+    xhr.open("PUT", url);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`Part upload failed with status ${xhr.status}.`));
+        return;
+      }
+      const etag = xhr.getResponseHeader("ETag");
+      if (!etag) {
+        reject(
+          new Error("Storage did not expose the ETag header. Check the bucket CORS settings.")
+        );
+        return;
+      }
+      resolve(etag);
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error("Network error while uploading a part."));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+    xhr.send(blob);
+  });
+
+const restoreUpload = async (file: File): Promise<StoredUpload | null> => {
+  const stored = loadStoredUpload(file);
+  if (!stored) {
+    return null;
+  }
+  try {
+    const serverParts = await listUploadedParts(stored.session);
+    return { ...stored, parts: serverParts };
+  } catch {
+    clearStoredUpload(file);
+    return null;
+  }
+};
+
+export async function uploadFileMultipart(
+  file: File,
+  { signal, onProgress }: UploadOptions = {}
+) {
+  let stored = await restoreUpload(file);
+  if (!stored) {
+    const session = await createUpload({
+      filename: file.name,
+      contentType: file.type || "application/octet-stream",
+      size: file.size
+    });
+    stored = { session, partSize: session.partSize ?? DEFAULT_PART_SIZE, parts: [] };
+    saveStoredUpload(file, stored);
+  }
+
+  const { session, partSize } = stored;
+  const totalParts = Math.max(1, Math.ceil(file.size / partSize));
+  const completed = new Map(stored.parts.map((part) => [part.partNumber, part]));
+  const inFlight = new Map<number, number>();
+  const partBytes = (partNumber: number) =>
+    Math.min(partSize, file.size - (partNumber - 1) * partSize);
+
+  const reportProgress = () => {
+    let uploadedBytes = 0;
+    completed.forEach((part) => {
+      uploadedBytes += partBytes(part.partNumber);
+    });
+    inFlight.forEach((loaded) => {
+      uploadedBytes += loaded;
+    });
+    onProgress?.({
+      uploadedBytes: Math.min(uploadedBytes, file.size),
+      totalBytes: file.size,
+      completedParts: completed.size,
+      totalParts
+    });
+  };
+
+  const pending = Array.from({ length: totalParts }, (_, index) => index + 1).filter(
+    (partNumber) => !completed.has(partNumber)
+  );
+  reportProgress();
+
+  for (let offset = 0; offset < pending.length; offset += PRESIGN_BATCH_SIZE) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    const batch = pending.slice(offset, offset + PRESIGN_BATCH_SIZE);
+    const urls = await presignUploadParts(session, batch);
+    const urlByPart = new Map(urls.map((item) => [item.partNumber, item.url]));
+
+    await runWithConcurrency(batch, PART_CONCURRENCY, async (partNumber) => {
+      const url = urlByPart.get(partNumber);
+      if (!url) {
+        throw new Error(`Missing presigned URL for part ${partNumber}.`);
+      }
+      const start = (partNumber - 1) * partSize;
+      const blob = file.slice(start, start + partSize);
+      try {
+        const etag = await putPart(url, blob, signal, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          reportProgress();
+        });
+        completed.set(partNumber, { partNumber, etag });
+        saveStoredUpload(file, { session, partSize, parts: Array.from(completed.values()) });
+      } finally {
+        inFlight.delete(partNumber);
+        reportProgress();
+      }
+    });
+  }
+
+  const result = await completeUpload(session, Array.from(completed.values()));
+  clearStoredUpload(file);
+  return result;
+}
+
+export async function discardUpload(file: File) {
+  const stored = loadStoredUpload(file);
+  clearStoredUpload(file);
+  if (stored) {
+    await abortUpload(stored.session).catch(() => undefined);
+  }
+}
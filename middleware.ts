@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getAuthConfig, getLoginUrl, getSessionUser } from "@/lib/auth";
+
+const jsonError = (status: number, code: string, message: string) => {
+  const requestId = crypto.randomUUID();
+  return new Response(JSON.stringify({ code, message, request_id: requestId }), {
+    status,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      "x-request-id": requestId
+    }
+  });
+};
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  try {
+    getAuthConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Authentication is not configured.";
+    console.error("[auth] Misconfigured", { message });
+    return isApi
+      ? jsonError(500, "AUTH_NOT_CONFIGURED", message)
+      : new Response(message, {
+          status: 500,
+          headers: { "content-type": "text/plain; charset=utf-8", "cache-control": "no-store" }
+        });
+  }
+
+  if (await getSessionUser(request)) {
+    return NextResponse.next();
+  }
+  if (isApi) {
+    return jsonError(401, "UNAUTHENTICATED", "Sign in to continue.");
+  }
+  return NextResponse.redirect(getLoginUrl(request, { returnTo: `${pathname}${search}` }));
+}
+
+export const config = {
+  matcher: [
+    "/",
+    "/jobs/:path*",
+    "/compare",
+    "/api/jobs/:path*",
+    "/api/uploads/:path*",
+    "/api/frame-proxy"
+  ]
+};